@@ -1,157 +1,276 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Chess, Move } from 'chess.js';
-import { PieceColor, Difficulty, PieceType } from './types';
+import React, { useState, useEffect, useRef, useMemo, useSyncExternalStore } from 'react';
+import { PieceColor, PieceType, EngineProviderId, EngineRole, CoachProviderId, TimeControl, StructuredHint, BoardAnnotation } from './types';
 import Board from './components/Board';
 import CapturedPieces from './components/CapturedPieces';
-import { getBestMove } from './services/engine';
-import { getGameCommentary, getHint } from './services/geminiService';
-import { INITIAL_FEN } from './constants';
+import MoveList from './components/MoveList';
+import Clock from './components/Clock';
+import PositionEditor from './components/PositionEditor';
+import PuzzleTrainer from './components/PuzzleTrainer';
+import GameReviewPanel from './components/GameReviewPanel';
+import EvalGraph from './components/EvalGraph';
+import { isAbortError } from './services/engineClient';
+import { ENGINE_PROVIDERS, HINT_LIMITS, getEngineProvider, runWithFallback } from './services/engineProvider';
+import { STRENGTH_LEVELS, getStrengthLevel, formatStrengthLevel } from './services/strength';
+import { COACH_PROVIDERS, getCoachProvider } from './services/coachProvider';
+import { HINT_LEVELS, requestHint, revealHint } from './services/hints';
+import { parsePgn, downloadPgn } from './services/pgn';
+import { boardAt, lineEnd, takeBackTarget, openingAt, fromPgn } from './services/gameTree';
+import { capturedPieces, createGameController, gameOutcome } from './services/gameController';
+import { createAnalysisController } from './services/analysisController';
+import { formatOpening } from './services/openings';
+import { CLASSIFICATION_GLYPHS } from './services/review';
+import { TIME_CONTROLS, customTimeControl, timeLeft } from './services/clock';
+import { engineLineAnnotations } from './services/annotations';
+
+const ENGINE_ROLES: { role: EngineRole; label: string }[] = [
+  { role: 'play', label: 'Opponent' },
+  { role: 'hint', label: 'Hints' },
+  { role: 'analysis', label: 'Analysis' },
+];
 
 const App: React.FC = () => {
-  const [game, setGame] = useState(new Chess(INITIAL_FEN));
-  const [fen, setFen] = useState(INITIAL_FEN);
-  const [difficulty, setDifficulty] = useState<Difficulty>(Difficulty.MEDIUM);
-  const [playerColor, setPlayerColor] = useState<PieceColor>(PieceColor.WHITE);
-  const [isAiThinking, setIsAiThinking] = useState(false);
-  const [lastMove, setLastMove] = useState<{ from: string; to: string } | null>(null);
+  // The game against the bot runs in the controller; this component is a view of it
+  const [controller] = useState(() => createGameController());
+  const {
+    game,
+    fen,
+    tree,
+    liveId,
+    clock,
+    playerColor,
+    level,
+    engineSettings,
+    coachSettings,
+    thinking: isAiThinking,
+    progress: searchProgress,
+  } = useSyncExternalStore(controller.subscribe, controller.getState);
   const [commentary, setCommentary] = useState<string>("Welcome to Grandmaster AI Chess. Good luck!");
-  const [capturedWhite, setCapturedWhite] = useState<PieceType[]>([]);
-  const [capturedBlack, setCapturedBlack] = useState<PieceType[]>([]);
-  const [gameStatus, setGameStatus] = useState<string>('Active');
-  
-  // Ref to track latest game instance in timeouts
-  const gameRef = useRef(game);
+  // The node shown on the board; it is read-only unless it is the live one
+  const [viewId, setViewId] = useState<number>(tree.rootId);
+  // 'none' for an untimed game, a preset's id or 'custom'
+  const [timeControlId, setTimeControlId] = useState('none');
+  const [customTime, setCustomTime] = useState({ minutes: 10, increment: 5, delay: 0 });
+  const [now, setNow] = useState(Date.now());
+  const [isEditing, setIsEditing] = useState(false);
+  const [mode, setMode] = useState<'play' | 'puzzles'>('play');
+  const pgnInputRef = useRef<HTMLInputElement>(null);
+  // The analysis engine's evaluations, its line at each position and its review of the game, run
+  // in their own controller
+  const [analysis] = useState(() => createAnalysisController({ getEngineId: () => controller.getState().engineSettings.analysis }));
+  const { evaluations, engineLines, review, reviewProgress } = useSyncExternalStore(analysis.subscribe, analysis.getState);
+  // Whether the bar, graph and arrows show them; any of them can be turned off mid-game so the
+  // engine gives nothing away
+  const [showEvalBar, setShowEvalBar] = useState(true);
+  const [showEvalGraph, setShowEvalGraph] = useState(true);
+  const [showEngineArrows, setShowEngineArrows] = useState(false);
+  // The hint for a position and how many of its levels have been shown; it stays with that position
+  const [hint, setHint] = useState<{ nodeId: number; hint: StructuredHint; level: number } | null>(null);
 
-  useEffect(() => {
-    gameRef.current = game;
-  }, [game]);
-
-  const updateCapturedPieces = useCallback((currentHistory: string[]) => {
-      // Basic Diffing to find captured pieces is complex with just history strings
-      // Instead, we count material on board vs initial
-      const board = game.board();
-      const currentPieces: Record<string, number> = {};
-      
-      board.flat().forEach(p => {
-          if(p) {
-              const key = `${p.color}${p.type}`;
-              currentPieces[key] = (currentPieces[key] || 0) + 1;
-          }
-      });
-
-      const initialCounts: Record<string, number> = {
-          [`${PieceColor.WHITE}${PieceType.PAWN}`]: 8, [`${PieceColor.WHITE}${PieceType.ROOK}`]: 2, [`${PieceColor.WHITE}${PieceType.KNIGHT}`]: 2, [`${PieceColor.WHITE}${PieceType.BISHOP}`]: 2, [`${PieceColor.WHITE}${PieceType.QUEEN}`]: 1,
-          [`${PieceColor.BLACK}${PieceType.PAWN}`]: 8, [`${PieceColor.BLACK}${PieceType.ROOK}`]: 2, [`${PieceColor.BLACK}${PieceType.KNIGHT}`]: 2, [`${PieceColor.BLACK}${PieceType.BISHOP}`]: 2, [`${PieceColor.BLACK}${PieceType.QUEEN}`]: 1
-      };
-
-      const wCaps: PieceType[] = [];
-      const bCaps: PieceType[] = [];
-
-      // Calculate missing white pieces (captured by black)
-      Object.keys(initialCounts).forEach(key => {
-          if (key.startsWith('w')) {
-              const count = currentPieces[key] || 0;
-              const missing = initialCounts[key] - count;
-              for(let i=0; i<missing; i++) wCaps.push(key[1] as PieceType);
-          }
-      });
-       // Calculate missing black pieces (captured by white)
-       Object.keys(initialCounts).forEach(key => {
-        if (key.startsWith('b')) {
-            const count = currentPieces[key] || 0;
-            const missing = initialCounts[key] - count;
-            for(let i=0; i<missing; i++) bCaps.push(key[1] as PieceType);
-        }
-    });
-
-    setCapturedWhite(wCaps);
-    setCapturedBlack(bCaps);
-  }, [game]);
-
-
-  const checkGameOver = useCallback(() => {
-    if (game.isCheckmate()) {
-        setGameStatus(`Checkmate! ${game.turn() === 'w' ? 'Black' : 'White'} wins.`);
-    } else if (game.isDraw()) {
-        setGameStatus('Draw!');
-    } else if (game.isStalemate()) {
-        setGameStatus('Stalemate!');
-    } else if (game.inCheck()) {
-        setGameStatus('Check!');
-    } else {
-        setGameStatus('Active');
+  // The board follows the game: each move played, and wherever the game goes on from
+  useEffect(() => controller.subscribe((event) => {
+    const { tree: current } = controller.getState();
+    if (event.type === 'move') setViewId(event.nodeId);
+    else if (event.type === 'live') setViewId(event.nodeId ?? lineEnd(current, current.rootId));
+    else if (event.type === 'commentary' || event.type === 'notice') setCommentary(event.text);
+    else if (event.type === 'gameOver') setCommentary(event.outcome.reason);
+  }), [controller]);
+
+  // The review's verdict, or why there is none, goes to the commentary
+  useEffect(() => analysis.subscribe((event) => {
+    if (event.type === 'notice') setCommentary(event.text);
+    else if (event.type === 'reviewFailed') setCommentary(`Couldn't review the game: ${event.message}`);
+    else if (event.type === 'reviewDone') {
+      setCommentary(event.review.keyMoments.length > 0
+        ? 'Review done. The key moments are listed under Game Review; step through them to see the better moves.'
+        : 'Review done. No mistakes or blunders in this one!');
     }
-  }, [game]);
+  }), [analysis]);
+
+  // The live game itself, or a replay of the moves up to an earlier position
+  const viewBoard = useMemo(
+    () => (viewId === liveId ? game : boardAt(tree, viewId)),
+    [tree, viewId, liveId, game, fen]
+  );
+  const viewNode = tree.nodes[viewId];
+  const isViewingLive = viewId === liveId;
+  const opening = useMemo(() => openingAt(tree, viewId), [tree, viewId]);
+  const reviewedMove = review?.moves.find((move) => move.nodeId === viewId);
+  const shownHint = hint?.nodeId === viewId ? revealHint(hint.hint, HINT_LEVELS[hint.level]) : null;
+  // What the app draws on the board under the player's own drawings
+  const engineLine = showEngineArrows ? engineLines[viewId] : undefined;
+  const boardAnnotations: BoardAnnotation[] = [
+    ...(shownHint?.annotations ?? []),
+    ...(reviewedMove?.betterMove ? [{ from: reviewedMove.betterMove.from, to: reviewedMove.betterMove.to, color: 'G' as const }] : []),
+    ...(engineLine ? engineLineAnnotations(viewBoard.fen(), engineLine) : []),
+  ];
+  const reviewGlyphs = useMemo(
+    () => Object.fromEntries((review?.moves ?? []).map((move) => [move.nodeId, CLASSIFICATION_GLYPHS[move.classification]])),
+    [review]
+  );
 
-  const handleMove = async (from: string, to: string) => {
-    if (game.isGameOver() || isAiThinking) return;
+  const timeControl: TimeControl | null = useMemo(() => {
+    if (timeControlId === 'custom') return customTimeControl(customTime.minutes, customTime.increment, customTime.delay);
+    return TIME_CONTROLS.find((control) => control.id === timeControlId) ?? null;
+  }, [timeControlId, customTime]);
 
-    try {
-      const move = game.move({ from, to, promotion: 'q' });
-      if (!move) return; // Invalid move
+  // Status and captures follow whichever position is on the board
+  const captured = useMemo(() => capturedPieces(viewBoard, tree.nodes[tree.rootId].fen), [viewBoard, fen, tree]);
+  const outcome = gameOutcome(viewBoard, isViewingLive ? clock?.flagged ?? null : null);
+  const gameStatus = outcome ? outcome.reason : viewBoard.inCheck() ? 'Check!' : 'Active';
 
-      setFen(game.fen());
-      setLastMove({ from, to });
-      updateCapturedPieces(game.history());
-      checkGameOver();
-      
-      // Update Commentary (Async)
-      getGameCommentary(game.fen(), move.san, game.history()).then(setCommentary);
-
-      // AI Turn
-      if (!game.isGameOver()) {
-        setIsAiThinking(true);
-        setTimeout(() => {
-          makeAiMove();
-        }, 500); // Small delay for realism
-      }
-    } catch (e) {
-      console.error(e);
-    }
+  // The analysis engine evaluates each position as it comes on the board, while anything shows it
+  useEffect(() => {
+    if (mode === 'play' && (showEvalBar || showEvalGraph || showEngineArrows)) analysis.evaluate(viewId, viewBoard.fen(), { withLine: showEngineArrows });
+    else analysis.cancelEvaluation();
+  }, [analysis, mode, showEvalBar, showEvalGraph, showEngineArrows, viewId, viewBoard]);
+
+  const handleMove = (from: string, to: string, promotion?: PieceType) => {
+    if (!isViewingLive) return;
+    controller.move(from, to, promotion);
   };
 
-  const makeAiMove = useCallback(() => {
-    const currentGame = gameRef.current; // Use ref to get latest state
-    if (currentGame.isGameOver()) {
-        setIsAiThinking(false);
-        return;
+  // The running clock redraws a few times a second, and running out of time ends the game
+  useEffect(() => {
+    if (!clock?.running) return;
+    const timer = setInterval(() => {
+        setNow(Date.now());
+        controller.tick();
+    }, 100);
+    return () => clearInterval(timer);
+  }, [clock?.running, controller]);
+
+  const resetGame = (side: PieceColor = playerColor, startFen?: string) => {
+    analysis.clearReview();
+    controller.newGame({ side, startFen });
+    setCommentary(startFen
+        ? "Your position is set up. Let's see how you handle it!"
+        : "New game started. Show me what you've got!");
+  };
+
+  const choosePlayerColor = (side: PieceColor) => {
+    if (side === playerColor) return;
+    resetGame(side);
+  };
+
+  // The game waits while puzzles are solved: the bot stops thinking and the clock stops, both
+  // picking up again on the way back
+  const chooseMode = (next: 'play' | 'puzzles') => {
+    if (next === mode) return;
+    setMode(next);
+    if (next === 'puzzles') controller.pause();
+    else controller.resume();
+  };
+
+  const playSetUpPosition = (startFen: string) => {
+    setIsEditing(false);
+    resetGame(playerColor, startFen);
+  };
+
+  const goTo = (nodeId: number | null | undefined) => {
+    if (nodeId === null || nodeId === undefined) return;
+    setViewId(nodeId);
+    const comment = tree.nodes[nodeId].comment;
+    if (comment) setCommentary(comment);
+  };
+
+  // Arrow keys step through the moves, Home and End jump to the ends of the line
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+        if (isEditing || mode === 'puzzles' || event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+        const targets: Record<string, number | null | undefined> = {
+            ArrowLeft: viewNode.parentId,
+            ArrowRight: viewNode.children[0],
+            Home: tree.rootId,
+            End: lineEnd(tree, viewId),
+        };
+        if (!(event.key in targets)) return;
+        event.preventDefault();
+        goTo(targets[event.key]);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const liveTakeBackTarget = liveId !== null ? takeBackTarget(tree, liveId, playerColor) : null;
+
+  const takeBack = () => {
+    if (controller.takeBack()) setCommentary("Move taken back. Try something else!");
+  };
+
+  const playFromHere = () => {
+    if (isViewingLive) return;
+    controller.playFrom(viewId);
+    setCommentary("Play on from here. Show me what you've got!");
+  };
+
+  const importPgn = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+        const imported = fromPgn(parsePgn(await file.text()));
+        analysis.clearReview();
+        controller.loadGame(imported);
+        setCommentary(`${imported.headers.White} vs ${imported.headers.Black}. Step through the moves, or pick one and play on from there.`);
+    } catch (error) {
+        setCommentary(`Couldn't load that PGN: ${error instanceof Error ? error.message : String(error)}`);
     }
+  };
 
-    // Run engine in a small timeout to not block UI rendering of the player move
-    setTimeout(() => {
-        const bestMoveSan = getBestMove(currentGame, difficulty);
-        if (bestMoveSan) {
-            const move = currentGame.move(bestMoveSan);
-            setFen(currentGame.fen());
-            setLastMove({ from: move.from, to: move.to });
-            updateCapturedPieces(currentGame.history());
-            checkGameOver();
-            
-            // AI Commentary occasionally
-            if (Math.random() > 0.5) {
-                getGameCommentary(currentGame.fen(), move.san, currentGame.history()).then(setCommentary);
-            }
-        }
-        setIsAiThinking(false);
-    }, 100);
+  // A game against the bot can be reviewed once it is over; a loaded game at any time
+  const canReview = liveId === null || game.isGameOver() || !!clock?.flagged;
+
+  // Runs the analysis engine over the game as played: the live line, or a loaded game's main line
+  const startReview = () => analysis.startReview(tree, liveId ?? lineEnd(tree, tree.rootId));
 
-  }, [difficulty, updateCapturedPieces, checkGameOver]);
-
-  const resetGame = () => {
-    const newGame = new Chess();
-    setGame(newGame);
-    setFen(newGame.fen());
-    setLastMove(null);
-    setCapturedWhite([]);
-    setCapturedBlack([]);
-    setCommentary("New game started. Show me what you've got!");
-    setGameStatus("Active");
-    setIsAiThinking(false);
+  const exportPgn = () => downloadPgn(controller.gameRecord());
+
+  // A new time control takes over at once if the game hasn't started, otherwise from the next game
+  const chooseTimeControl = (id: string, custom = customTime) => {
+    setTimeControlId(id);
+    setCustomTime(custom);
+    controller.setTimeControl(id === 'custom' ? customTimeControl(custom.minutes, custom.increment, custom.delay) : TIME_CONTROLS.find((c) => c.id === id) ?? null);
   };
 
+  const botColor = playerColor === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+  const renderClock = (side: PieceColor) =>
+    clock && <Clock ms={timeLeft(clock, side, now)} active={clock.running === side} flagged={clock.flagged === side} />;
+
+  // Each press gives away more of the hint for the position on the board, even when stepping
+  // through earlier moves: the theme, then the piece, then the move
   const handleHint = async () => {
-    const hint = await getHint(game.fen(), game.turn());
-    setCommentary(`Coach: ${hint}`);
+    const board = viewBoard;
+    const nodeId = viewId;
+    if (board.isGameOver()) return;
+    if (hint?.nodeId === nodeId) {
+        const level = Math.min(hint.level + 1, HINT_LEVELS.length - 1);
+        setHint({ ...hint, level });
+        setCommentary(`Coach: ${revealHint(hint.hint, HINT_LEVELS[level]).text}`);
+        return;
+    }
+
+    setCommentary('Coach is analyzing...');
+    try {
+        // The engine picks the move and the coach explains it
+        const { bestMove, pv } = await runWithFallback(
+            getEngineProvider(engineSettings.hint),
+            (engine) => engine.analyze(board.fen(), HINT_LIMITS)
+        );
+        if (!bestMove) return;
+        const structured = await requestHint(getCoachProvider(coachSettings.provider), coachSettings, {
+            kind: 'hint',
+            fen: board.fen(),
+            engineMove: bestMove,
+            line: pv,
+        });
+        setHint({ nodeId, hint: structured, level: 0 });
+        setCommentary(`Coach: ${revealHint(structured, HINT_LEVELS[0]).text}`);
+    } catch (error) {
+        if (isAbortError(error)) return; // A newer hint request, or a new game, took over
+        console.error("Engine error:", error);
+        setCommentary(`Couldn't find a hint: ${error instanceof Error ? error.message : String(error)}`);
+    }
   };
 
   return (
@@ -163,9 +282,23 @@ const App: React.FC = () => {
           Chess Practice
         </h1>
         <p className="text-gray-400 mt-2 text-sm">Powered by Gemini AI</p>
+        <div className="inline-flex bg-gray-800 rounded-lg p-1 gap-1 mt-4">
+            {([['play', 'Play vs Bot'], ['puzzles', 'Puzzles']] as const).map(([value, label]) => (
+                <button
+                    key={value}
+                    onClick={() => chooseMode(value)}
+                    aria-pressed={mode === value}
+                    className={`px-4 py-1.5 text-xs font-medium rounded-md transition-all ${mode === value ? 'bg-gray-600 text-white shadow-sm' : 'text-gray-400 hover:text-white'}`}
+                >
+                    {label}
+                </button>
+            ))}
+        </div>
       </header>
 
-      <div className="flex flex-col lg:flex-row gap-8 w-full max-w-6xl items-start justify-center">
+      {mode === 'puzzles' && <PuzzleTrainer coachSettings={coachSettings} />}
+
+      <div className={`flex flex-col lg:flex-row gap-8 w-full max-w-6xl items-start justify-center ${mode === 'puzzles' ? 'hidden' : ''}`}>
         
         {/* Main Board Area */}
         <div className="flex flex-col gap-4 items-center w-full lg:w-auto">
@@ -177,18 +310,28 @@ const App: React.FC = () => {
                     </div>
                     <div>
                         <div className="font-semibold text-sm">Coach Bot</div>
-                        <div className="text-xs text-gray-400">Level: {Difficulty[difficulty]}</div>
+                        <div className="text-xs text-gray-400">{formatStrengthLevel(getStrengthLevel(level))}</div>
                     </div>
+                    {renderClock(botColor)}
                 </div>
-                <CapturedPieces pieces={capturedWhite} color={PieceColor.WHITE} />
+                {/* Pieces the bot has taken from you */}
+                <CapturedPieces
+                    pieces={captured[playerColor]}
+                    color={playerColor}
+                />
             </div>
 
             {/* The Board */}
             <Board 
-                game={game} 
+                game={viewBoard} 
                 onMove={handleMove} 
                 orientation={playerColor} 
-                lastMove={lastMove}
+                lastMove={viewNode.parentId !== null ? { from: viewNode.from, to: viewNode.to } : null}
+                readOnly={!isViewingLive}
+                annotations={boardAnnotations}
+                drawings={viewNode.annotations ?? []}
+                onDraw={(drawings) => controller.setAnnotations(viewId, drawings)}
+                evaluation={showEvalBar ? evaluations[viewId] ?? null : undefined}
             />
 
             {/* Bottom Player Info (You) */}
@@ -201,8 +344,12 @@ const App: React.FC = () => {
                         <div className="font-semibold text-sm">You</div>
                         <div className="text-xs text-gray-400">{gameStatus}</div>
                     </div>
+                    {renderClock(playerColor)}
                 </div>
-                 <CapturedPieces pieces={capturedBlack} color={PieceColor.BLACK} />
+                 <CapturedPieces
+                    pieces={captured[playerColor === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE]}
+                    color={playerColor === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE}
+                 />
             </div>
         </div>
 
@@ -220,36 +367,244 @@ const App: React.FC = () => {
                 <p className="text-gray-300 text-sm leading-relaxed min-h-[60px] italic">
                     "{commentary}"
                 </p>
-                {isAiThinking && <p className="text-xs text-gray-500 mt-2 animate-pulse">Coach is thinking...</p>}
+                {isAiThinking && (
+                    <p className="text-xs text-gray-500 mt-2 animate-pulse">
+                        Coach is thinking...
+                        {searchProgress && ` depth ${searchProgress.depth} · ${searchProgress.nodes.toLocaleString()} nodes${searchProgress.bestMove ? ` · ${searchProgress.bestMove}` : ''}`}
+                    </p>
+                )}
+            </div>
+
+            {/* Move List */}
+            <div className="bg-gray-800 rounded-xl p-6 border border-gray-700 shadow-xl space-y-3">
+                <div>
+                    <h3 className="text-white font-bold">Moves</h3>
+                    <p aria-live="polite" className="text-xs text-gray-400 min-h-[1rem]">
+                        {opening ? formatOpening(opening) : ''}
+                    </p>
+                </div>
+                <MoveList tree={tree} currentId={viewId} onSelect={goTo} glyphs={reviewGlyphs} />
+                {showEvalGraph && <EvalGraph tree={tree} evaluations={evaluations} currentId={viewId} onSelect={goTo} />}
+                <div className="flex gap-1">
+                    {[
+                        { label: '⏮', title: 'Start (Home)', target: tree.rootId },
+                        { label: '◀', title: 'Back (←)', target: viewNode.parentId },
+                        { label: '▶', title: 'Forward (→)', target: viewNode.children[0] },
+                        { label: '⏭', title: 'End of line (End)', target: lineEnd(tree, viewId) },
+                    ].map(({ label, title, target }) => (
+                        <button
+                            key={label}
+                            title={title}
+                            onClick={() => goTo(target)}
+                            className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-300 py-1.5 rounded-lg text-xs transition-colors"
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        onClick={takeBack}
+                        disabled={liveTakeBackTarget === null}
+                        className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-300 py-2 rounded-lg text-xs font-semibold transition-colors disabled:opacity-40"
+                    >
+                        Take Back
+                    </button>
+                    {!isViewingLive && (
+                        <button
+                            onClick={playFromHere}
+                            className="flex-1 bg-emerald-600/20 hover:bg-emerald-600/30 text-emerald-400 border border-emerald-500/50 py-2 rounded-lg text-xs font-semibold transition-all"
+                        >
+                            Play vs Bot from Here
+                        </button>
+                    )}
+                </div>
             </div>
 
+            {(canReview || review || reviewProgress) && (
+                <GameReviewPanel
+                    tree={tree}
+                    review={review}
+                    progress={reviewProgress}
+                    currentId={viewId}
+                    onStart={startReview}
+                    onCancel={analysis.cancelReview}
+                    onSelect={goTo}
+                />
+            )}
+
             {/* Controls */}
             <div className="bg-gray-800 rounded-xl p-6 border border-gray-700 shadow-xl space-y-4">
                 <h3 className="text-white font-bold mb-4">Game Controls</h3>
+
+                <div>
+                    <label className="text-xs text-gray-400 block mb-2">Play As</label>
+                    <div className="flex bg-gray-700 rounded-lg p-1 gap-1">
+                        {[PieceColor.WHITE, PieceColor.BLACK].map((side) => (
+                            <button
+                                key={side}
+                                onClick={() => choosePlayerColor(side)}
+                                className={`
+                                    flex-1 py-2 text-xs font-medium rounded-md transition-all
+                                    ${playerColor === side
+                                        ? 'bg-gray-600 text-white shadow-sm'
+                                        : 'text-gray-400 hover:text-white'}
+                                `}
+                            >
+                                {side === PieceColor.WHITE ? 'White' : 'Black'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
                 
                 <div>
-                    <label className="text-xs text-gray-400 block mb-2">Difficulty</label>
-                    <div className="grid grid-cols-3 gap-2">
-                        {[Difficulty.EASY, Difficulty.MEDIUM, Difficulty.HARD].map((d) => (
+                    <label className="text-xs text-gray-400 block mb-2">Engines</label>
+                    <div className="flex flex-col gap-2">
+                        {ENGINE_ROLES.map(({ role, label }) => (
+                            <div key={role} className="flex items-center justify-between gap-2">
+                                <span className="text-xs text-gray-400">{label}</span>
+                                <select
+                                    value={engineSettings[role]}
+                                    onChange={(e) => controller.setEngineSettings({ ...engineSettings, [role]: e.target.value as EngineProviderId })}
+                                    className="bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1.5 border border-gray-600"
+                                >
+                                    {ENGINE_PROVIDERS.map((provider) => (
+                                        <option key={provider.id} value={provider.id}>{provider.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <label htmlFor="coach-provider" className="text-xs text-gray-400 block mb-2">Coach</label>
+                    <div className="flex flex-col gap-2">
+                        <select
+                            id="coach-provider"
+                            value={coachSettings.provider}
+                            onChange={(e) => controller.setCoachSettings({ ...coachSettings, provider: e.target.value as CoachProviderId, model: '' })}
+                            className="w-full bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1.5 border border-gray-600"
+                        >
+                            {COACH_PROVIDERS.map((provider) => (
+                                <option key={provider.id} value={provider.id}>{provider.name}</option>
+                            ))}
+                        </select>
+                        {/* The offline coach has no model to pick or temperature to set */}
+                        {getCoachProvider(coachSettings.provider).defaultModel && (
+                            <>
+                                <input
+                                    type="text"
+                                    aria-label="Coach model"
+                                    value={coachSettings.model}
+                                    placeholder={getCoachProvider(coachSettings.provider).defaultModel}
+                                    onChange={(e) => controller.setCoachSettings({ ...coachSettings, model: e.target.value.trim() })}
+                                    className="w-full bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1.5 border border-gray-600"
+                                />
+                                <label className="flex items-center gap-2 text-xs text-gray-400">
+                                    Temperature {coachSettings.temperature.toFixed(1)}
+                                    <input
+                                        type="range"
+                                        min={0}
+                                        max={1}
+                                        step={0.1}
+                                        value={coachSettings.temperature}
+                                        onChange={(e) => controller.setCoachSettings({ ...coachSettings, temperature: Number(e.target.value) })}
+                                        className="flex-1 accent-emerald-500"
+                                    />
+                                </label>
+                            </>
+                        )}
+                    </div>
+                </div>
+
+                <div>
+                    <label className="text-xs text-gray-400 block mb-2">Evaluation</label>
+                    <div className="flex gap-4">
+                        {[
+                            { label: 'Eval bar', checked: showEvalBar, onChange: setShowEvalBar },
+                            { label: 'Graph', checked: showEvalGraph, onChange: setShowEvalGraph },
+                            { label: 'Arrows', checked: showEngineArrows, onChange: setShowEngineArrows },
+                        ].map(({ label, checked, onChange }) => (
+                            <label key={label} className="flex items-center gap-2 text-xs text-gray-300">
+                                <input
+                                    type="checkbox"
+                                    checked={checked}
+                                    onChange={(e) => onChange(e.target.checked)}
+                                    className="accent-emerald-500"
+                                />
+                                {label}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <label className="text-xs text-gray-400 block mb-2">
+                        Strength: {getStrengthLevel(level).name} ({getStrengthLevel(level).rating})
+                    </label>
+                    <div className="grid grid-cols-4 gap-2">
+                        {STRENGTH_LEVELS.map((strength) => (
                             <button
-                                key={d}
-                                onClick={() => setDifficulty(d)}
+                                key={strength.level}
+                                onClick={() => controller.setLevel(strength.level)}
+                                title={`${strength.name} (${strength.rating})`}
                                 className={`
-                                    py-2 px-3 text-xs font-medium rounded-lg transition-colors
-                                    ${difficulty === d 
-                                        ? 'bg-emerald-600 text-white shadow-lg' 
+                                    flex flex-col items-center py-1.5 text-xs font-medium rounded-lg transition-colors
+                                    ${level === strength.level
+                                        ? 'bg-emerald-600 text-white shadow-lg'
                                         : 'bg-gray-700 text-gray-400 hover:bg-gray-600'}
                                 `}
                             >
-                                {Difficulty[d]}
+                                <span>{strength.level}</span>
+                                <span className="opacity-60 text-[10px]">{strength.rating}</span>
                             </button>
                         ))}
                     </div>
                 </div>
 
+                <div>
+                    <label htmlFor="time-control" className="text-xs text-gray-400 block mb-2">Time Control</label>
+                    <select
+                        id="time-control"
+                        value={timeControlId}
+                        onChange={(e) => chooseTimeControl(e.target.value)}
+                        className="w-full bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1.5 border border-gray-600"
+                    >
+                        <option value="none">Untimed</option>
+                        {TIME_CONTROLS.map((control) => (
+                            <option key={control.id} value={control.id}>{control.name}</option>
+                        ))}
+                        <option value="custom">Custom</option>
+                    </select>
+                    {timeControlId === 'custom' && (
+                        <div className="grid grid-cols-3 gap-2 mt-2">
+                            {([
+                                { key: 'minutes', label: 'Minutes' },
+                                { key: 'increment', label: 'Increment (s)' },
+                                { key: 'delay', label: 'Delay (s)' },
+                            ] as const).map(({ key, label }) => (
+                                <label key={key} className="text-[10px] text-gray-400 flex flex-col gap-1">
+                                    {label}
+                                    <input
+                                        type="number"
+                                        min={key === 'minutes' ? 1 : 0}
+                                        value={customTime[key]}
+                                        onChange={(e) => chooseTimeControl('custom', { ...customTime, [key]: Math.max(0, Number(e.target.value) || 0) })}
+                                        className="bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1.5 border border-gray-600"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                    {(clock?.control.name ?? null) !== (timeControl?.name ?? null) && (
+                        <p className="text-[10px] text-gray-500 mt-1">Starts with the next game.</p>
+                    )}
+                </div>
+
                 <div className="flex gap-2 pt-2">
                     <button 
-                        onClick={resetGame}
+                        onClick={() => resetGame()}
                         className="flex-1 bg-red-500/10 hover:bg-red-500/20 text-red-400 border border-red-500/50 py-3 rounded-lg text-sm font-semibold transition-all hover:shadow-red-900/20"
                     >
                         Reset Game
@@ -258,14 +613,39 @@ const App: React.FC = () => {
                         onClick={handleHint}
                         className="flex-1 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-400 border border-indigo-500/50 py-3 rounded-lg text-sm font-semibold transition-all"
                     >
-                        Ask for Hint
+                        {hint?.nodeId === viewId && hint.level < HINT_LEVELS.length - 1
+                            ? (HINT_LEVELS[hint.level + 1] === 'piece' ? 'Which Piece?' : 'Show the Move')
+                            : 'Ask for Hint'}
+                    </button>
+                </div>
+
+                <div className="flex gap-2">
+                    <button
+                        onClick={exportPgn}
+                        className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-300 py-2 rounded-lg text-xs font-semibold transition-colors"
+                    >
+                        Export PGN
+                    </button>
+                    <button
+                        onClick={() => pgnInputRef.current?.click()}
+                        className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-300 py-2 rounded-lg text-xs font-semibold transition-colors"
+                    >
+                        Import PGN
                     </button>
+                    <input ref={pgnInputRef} type="file" accept=".pgn,text/plain" className="hidden" onChange={importPgn} />
                 </div>
 
+                <button
+                    onClick={() => setIsEditing(true)}
+                    className="w-full bg-gray-700 hover:bg-gray-600 text-gray-300 py-2 rounded-lg text-xs font-semibold transition-colors"
+                >
+                    Set Up Position
+                </button>
+
                  <div className="text-center mt-4 pt-4 border-t border-gray-700">
                     <p className="text-xs text-gray-500">
                         {gameStatus === 'Active' 
-                            ? `${game.turn() === 'w' ? 'White' : 'Black'}'s Turn` 
+                            ? `${viewBoard.turn() === 'w' ? 'White' : 'Black'}'s Turn` 
                             : gameStatus}
                     </p>
                 </div>
@@ -273,6 +653,15 @@ const App: React.FC = () => {
 
         </div>
       </div>
+
+      {isEditing && (
+        <PositionEditor
+            initialFen={viewBoard.fen()}
+            orientation={playerColor}
+            onPlay={playSetUpPosition}
+            onCancel={() => setIsEditing(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,136 +1,426 @@
-import React, { useState, useEffect } from 'react';
-import { Chess, Square, Move } from 'chess.js';
-import { PIECE_IMAGES } from '../constants';
-import { PieceColor, PieceType } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Chess, Square } from 'chess.js';
+import { PIECE_IMAGES, PIECE_NAMES, PROMOTION_PIECES } from '../constants';
+import { BoardAnnotation, PieceColor, PieceType } from '../types';
+import { isArrowKey, resolveTypedMove, squareAtPoint, squareLabel, stepSquare } from '../services/boardInput';
+import { ANNOTATION_COLORS, annotationColor, toggleAnnotation } from '../services/annotations';
+import EvalBar from './EvalBar';
 
 interface BoardProps {
   game: Chess;
-  onMove: (from: string, to: string) => void;
+  onMove: (from: string, to: string, promotion?: PieceType) => void;
   orientation: PieceColor;
   lastMove: { from: string; to: string } | null;
+  readOnly?: boolean; // Showing an earlier position: pieces can't be picked up
+  annotations?: BoardAnnotation[]; // Arrows and circles from the app, such as a hint or the better move in a review
+  drawings?: BoardAnnotation[]; // The player's own arrows and circles; kept by the board itself if left out
+  onDraw?: (drawings: BoardAnnotation[]) => void;
+  evaluation?: number | null; // White's evaluation for an eval bar beside the board (null while pending); no bar if left out
 }
 
-const Board: React.FC<BoardProps> = ({ game, onMove, orientation, lastMove }) => {
+// A piece being dragged: where it came from and where the pointer is, relative to the board
+interface Drag {
+  from: string;
+  x: number;
+  y: number;
+  moved: boolean; // Past the threshold that tells a drag from a click
+  over: string | null; // Square under the pointer
+  wasSelected: boolean; // Already selected when pressed, so a plain click puts it down again
+}
+
+// Pointer travel (px) before a press on a piece becomes a drag
+const DRAG_THRESHOLD = 5;
+
+const Board: React.FC<BoardProps> = ({ game, onMove, orientation, lastMove, readOnly = false, annotations = [], drawings, onDraw, evaluation }) => {
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [possibleMoves, setPossibleMoves] = useState<string[]>([]);
+  // A promoting move waiting for the player to pick the piece
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string } | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  // An arrow or circle being drawn with the right button
+  const [sketch, setSketch] = useState<BoardAnnotation | null>(null);
+  // Drawings on a board whose owner doesn't keep them, gone with the position
+  const [ownDrawings, setOwnDrawings] = useState<BoardAnnotation[]>([]);
+  // Keyboard cursor, shown while the board has focus
+  const [focusSquare, setFocusSquare] = useState(orientation === PieceColor.WHITE ? 'e2' : 'e7');
+  const [hasFocus, setHasFocus] = useState(false);
+  const [typedMove, setTypedMove] = useState('');
+  const [typedError, setTypedError] = useState<string | null>(null);
+  const boardRef = useRef<HTMLDivElement>(null);
+
+  // A selection made on another position means nothing on this one
+  useEffect(() => {
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    setPendingPromotion(null);
+    setDrag(null);
+  }, [game, readOnly]);
+
+  useEffect(() => {
+    setSketch(null);
+    setOwnDrawings([]);
+  }, [game]);
+
+  const shownDrawings = drawings ?? ownDrawings;
+  const draw = onDraw ?? setOwnDrawings;
 
   const board = game.board(); // 8x8 array
+  const history = game.history();
+  const lastSan = history[history.length - 1];
 
   // Helper to get square color
   const getSquareColor = (row: number, col: number) => {
     return (row + col) % 2 === 0 ? 'bg-board-light' : 'bg-board-dark';
   };
 
+  const clearSelection = () => {
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+  };
+
+  const select = (square: string) => {
+    setSelectedSquare(square);
+    setPossibleMoves(game.moves({ square: square as Square, verbose: true }).map((m) => m.to));
+  };
+
+  const isOwnPiece = (square: string) => {
+    const piece = game.get(square as Square);
+    return !!piece && piece.color === game.turn();
+  };
+
+  // Plays the move if it is legal, asking for the piece first when it promotes
+  const tryMove = (from: string, to: string) => {
+    const move = game.moves({ square: from as Square, verbose: true }).find((m) => m.to === to);
+    if (!move) return false;
+    if (move.promotion) setPendingPromotion({ from, to });
+    else onMove(from, to);
+    clearSelection();
+    return true;
+  };
+
   // Handle square click
   const handleSquareClick = (square: string) => {
+    if (readOnly) return;
+
     // If we have a selected square, try to move there
     if (selectedSquare) {
       // If clicking the same square, deselect
       if (square === selectedSquare) {
-        setSelectedSquare(null);
-        setPossibleMoves([]);
+        clearSelection();
         return;
       }
 
-      // Check if it's a valid move
-      const moves = game.moves({ square: selectedSquare as Square, verbose: true });
-      const move = moves.find((m) => m.to === square);
-
-      if (move) {
-        onMove(selectedSquare, square);
-        setSelectedSquare(null);
-        setPossibleMoves([]);
-      } else {
+      if (!tryMove(selectedSquare, square)) {
         // If invalid move, but clicked on own piece, select that instead
-        const piece = game.get(square as Square);
-        if (piece && piece.color === game.turn()) {
-          setSelectedSquare(square);
-          const newMoves = game.moves({ square: square as Square, verbose: true }).map(m => m.to);
-          setPossibleMoves(newMoves);
-        } else {
-          // Deselect
-          setSelectedSquare(null);
-          setPossibleMoves([]);
-        }
+        if (isOwnPiece(square)) select(square);
+        else clearSelection();
       }
-    } else {
+    } else if (isOwnPiece(square)) {
       // Select a piece
-      const piece = game.get(square as Square);
-      if (piece && piece.color === game.turn()) {
-        setSelectedSquare(square);
-        const moves = game.moves({ square: square as Square, verbose: true }).map(m => m.to);
-        setPossibleMoves(moves);
-      }
+      select(square);
+    }
+  };
+
+  // Pressing on one of your pieces picks it up; it follows the pointer until released. Any other
+  // press works as a click. The right button draws instead, on earlier positions too.
+  const handlePointerDown = (event: React.PointerEvent, square: string) => {
+    if (event.button === 2 && !drag && !pendingPromotion) {
+      boardRef.current!.setPointerCapture(event.pointerId);
+      setSketch({ from: square, to: square, color: annotationColor(event) });
+      return;
+    }
+    if (readOnly || event.button !== 0 || pendingPromotion) return;
+    if (!isOwnPiece(square)) {
+      handleSquareClick(square);
+      return;
+    }
+    const rect = boardRef.current!.getBoundingClientRect();
+    boardRef.current!.setPointerCapture(event.pointerId);
+    setDrag({
+      from: square,
+      x: event.clientX - rect.left,
+      y: event.clientY - rect.top,
+      moved: false,
+      over: square,
+      wasSelected: selectedSquare === square,
+    });
+    select(square);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const rect = boardRef.current!.getBoundingClientRect();
+    if (sketch) {
+      const over = squareAtPoint(rect, event.clientX, event.clientY, orientation);
+      if (over && over !== sketch.to) setSketch({ ...sketch, to: over });
+      return;
+    }
+    if (!drag) return;
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    const moved = drag.moved || Math.hypot(x - drag.x, y - drag.y) > DRAG_THRESHOLD;
+    setDrag({ ...drag, x, y, moved, over: squareAtPoint(rect, event.clientX, event.clientY, orientation) });
+  };
+
+  const handlePointerUp = () => {
+    if (sketch) {
+      setSketch(null);
+      draw(toggleAnnotation(shownDrawings, sketch));
+      return;
+    }
+    if (!drag) return;
+    setDrag(null);
+    if (drag.moved) {
+      // Dropped off a legal square: the piece goes back and stays selected
+      if (drag.over && drag.over !== drag.from) tryMove(drag.from, drag.over);
+    } else if (drag.wasSelected) {
+      clearSelection();
+    }
+  };
+
+  // Arrows move the cursor, Enter or Space acts as a click on it, Escape lets go of the piece
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      clearSelection();
+      setPendingPromotion(null);
+    } else if (event.target !== event.currentTarget) {
+      return; // Keys on the promotion chooser's buttons are theirs
+    } else if (isArrowKey(event.key)) {
+      setFocusSquare(stepSquare(focusSquare, event.key, orientation));
+    } else if (event.key === 'Enter' || event.key === ' ') {
+      handleSquareClick(focusSquare);
+    } else {
+      return;
     }
+    event.preventDefault();
+    event.stopPropagation(); // Not the move list's arrow keys
+  };
+
+  const submitTypedMove = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (readOnly || !typedMove.trim()) return;
+    const result = resolveTypedMove(game, typedMove.trim());
+    if ('error' in result) {
+      setTypedError(result.error);
+      return;
+    }
+    if ('promotion' in result) setPendingPromotion(result.promotion);
+    else onMove(result.move.from, result.move.to, result.move.promotion as PieceType | undefined);
+    clearSelection();
+    setTypedMove('');
+    setTypedError(null);
   };
 
   // Render the board depending on orientation
   const rows = orientation === PieceColor.WHITE ? [0, 1, 2, 3, 4, 5, 6, 7] : [7, 6, 5, 4, 3, 2, 1, 0];
   const cols = orientation === PieceColor.WHITE ? [0, 1, 2, 3, 4, 5, 6, 7] : [7, 6, 5, 4, 3, 2, 1, 0];
 
+  const choosePromotion = (piece: PieceType) => {
+    if (!pendingPromotion) return;
+    onMove(pendingPromotion.from, pendingPromotion.to, piece);
+    setPendingPromotion(null);
+  };
+
+  // The chooser covers the promotion square's file, stacked from the board edge toward the centre
+  const renderPromotionChooser = () => {
+    if (!pendingPromotion) return null;
+    const col = cols.indexOf(pendingPromotion.to.charCodeAt(0) - 97);
+    const fromTop = rows.indexOf(8 - Number(pendingPromotion.to[1])) === 0;
+    const color = game.turn();
+    return (
+      <div className="absolute inset-0 z-20 bg-black/40" onClick={() => setPendingPromotion(null)}>
+        <div
+          role="dialog"
+          aria-label="Choose a promotion piece"
+          className={`absolute flex w-[12.5%] h-1/2 bg-white shadow-xl rounded-sm ${fromTop ? 'top-0 flex-col' : 'bottom-0 flex-col-reverse'}`}
+          style={{ left: `${col * 12.5}%` }}
+        >
+          {PROMOTION_PIECES.map((piece, index) => (
+            <button
+              key={piece}
+              type="button"
+              autoFocus={index === 0}
+              aria-label={`Promote to ${PIECE_NAMES[piece]}`}
+              onClick={(e) => {
+                e.stopPropagation();
+                choosePromotion(piece);
+              }}
+              className="flex-1 flex items-center justify-center hover:bg-gray-200 focus:bg-gray-200 outline-none"
+            >
+              <img src={PIECE_IMAGES[`${color}${piece}`]} alt="" className="w-4/5 h-4/5" />
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  // Drawn in square units over the board: circles round a square, arrows from the centre of one
+  // square to the edge of the other. The app's come first, the player's on top.
+  const renderAnnotations = () => {
+    const shown = [...annotations, ...shownDrawings, ...(sketch ? [sketch] : [])];
+    if (shown.length === 0) return null;
+    const centre = (square: string) => ({
+      x: cols.indexOf(square.charCodeAt(0) - 97) + 0.5,
+      y: rows.indexOf(8 - Number(square[1])) + 0.5,
+    });
+    return (
+      <svg viewBox="0 0 8 8" aria-hidden="true" className="absolute inset-0 w-full h-full z-20 pointer-events-none">
+        {shown.map((annotation, index) => {
+          const from = centre(annotation.from);
+          const color = ANNOTATION_COLORS[annotation.color];
+          if (annotation.from === annotation.to) {
+            return <circle key={index} cx={from.x} cy={from.y} r={0.44} fill="none" stroke={color} strokeWidth={0.08} />;
+          }
+          const to = centre(annotation.to);
+          const length = Math.hypot(to.x - from.x, to.y - from.y);
+          const angle = (Math.atan2(to.y - from.y, to.x - from.x) * 180) / Math.PI;
+          return (
+            <g key={index} transform={`translate(${from.x} ${from.y}) rotate(${angle})`} fill={color}>
+              <rect x={0} y={-0.09} width={Math.max(length - 0.65, 0)} height={0.18} />
+              <polygon points={`${length - 0.2},0 ${length - 0.65},-0.3 ${length - 0.65},0.3`} />
+            </g>
+          );
+        })}
+      </svg>
+    );
+  };
+
+  const renderGhost = () => {
+    if (!drag?.moved) return null;
+    const piece = game.get(drag.from as Square);
+    if (!piece) return null;
+    return (
+      <img
+        src={PIECE_IMAGES[`${piece.color}${piece.type}`]}
+        alt=""
+        className="absolute z-30 w-[12.5%] h-[12.5%] -translate-x-1/2 -translate-y-1/2 pointer-events-none drop-shadow-xl"
+        style={{ left: drag.x, top: drag.y }}
+      />
+    );
+  };
+
   return (
-    <div className="select-none shadow-2xl rounded-sm overflow-hidden border-4 border-gray-700">
-      <div className="grid grid-cols-8 grid-rows-8 w-full max-w-[600px] aspect-square">
-        {rows.map((row) => (
-          cols.map((col) => {
-            const squareFile = String.fromCharCode(97 + col);
-            const squareRank = 8 - row;
-            const squareId = `${squareFile}${squareRank}`;
-            const piece = board[row][col];
-            
-            const isSelected = selectedSquare === squareId;
-            const isPossibleMove = possibleMoves.includes(squareId);
-            const isLastMove = lastMove && (lastMove.from === squareId || lastMove.to === squareId);
-            const isCapture = isPossibleMove && piece !== null;
-
-            return (
-              <div
-                key={squareId}
-                onClick={() => handleSquareClick(squareId)}
-                className={`
-                  relative flex items-center justify-center cursor-pointer
-                  ${getSquareColor(row, col)}
-                  ${isSelected ? 'ring-inset ring-4 ring-yellow-400' : ''}
-                `}
-              >
-                {/* Rank/File Indicators */}
-                {col === (orientation === 'w' ? 0 : 7) && (
-                  <span className={`absolute top-0.5 left-0.5 text-[10px] font-bold ${getSquareColor(row, col).includes('light') ? 'text-board-dark' : 'text-board-light'}`}>
-                    {squareRank}
-                  </span>
-                )}
-                {row === (orientation === 'w' ? 7 : 0) && (
-                  <span className={`absolute bottom-0 right-0.5 text-[10px] font-bold ${getSquareColor(row, col).includes('light') ? 'text-board-dark' : 'text-board-light'}`}>
-                    {squareFile}
-                  </span>
-                )}
-
-                {/* Last Move Highlight */}
-                {isLastMove && <div className="absolute inset-0 bg-yellow-200 opacity-40 mix-blend-multiply" />}
-
-                {/* Move Hints */}
-                {isPossibleMove && !isCapture && (
-                  <div className="absolute w-3 h-3 bg-black/20 rounded-full" />
-                )}
-                 {isCapture && (
-                  <div className="absolute w-full h-full border-4 border-black/20 rounded-full" />
-                )}
-
-                {/* Piece */}
-                {piece && (
-                  <img
-                    src={PIECE_IMAGES[`${piece.color}${piece.type}`]}
-                    alt={`${piece.color} ${piece.type}`}
-                    className="w-4/5 h-4/5 z-10 hover:scale-105 transition-transform"
-                  />
-                )}
+    <div className="w-full max-w-[600px] flex flex-col gap-2">
+      <div className="flex gap-2">
+        {evaluation !== undefined && <EvalBar cp={evaluation} orientation={orientation} />}
+        <div className="flex-1 select-none shadow-2xl rounded-sm overflow-hidden border-4 border-gray-700">
+          <div
+            ref={boardRef}
+            role="grid"
+            aria-label={`Chess board, ${orientation === PieceColor.WHITE ? 'White' : 'Black'} at the bottom`}
+            aria-activedescendant={`board-square-${focusSquare}`}
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setHasFocus(true)}
+            onBlur={() => setHasFocus(false)}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => {
+              setDrag(null);
+              setSketch(null);
+            }}
+            onContextMenu={(e) => e.preventDefault()}
+            className="relative grid grid-cols-8 grid-rows-8 w-full aspect-square touch-none outline-none"
+          >
+            {rows.map((row) => (
+              <div key={row} role="row" className="contents">
+                {cols.map((col) => {
+                  const squareFile = String.fromCharCode(97 + col);
+                  const squareRank = 8 - row;
+                  const squareId = `${squareFile}${squareRank}`;
+                  const piece = board[row][col];
+
+                  const isSelected = selectedSquare === squareId;
+                  const isPossibleMove = possibleMoves.includes(squareId);
+                  const isLastMove = lastMove && (lastMove.from === squareId || lastMove.to === squareId);
+                  const isCapture = isPossibleMove && piece !== null;
+                  const isFocused = hasFocus && focusSquare === squareId;
+                  const isDragged = drag?.moved && drag.from === squareId;
+
+                  return (
+                    <div
+                      key={squareId}
+                      id={`board-square-${squareId}`}
+                      role="gridcell"
+                      aria-label={squareLabel(squareId, piece, isPossibleMove)}
+                      aria-selected={isSelected}
+                      onPointerDown={(e) => handlePointerDown(e, squareId)}
+                      className={`
+                        relative flex items-center justify-center ${readOnly ? 'cursor-default' : piece ? 'cursor-grab' : 'cursor-pointer'}
+                        ${getSquareColor(row, col)}
+                        ${isSelected ? 'ring-inset ring-4 ring-yellow-400' : ''}
+                        ${isFocused ? 'outline outline-4 -outline-offset-4 outline-sky-400' : ''}
+                      `}
+                    >
+                      {/* Rank/File Indicators */}
+                      {col === (orientation === 'w' ? 0 : 7) && (
+                        <span aria-hidden="true" className={`absolute top-0.5 left-0.5 text-[10px] font-bold ${getSquareColor(row, col).includes('light') ? 'text-board-dark' : 'text-board-light'}`}>
+                          {squareRank}
+                        </span>
+                      )}
+                      {row === (orientation === 'w' ? 7 : 0) && (
+                        <span aria-hidden="true" className={`absolute bottom-0 right-0.5 text-[10px] font-bold ${getSquareColor(row, col).includes('light') ? 'text-board-dark' : 'text-board-light'}`}>
+                          {squareFile}
+                        </span>
+                      )}
+
+                      {/* Last Move Highlight */}
+                      {isLastMove && <div className="absolute inset-0 bg-yellow-200 opacity-40 mix-blend-multiply" />}
+
+                      {/* Drop target under a dragged piece */}
+                      {isPossibleMove && drag?.moved && drag.over === squareId && <div className="absolute inset-0 ring-inset ring-4 ring-white/70" />}
+
+                      {/* Move Hints */}
+                      {isPossibleMove && !isCapture && (
+                        <div className="absolute w-3 h-3 bg-black/20 rounded-full" />
+                      )}
+                       {isCapture && (
+                        <div className="absolute w-full h-full border-4 border-black/20 rounded-full" />
+                      )}
+
+                      {/* Piece */}
+                      {piece && (
+                        <img
+                          src={PIECE_IMAGES[`${piece.color}${piece.type}`]}
+                          alt=""
+                          draggable={false}
+                          className={`w-4/5 h-4/5 z-10 hover:scale-105 transition-transform ${isDragged ? 'opacity-30' : ''}`}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
               </div>
-            );
-          })
-        ))}
+            ))}
+            {renderAnnotations()}
+            {renderGhost()}
+            {renderPromotionChooser()}
+          </div>
+        </div>
       </div>
+
+      {/* Typed moves, for the keyboard and screen readers */}
+      <form onSubmit={submitTypedMove} className="flex gap-2 items-center">
+        <label htmlFor="board-move-input" className="text-xs text-gray-400 whitespace-nowrap">Type a move</label>
+        <input
+          id="board-move-input"
+          value={typedMove}
+          onChange={(e) => {
+            setTypedMove(e.target.value);
+            setTypedError(null);
+          }}
+          disabled={readOnly}
+          placeholder="e4, Nf3, e7e8q"
+          autoComplete="off"
+          spellCheck={false}
+          className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm text-white placeholder-gray-500 disabled:opacity-50"
+        />
+      </form>
+      <p aria-live="polite" className={typedError ? 'text-xs text-red-400' : 'sr-only'}>
+        {typedError ?? (lastSan ? `Last move ${lastSan}` : '')}
+      </p>
     </div>
   );
 };
 
-export default Board;
\ No newline at end of file
+export default Board;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { formatClock } from '../services/clock';
+
+interface ClockProps {
+  ms: number;
+  active: boolean; // This side's clock is running
+  flagged: boolean;
+}
+
+const Clock: React.FC<ClockProps> = ({ ms, active, flagged }) => {
+  return (
+    <div
+      role="timer"
+      className={`
+        font-mono text-lg font-bold px-3 py-1 rounded-lg min-w-[84px] text-center tabular-nums
+        ${flagged ? 'bg-red-600 text-white' : active ? `bg-gray-100 ${ms < 10000 ? 'text-red-600' : 'text-gray-900'}` : 'bg-gray-800 text-gray-400'}
+      `}
+    >
+      {formatClock(ms)}
+    </div>
+  );
+};
+
+export default Clock;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { PieceColor } from '../types';
+import { formatEval, mateDistance, winPercent } from '../services/review';
+
+interface EvalBarProps {
+  cp: number | null; // White's evaluation in centipawns; null while the engine works it out
+  orientation: PieceColor;
+}
+
+// White's share of the bar follows its winning chances, so a won position fills it without a
+// large score pushing everything off the end
+const EvalBar: React.FC<EvalBarProps> = ({ cp, orientation }) => {
+  const white = cp === null ? 50 : winPercent(cp);
+  const mate = cp === null ? null : mateDistance(cp);
+  const label = cp === null ? '' : mate !== null ? (mate === 0 ? '#' : `M${mate}`) : (Math.abs(Math.round(cp / 10)) / 10).toFixed(1);
+  // The number sits at the end of the side that is ahead
+  const whiteAhead = cp === null || cp >= 0;
+  const labelAtBottom = whiteAhead === (orientation === PieceColor.WHITE);
+
+  return (
+    <div
+      role="img"
+      aria-label={cp === null ? 'Evaluation pending' : `Evaluation ${formatEval(cp)}`}
+      className="relative w-6 shrink-0 rounded-sm overflow-hidden border-2 border-gray-700 bg-gray-900"
+    >
+      <div
+        className={`absolute inset-x-0 bg-gray-100 transition-all duration-500 ${orientation === PieceColor.WHITE ? 'bottom-0' : 'top-0'}`}
+        style={{ height: `${white}%` }}
+      />
+      <span
+        className={`absolute inset-x-0 text-center text-[9px] font-bold ${labelAtBottom ? 'bottom-1' : 'top-1'} ${whiteAhead ? 'text-gray-900' : 'text-gray-100'}`}
+      >
+        {label}
+      </span>
+    </div>
+  );
+};
+
+export default EvalBar;
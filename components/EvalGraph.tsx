@@ -0,0 +1,64 @@
+import React from 'react';
+import { GameTree } from '../types';
+import { getPath, lineEnd, moveNumberLabel } from '../services/gameTree';
+import { formatEval, winPercent } from '../services/review';
+
+interface EvalGraphProps {
+  tree: GameTree;
+  evaluations: Record<number, number>; // White's evaluation by node id, for the positions worked out so far
+  currentId: number;
+  onSelect: (nodeId: number) => void;
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+
+// White's winning chances along the line through the current position, White's side filled in
+// from below; a position is plotted once the engine has evaluated it
+const EvalGraph: React.FC<EvalGraphProps> = ({ tree, evaluations, currentId, onSelect }) => {
+  const nodes = [tree.nodes[tree.rootId], ...getPath(tree, lineEnd(tree, currentId))];
+  if (nodes.length < 2) return null;
+
+  const step = WIDTH / (nodes.length - 1);
+  const y = (cp: number) => HEIGHT - (winPercent(cp) / 100) * HEIGHT;
+  const points = nodes
+    .map((node, ply) => ({ node, x: ply * step, cp: evaluations[node.id] }))
+    .filter((point) => point.cp !== undefined);
+  const line = points.map((point) => `${point.x},${y(point.cp)}`).join(' ');
+  const current = points.find((point) => point.node.id === currentId);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-20 bg-gray-900 rounded-md" aria-label="Evaluation graph">
+      {points.length > 1 && (
+        <polygon
+          points={`${points[0].x},${HEIGHT} ${line} ${points[points.length - 1].x},${HEIGHT}`}
+          className="fill-gray-200/80"
+        />
+      )}
+      <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} className="stroke-gray-500" strokeDasharray="4 4" strokeWidth={0.5} />
+      {points.length > 1 && <polyline points={line} fill="none" className="stroke-emerald-400" strokeWidth={1.5} />}
+      {current && <circle cx={current.x} cy={y(current.cp)} r={3.5} className="fill-emerald-400 stroke-gray-900" />}
+      {/* A strip per position, so a click anywhere above a move jumps to it */}
+      {nodes.map((node, ply) => {
+        const cp = evaluations[node.id];
+        const label = node.parentId === null ? 'Start' : `${moveNumberLabel(node)} ${node.san}`;
+        return (
+          <rect
+            key={node.id}
+            x={ply * step - step / 2}
+            y={0}
+            width={step}
+            height={HEIGHT}
+            fill="transparent"
+            className="cursor-pointer hover:fill-white/10"
+            onClick={() => onSelect(node.id)}
+          >
+            <title>{cp === undefined ? label : `${label} ${formatEval(cp)}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default EvalGraph;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { GameReview, GameTree, MoveClassification, PieceColor, ReviewedMove } from '../types';
+import { moveNumberLabel } from '../services/gameTree';
+import { CLASSIFICATION_GLYPHS, CLASSIFICATION_LABELS, formatEval } from '../services/review';
+
+interface GameReviewPanelProps {
+  tree: GameTree;
+  review: GameReview | null;
+  progress: { done: number; total: number } | null; // While the engine works through the game
+  currentId: number;
+  onStart: () => void;
+  onCancel: () => void;
+  onSelect: (nodeId: number) => void;
+}
+
+const CLASSIFICATION_COLORS: Record<MoveClassification, string> = {
+  best: 'text-emerald-400',
+  good: 'text-gray-300',
+  inaccuracy: 'text-yellow-400',
+  mistake: 'text-orange-400',
+  blunder: 'text-red-400',
+};
+
+const percent = (value: number | null) => (value === null ? '-' : `${value}%`);
+
+const GameReviewPanel: React.FC<GameReviewPanelProps> = ({ tree, review, progress, currentId, onStart, onCancel, onSelect }) => {
+  const describe = (move: ReviewedMove) => `${moveNumberLabel(tree.nodes[move.nodeId])} ${move.san}${CLASSIFICATION_GLYPHS[move.classification]}`;
+  const current = review?.moves.find((move) => move.nodeId === currentId);
+  const count = (color: PieceColor, classification: MoveClassification) =>
+    review?.moves.filter((move) => move.color === color && move.classification === classification).length ?? 0;
+
+  return (
+    <div className="bg-gray-800 rounded-xl p-6 border border-gray-700 shadow-xl space-y-3">
+      <h3 className="text-white font-bold">Game Review</h3>
+
+      {progress && (
+        <div className="space-y-2">
+          <p aria-live="polite" className="text-xs text-gray-400">
+            Analysing the game: {progress.done} of {progress.total} positions...
+          </p>
+          <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-emerald-500 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+          </div>
+          <button
+            onClick={onCancel}
+            className="w-full bg-gray-700 hover:bg-gray-600 text-gray-300 py-2 rounded-lg text-xs font-semibold transition-colors"
+          >
+            Cancel Review
+          </button>
+        </div>
+      )}
+
+      {!progress && !review && (
+        <button
+          onClick={onStart}
+          className="w-full bg-emerald-600/20 hover:bg-emerald-600/30 text-emerald-400 border border-emerald-500/50 py-2 rounded-lg text-xs font-semibold transition-all"
+        >
+          Review Game
+        </button>
+      )}
+
+      {review && (
+        <>
+          <table className="w-full text-xs text-center">
+            <thead>
+              <tr className="text-gray-400">
+                <th />
+                <th className="font-medium">White</th>
+                <th className="font-medium">Black</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="text-white font-bold">
+                <td className="text-left text-gray-400 font-medium">Accuracy</td>
+                <td>{percent(review.accuracy.white)}</td>
+                <td>{percent(review.accuracy.black)}</td>
+              </tr>
+              {(Object.keys(CLASSIFICATION_LABELS) as MoveClassification[]).map((classification) => (
+                <tr key={classification}>
+                  <td className={`text-left ${CLASSIFICATION_COLORS[classification]}`}>{CLASSIFICATION_LABELS[classification]}</td>
+                  <td className="text-gray-300">{count(PieceColor.WHITE, classification)}</td>
+                  <td className="text-gray-300">{count(PieceColor.BLACK, classification)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* The move on the board, stepped to with the move list or the arrow keys */}
+          <p aria-live="polite" className="text-xs text-gray-300 min-h-[2rem]">
+            {current ? (
+              <>
+                <span className="font-semibold">{describe(current)}</span>{' '}
+                <span className={CLASSIFICATION_COLORS[current.classification]}>{CLASSIFICATION_LABELS[current.classification]}</span>{' '}
+                ({formatEval(current.before)} → {formatEval(current.after)})
+                {current.betterMove && <>. Better was <span className="text-emerald-400 font-semibold">{current.betterMove.san}</span>.</>}
+              </>
+            ) : (
+              'Step through the game to see how each move was judged.'
+            )}
+          </p>
+
+          <div>
+            <h4 className="text-xs text-gray-400 mb-1">Key Moments</h4>
+            {review.keyMoments.length === 0 && <p className="text-xs text-gray-500">No mistakes or blunders. Well played!</p>}
+            <ul className="space-y-1">
+              {review.keyMoments.map((index) => {
+                const move = review.moves[index];
+                return (
+                  <li key={move.nodeId}>
+                    <button
+                      onClick={() => onSelect(move.nodeId)}
+                      className={`w-full text-left text-xs px-2 py-1 rounded transition-colors ${move.nodeId === currentId ? 'bg-gray-600' : 'hover:bg-gray-700'}`}
+                    >
+                      <span className={CLASSIFICATION_COLORS[move.classification]}>{describe(move)}</span>
+                      <span className="text-gray-400">
+                        {' '}{formatEval(move.before)} → {formatEval(move.after)}
+                        {move.betterMove && `, better ${move.betterMove.san}`}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GameReviewPanel;
@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from 'react';
+import { GameTree } from '../types';
+import { listMoves } from '../services/gameTree';
+
+interface MoveListProps {
+  tree: GameTree;
+  currentId: number;
+  onSelect: (nodeId: number) => void;
+  glyphs?: Record<number, string>; // Assessments such as '?!' by node id, shown after the move
+}
+
+const MoveList: React.FC<MoveListProps> = ({ tree, currentId, onSelect, glyphs = {} }) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+  const entries = listMoves(tree);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentId]);
+
+  return (
+    <div className="max-h-48 overflow-y-auto text-sm leading-relaxed">
+      {entries.length === 0 && <span className="text-xs text-gray-500">No moves yet</span>}
+      {entries.map((entry, index) => {
+        if (entry.type !== 'move') {
+          return (
+            <span key={index} className="text-gray-500 text-xs">
+              {entry.type === 'variationStart' ? ' (' : ') '}
+            </span>
+          );
+        }
+
+        const { node, label, depth } = entry;
+        const isCurrent = node.id === currentId;
+        return (
+          <span key={index} className={depth > 0 ? 'text-xs' : ''}>
+            {label && <span className="text-gray-500 ml-1">{label}</span>}
+            <button
+              ref={isCurrent ? currentRef : undefined}
+              onClick={() => onSelect(node.id)}
+              className={`
+                px-1 rounded transition-colors
+                ${isCurrent
+                  ? 'bg-emerald-600 text-white'
+                  : depth > 0 ? 'text-gray-400 hover:bg-gray-700' : 'text-gray-200 hover:bg-gray-700'}
+              `}
+            >
+              {node.san}
+              {glyphs[node.id]}
+            </button>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MoveList;
@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { EditorPosition, PieceColor, PieceType } from '../types';
+import { PIECE_IMAGES, PIECE_NAMES } from '../constants';
+import {
+  CASTLING_OPTIONS,
+  parseFen,
+  toFen,
+  startPosition,
+  emptyPosition,
+  placePiece,
+  movePiece,
+  setTurn,
+  toggleCastling,
+  setEnPassant,
+  canCastle,
+  enPassantSquares,
+  validatePosition,
+} from '../services/positionEditor';
+import { squareLabel } from '../services/boardInput';
+
+interface PositionEditorProps {
+  initialFen: string;
+  orientation: PieceColor;
+  onPlay: (fen: string) => void;
+  onCancel: () => void;
+}
+
+const PALETTE_TYPES = [PieceType.KING, PieceType.QUEEN, PieceType.ROOK, PieceType.BISHOP, PieceType.KNIGHT, PieceType.PAWN];
+
+// What a click on the board does: put this piece down ('wn'), or erase
+type Tool = string | 'erase';
+
+const PositionEditor: React.FC<PositionEditorProps> = ({ initialFen, orientation: initialOrientation, onPlay, onCancel }) => {
+  const [position, setPosition] = useState<EditorPosition>(() => parseFen(initialFen));
+  const [orientation, setOrientation] = useState(initialOrientation);
+  const [tool, setTool] = useState<Tool>('wp');
+  // The FEN box keeps what was typed until it parses
+  const [fenText, setFenText] = useState(initialFen);
+  const [fenError, setFenError] = useState<string | null>(null);
+
+  const errors = validatePosition(position);
+  const fen = toFen(position);
+
+  const update = (next: EditorPosition) => {
+    setPosition(next);
+    setFenText(toFen(next));
+    setFenError(null);
+  };
+
+  const handleFenChange = (text: string) => {
+    setFenText(text);
+    try {
+      setPosition(parseFen(text));
+      setFenError(null);
+    } catch (error) {
+      setFenError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleSquareClick = (square: string) => {
+    if (tool === 'erase' || position.pieces[square] === tool) update(placePiece(position, square, null));
+    else update(placePiece(position, square, tool));
+  };
+
+  // Drags carry 'square:e4' from the board or 'piece:wn' from the palette
+  const handleDrop = (event: React.DragEvent, square: string) => {
+    event.preventDefault();
+    const [source, value] = event.dataTransfer.getData('text/plain').split(':');
+    if (source === 'square') update(movePiece(position, value, square));
+    else if (source === 'piece') update(placePiece(position, square, value));
+  };
+
+  // A board piece dropped anywhere but a square leaves the board
+  const handleDragEnd = (event: React.DragEvent, square: string) => {
+    if (event.dataTransfer.dropEffect === 'none') update(placePiece(position, square, null));
+  };
+
+  const rows = orientation === PieceColor.WHITE ? [0, 1, 2, 3, 4, 5, 6, 7] : [7, 6, 5, 4, 3, 2, 1, 0];
+  const cols = orientation === PieceColor.WHITE ? [0, 1, 2, 3, 4, 5, 6, 7] : [7, 6, 5, 4, 3, 2, 1, 0];
+
+  const renderPalette = (color: PieceColor) => (
+    <div className="flex gap-1 justify-center">
+      {PALETTE_TYPES.map((type) => {
+        const piece = `${color}${type}`;
+        return (
+          <button
+            key={piece}
+            type="button"
+            title={`Place ${color === PieceColor.WHITE ? 'white' : 'black'} ${PIECE_NAMES[type]}`}
+            aria-pressed={tool === piece}
+            onClick={() => setTool(piece)}
+            draggable
+            onDragStart={(e) => e.dataTransfer.setData('text/plain', `piece:${piece}`)}
+            className={`w-10 h-10 rounded-lg flex items-center justify-center transition-colors ${tool === piece ? 'bg-emerald-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            <img src={PIECE_IMAGES[piece]} alt="" className="w-4/5 h-4/5" />
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div
+      onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+      className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4 overflow-y-auto"
+    >
+      <div role="dialog" aria-label="Set up a position" className="bg-gray-800 rounded-xl border border-gray-700 shadow-2xl p-6 flex flex-col lg:flex-row gap-6 max-w-5xl w-full">
+        <div className="flex flex-col gap-3 items-center flex-1">
+          {renderPalette(orientation === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE)}
+          <div className="select-none shadow-2xl rounded-sm overflow-hidden border-4 border-gray-700 w-full max-w-[480px]">
+            <div className="grid grid-cols-8 grid-rows-8 w-full aspect-square">
+              {rows.map((row) =>
+                cols.map((col) => {
+                  const square = `${String.fromCharCode(97 + col)}${8 - row}`;
+                  const piece = position.pieces[square];
+                  return (
+                    <div
+                      key={square}
+                      aria-label={squareLabel(square, piece ? { color: piece[0], type: piece[1] } : null)}
+                      onClick={() => handleSquareClick(square)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => handleDrop(e, square)}
+                      className={`relative flex items-center justify-center cursor-pointer ${(row + col) % 2 === 0 ? 'bg-board-light' : 'bg-board-dark'}`}
+                    >
+                      {piece && (
+                        <img
+                          src={PIECE_IMAGES[piece]}
+                          alt=""
+                          draggable
+                          onDragStart={(e) => e.dataTransfer.setData('text/plain', `square:${square}`)}
+                          onDragEnd={(e) => handleDragEnd(e, square)}
+                          className="w-4/5 h-4/5 cursor-grab"
+                        />
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+          {renderPalette(orientation)}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              aria-pressed={tool === 'erase'}
+              onClick={() => setTool('erase')}
+              className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors ${tool === 'erase' ? 'bg-emerald-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              Erase
+            </button>
+            <button type="button" onClick={() => update(startPosition())} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600">
+              Start Position
+            </button>
+            <button type="button" onClick={() => update(emptyPosition())} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600">
+              Clear Board
+            </button>
+            <button
+              type="button"
+              onClick={() => setOrientation(orientation === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE)}
+              className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600"
+            >
+              Flip Board
+            </button>
+          </div>
+        </div>
+
+        <div className="w-full lg:w-72 flex flex-col gap-4">
+          <h3 className="text-white font-bold">Set Up Position</h3>
+
+          <div>
+            <label className="text-xs text-gray-400 block mb-2">Side to Move</label>
+            <div className="flex bg-gray-700 rounded-lg p-1 gap-1">
+              {[PieceColor.WHITE, PieceColor.BLACK].map((side) => (
+                <button
+                  key={side}
+                  type="button"
+                  onClick={() => update(setTurn(position, side))}
+                  className={`flex-1 py-2 text-xs font-medium rounded-md transition-all ${position.turn === side ? 'bg-gray-600 text-white shadow-sm' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {side === PieceColor.WHITE ? 'White' : 'Black'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="text-xs text-gray-400 block mb-2">Castling</label>
+            <div className="grid grid-cols-2 gap-1">
+              {CASTLING_OPTIONS.map(({ right, description }) => (
+                <label key={right} className={`flex items-center gap-2 text-xs ${canCastle(position, right) ? 'text-gray-300' : 'text-gray-500'}`}>
+                  <input
+                    type="checkbox"
+                    checked={position.castling.includes(right)}
+                    disabled={!canCastle(position, right) && !position.castling.includes(right)}
+                    onChange={() => update(toggleCastling(position, right))}
+                  />
+                  {description}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="editor-en-passant" className="text-xs text-gray-400 block mb-2">En Passant</label>
+            <select
+              id="editor-en-passant"
+              value={position.enPassant ?? ''}
+              onChange={(e) => update(setEnPassant(position, e.target.value || null))}
+              className="w-full bg-gray-700 text-gray-200 text-xs rounded-lg px-2 py-1.5 border border-gray-600"
+            >
+              <option value="">None</option>
+              {[...new Set([...enPassantSquares(position), ...(position.enPassant ? [position.enPassant] : [])])].map((square) => (
+                <option key={square} value={square}>{square}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="editor-fen" className="text-xs text-gray-400 block mb-2">FEN</label>
+            <textarea
+              id="editor-fen"
+              value={fenText}
+              onChange={(e) => handleFenChange(e.target.value)}
+              spellCheck={false}
+              rows={2}
+              className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs font-mono text-white resize-none"
+            />
+          </div>
+
+          <ul aria-live="polite" className="text-xs text-red-400 space-y-1 min-h-[1rem]">
+            {fenError ? <li>{fenError}</li> : errors.map((error) => <li key={error}>{error}</li>)}
+          </ul>
+
+          <div className="flex gap-2 mt-auto">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-300 py-2 rounded-lg text-xs font-semibold transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              disabled={errors.length > 0 || fenError !== null}
+              onClick={() => onPlay(fen)}
+              className="flex-1 bg-emerald-600/20 hover:bg-emerald-600/30 text-emerald-400 border border-emerald-500/50 py-2 rounded-lg text-xs font-semibold transition-all disabled:opacity-40"
+            >
+              Play vs Bot from Here
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PositionEditor;
@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Chess } from 'chess.js';
+import { CoachSettings, PieceColor, PieceType, Puzzle, PuzzleStats } from '../types';
+import Board from './Board';
+import { getCoachProvider } from '../services/coachProvider';
+import { requestPuzzleHint } from '../services/hints';
+import { isAbortError } from '../services/engineClient';
+import {
+  parsePuzzleSet,
+  loadBundledPuzzles,
+  checkPuzzleMove,
+  pickPuzzle,
+  puzzleScore,
+  recordPuzzleResult,
+  loadPuzzleStats,
+  startingPuzzleStats,
+  savePuzzleStats,
+  puzzleNudge,
+  moveToUci,
+  uciToMove,
+} from '../services/puzzles';
+
+// Pause before the opponent's reply, and between moves when the solution is shown
+const REPLY_DELAY = 500;
+// Puzzles left out of the draw for the next one
+const RECENT_LIMIT = 50;
+
+type PuzzleStatus = 'solving' | 'waiting' | 'solved' | 'revealed';
+
+interface PuzzleTrainerProps {
+  coachSettings: CoachSettings;
+}
+
+const PuzzleTrainer: React.FC<PuzzleTrainerProps> = ({ coachSettings }) => {
+  const [puzzles, setPuzzles] = useState<Puzzle[] | null>(null);
+  const [setName, setSetName] = useState('Bundled puzzles');
+  const [stats, setStats] = useState<PuzzleStats>(loadPuzzleStats);
+  const [ratingChange, setRatingChange] = useState<number | null>(null);
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const [board, setBoard] = useState(new Chess());
+  const [ply, setPly] = useState(0);
+  const [status, setStatus] = useState<PuzzleStatus>('solving');
+  // Whether this puzzle's result is in the record yet; a miss counts even if it is solved later
+  const [recorded, setRecorded] = useState(false);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [highlight, setHighlight] = useState<string | null>(null);
+  const [message, setMessage] = useState('Loading puzzles...');
+  const recentRef = useRef<string[]>([]);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Coach answers arriving after the puzzle has moved on are dropped
+  const puzzleIdRef = useRef<string | null>(null);
+
+  const stopTimer = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+  };
+
+  const startPuzzle = (next: Puzzle) => {
+    stopTimer();
+    const start = new Chess(next.fen);
+    puzzleIdRef.current = next.id;
+    recentRef.current = [next.id, ...recentRef.current].slice(0, RECENT_LIMIT);
+    setPuzzle(next);
+    setBoard(start);
+    setPly(0);
+    setStatus('solving');
+    setRecorded(false);
+    setHintsUsed(0);
+    setHighlight(null);
+    setRatingChange(null);
+    setMessage(`Find the best move for ${start.turn() === 'w' ? 'White' : 'Black'}.`);
+  };
+
+  const nextPuzzle = (set = puzzles, rating = stats.rating) => {
+    if (set && set.length > 0) startPuzzle(pickPuzzle(set, rating, recentRef.current));
+  };
+
+  // A new solver is rated at the middle of each set loaded, until their first result
+  const startSet = (set: Puzzle[]) => {
+    const started = startingPuzzleStats(stats, set);
+    setStats(started);
+    nextPuzzle(set, started.rating);
+  };
+
+  useEffect(() => {
+    loadBundledPuzzles()
+      .then((bundled) => {
+        setPuzzles(bundled);
+        startSet(bundled);
+      })
+      .catch((error) => setMessage(`Couldn't load the bundled puzzles: ${error instanceof Error ? error.message : String(error)}`));
+    return stopTimer;
+  }, []);
+
+  const record = (score: number) => {
+    if (!puzzle || recorded) return;
+    const next = recordPuzzleResult(stats, puzzle.rating, score);
+    setStats(next);
+    savePuzzleStats(next);
+    setRatingChange(next.rating - stats.rating);
+    setRecorded(true);
+  };
+
+  const play = (position: Chess, uci: string) => {
+    const next = new Chess(position.fen());
+    next.move(uciToMove(uci));
+    return next;
+  };
+
+  const handleMove = (from: string, to: string, promotion?: PieceType) => {
+    if (!puzzle || status !== 'solving') return;
+    const uci = moveToUci({ from, to, promotion });
+    const result = checkPuzzleMove(puzzle, ply, board, uci);
+    setHighlight(null);
+
+    if (result === 'wrong') {
+      record(0);
+      setMessage("That's not it. Try again, or show the solution.");
+      return;
+    }
+
+    const afterMove = play(board, uci);
+    setBoard(afterMove);
+    if (result === 'solved') {
+      record(puzzleScore(true, hintsUsed));
+      setStatus('solved');
+      setMessage(recorded ? 'Solved, but it counted as a miss.' : hintsUsed > 0 ? 'Solved, with a little help.' : 'Solved!');
+      return;
+    }
+
+    // The opponent's reply, then the solver's turn again
+    setStatus('waiting');
+    setMessage('Good move! Keep going.');
+    timerRef.current = setTimeout(() => {
+      setBoard(play(afterMove, puzzle.solution[ply + 1]));
+      setPly(ply + 2);
+      setStatus('solving');
+    }, REPLY_DELAY);
+  };
+
+  // First what to look for, then the piece to move; the coach adds a word when it can
+  const handleHint = async () => {
+    if (!puzzle || status !== 'solving' || hintsUsed >= 2) return;
+    const stage = hintsUsed + 1;
+    const nudge = puzzleNudge(puzzle, ply, board, stage);
+    setHintsUsed(stage);
+    setHighlight(nudge.square ?? null);
+    setMessage(nudge.text);
+
+    try {
+      const coach = await requestPuzzleHint(puzzle, ply, board, stage, getCoachProvider(coachSettings.provider), coachSettings);
+      if (puzzleIdRef.current === puzzle.id) setMessage(`${nudge.text} Coach: ${coach}`);
+    } catch (error) {
+      if (!isAbortError(error)) console.error('Coach error:', error);
+    }
+  };
+
+  // Plays out the rest of the solution, a move at a time
+  const showSolution = () => {
+    if (!puzzle || (status !== 'solving' && status !== 'waiting')) return;
+    stopTimer();
+    record(0);
+    setStatus('revealed');
+    setHighlight(null);
+    setMessage('Here is the solution.');
+
+    const step = (position: Chess, index: number) => {
+      if (index >= puzzle.solution.length) return;
+      timerRef.current = setTimeout(() => {
+        const next = play(position, puzzle.solution[index]);
+        setBoard(next);
+        step(next, index + 1);
+      }, REPLY_DELAY);
+    };
+    // Mid-reply, the board already shows the solver's move and the reply is still to come
+    step(board, status === 'waiting' ? ply + 1 : ply);
+  };
+
+  const loadPuzzleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const loaded = parsePuzzleSet(await file.text());
+      recentRef.current = [];
+      setPuzzles(loaded);
+      setSetName(`${file.name} (${loaded.length})`);
+      startSet(loaded);
+    } catch (error) {
+      setMessage(`Couldn't load that puzzle set: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const history = board.history({ verbose: true });
+  const last = history[history.length - 1];
+  const solverColor = puzzle ? (new Chess(puzzle.fen).turn() as PieceColor) : PieceColor.WHITE;
+  const finished = status === 'solved' || status === 'revealed';
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-8 w-full max-w-6xl items-start justify-center">
+      <div className="flex flex-col gap-4 items-center w-full lg:w-auto">
+        <div className="w-full max-w-[600px] flex justify-between items-end px-2">
+          <div className="font-semibold text-sm">{puzzle ? `Puzzle ${puzzle.id}` : 'Puzzles'}</div>
+          <div className="text-xs text-gray-400">{puzzle && finished ? `Rated ${puzzle.rating}` : ''}</div>
+        </div>
+        <Board
+          game={board}
+          onMove={handleMove}
+          orientation={solverColor}
+          lastMove={last ? { from: last.from, to: last.to } : null}
+          readOnly={status !== 'solving'}
+          annotations={highlight ? [{ from: highlight, to: highlight, color: 'B' }] : []}
+        />
+      </div>
+
+      <div className="w-full lg:w-80 flex flex-col gap-6">
+        <div className="bg-gray-800 rounded-xl p-6 border border-gray-700 shadow-xl">
+          <h3 className="text-emerald-400 font-bold mb-2">Puzzle Coach</h3>
+          <p aria-live="polite" className="text-gray-300 text-sm leading-relaxed min-h-[60px]">
+            {message}
+          </p>
+          {puzzle && finished && (
+            <p className="text-xs text-gray-500 mt-2">Themes: {puzzle.themes.join(', ') || 'none'}</p>
+          )}
+        </div>
+
+        <div className="bg-gray-800 rounded-xl p-6 border border-gray-700 shadow-xl space-y-4">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <div className="text-lg font-bold text-white">
+                {stats.rating}
+                {ratingChange !== null && (
+                  <span className={`text-xs ml-1 ${ratingChange >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {ratingChange >= 0 ? `+${ratingChange}` : ratingChange}
+                  </span>
+                )}
+              </div>
+              <div className="text-[10px] text-gray-400">Rating</div>
+            </div>
+            <div>
+              <div className="text-lg font-bold text-white">{stats.streak}</div>
+              <div className="text-[10px] text-gray-400">Streak (best {stats.bestStreak})</div>
+            </div>
+            <div>
+              <div className="text-lg font-bold text-white">{stats.solved}/{stats.solved + stats.failed}</div>
+              <div className="text-[10px] text-gray-400">Solved</div>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleHint}
+              disabled={status !== 'solving' || hintsUsed >= 2}
+              className="flex-1 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-400 border border-indigo-500/50 py-2 rounded-lg text-xs font-semibold transition-all disabled:opacity-40"
+            >
+              {hintsUsed === 0 ? 'Nudge' : 'Another Nudge'}
+            </button>
+            <button
+              onClick={showSolution}
+              disabled={!puzzle || finished}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-300 py-2 rounded-lg text-xs font-semibold transition-colors disabled:opacity-40"
+            >
+              Show Solution
+            </button>
+          </div>
+          <button
+            onClick={() => nextPuzzle()}
+            disabled={!puzzles}
+            className="w-full bg-emerald-600/20 hover:bg-emerald-600/30 text-emerald-400 border border-emerald-500/50 py-2 rounded-lg text-xs font-semibold transition-all disabled:opacity-40"
+          >
+            {finished ? 'Next Puzzle' : 'Skip Puzzle'}
+          </button>
+
+          <div className="pt-2 border-t border-gray-700 flex items-center justify-between gap-2">
+            <span className="text-xs text-gray-400 truncate">{setName}</span>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="bg-gray-700 hover:bg-gray-600 text-gray-300 px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors"
+            >
+              Load Puzzle Set
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,.csv,text/csv,application/json" className="hidden" onChange={loadPuzzleFile} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PuzzleTrainer;
@@ -17,3 +17,16 @@ export const PIECE_IMAGES: Record<string, string> = {
 };
 
 export const INITIAL_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+// Offered when a pawn promotes, in the order the chooser lists them
+export const PROMOTION_PIECES = [PieceType.QUEEN, PieceType.KNIGHT, PieceType.ROOK, PieceType.BISHOP];
+
+// Spoken names, for screen readers and status text
+export const PIECE_NAMES: Record<PieceType, string> = {
+  [PieceType.PAWN]: 'pawn',
+  [PieceType.KNIGHT]: 'knight',
+  [PieceType.BISHOP]: 'bishop',
+  [PieceType.ROOK]: 'rook',
+  [PieceType.QUEEN]: 'queen',
+  [PieceType.KING]: 'king',
+};
@@ -1,17 +1,85 @@
 import { Chess, Square } from 'chess.js';
-import { getBestMove } from './services/engine';
-import { getGameCommentary, getHint } from './services/geminiService';
-import { PIECE_IMAGES, INITIAL_FEN } from './constants';
-import { PieceColor, PieceType, Difficulty } from './types';
+import { isAbortError } from './services/engineClient';
+import { ENGINE_PROVIDERS, HINT_LIMITS, getEngineProvider, runWithFallback } from './services/engineProvider';
+import { COACH_PROVIDERS, getCoachProvider } from './services/coachProvider';
+import { GameEvent, capturedPieces, createGameController, gameOutcome } from './services/gameController';
+import { AnalysisEvent, createAnalysisController } from './services/analysisController';
+import { HINT_LEVELS, requestHint, requestPuzzleHint, revealHint } from './services/hints';
+import { parsePgn, downloadPgn } from './services/pgn';
+import { boardAt, lineEnd, takeBackTarget, openingAt, moveNumberLabel, getPath, fromPgn, listMoves } from './services/gameTree';
+import { formatOpening } from './services/openings';
+import { CLASSIFICATION_GLYPHS, CLASSIFICATION_LABELS, formatEval, mateDistance, winPercent } from './services/review';
+import { TIME_CONTROLS, customTimeControl, timeLeft, formatClock } from './services/clock';
+import { PIECE_IMAGES, PIECE_NAMES, PROMOTION_PIECES } from './constants';
+import { isArrowKey, resolveTypedMove, squareAtPoint, squareLabel, stepSquare } from './services/boardInput';
+import { ANNOTATION_COLORS, annotationColor, engineLineAnnotations, toggleAnnotation } from './services/annotations';
+import { STRENGTH_LEVELS, getStrengthLevel, formatStrengthLevel } from './services/strength';
+import { CASTLING_OPTIONS, parseFen, toFen, startPosition, emptyPosition, placePiece, movePiece, setTurn, toggleCastling, setEnPassant, canCastle, enPassantSquares, validatePosition } from './services/positionEditor';
+import { parsePuzzleSet, loadBundledPuzzles, checkPuzzleMove, pickPuzzle, puzzleScore, recordPuzzleResult, loadPuzzleStats, startingPuzzleStats, savePuzzleStats, puzzleNudge, moveToUci, uciToMove } from './services/puzzles';
+import { PieceColor, PieceType, EngineProviderId, EngineRole, CoachProviderId, EditorPosition, Puzzle, PuzzleStats, MoveClassification, ReviewedMove, StructuredHint, BoardAnnotation } from './types';
 
 // -- State --
-let game = new Chess(INITIAL_FEN);
 let boardOrientation: PieceColor = PieceColor.WHITE;
-let difficulty: Difficulty = Difficulty.MEDIUM;
 let selectedSquare: string | null = null;
 let possibleMoves: string[] = [];
-let lastMove: { from: string; to: string } | null = null;
-let isAiThinking = false;
+let pendingPromotion: { from: string; to: string } | null = null; // Waiting for the piece to be picked
+// A piece following the pointer; `moved` once it has travelled far enough to be a drag, not a click
+let drag: { from: string; moved: boolean; over: string | null; wasSelected: boolean; startX: number; startY: number } | null = null;
+let focusSquare = 'e2'; // Keyboard cursor, shown while the board has focus
+let boardHasFocus = false;
+let ghostEl: HTMLImageElement | null = null; // The dragged piece under the pointer
+let sketch: BoardAnnotation | null = null; // An arrow or circle being drawn with the right button
+
+// Pointer travel (px) before a press on a piece becomes a drag
+const DRAG_THRESHOLD = 5;
+// Pause before a puzzle opponent's reply, and between moves when the solution is shown
+const PUZZLE_REPLY_DELAY = 500;
+// Puzzles left out of the draw for the next one
+const RECENT_PUZZLE_LIMIT = 50;
+// The game against the bot runs in the controller; `session` is its state as of the latest event.
+// The board shows the view node, read-only unless it is the live one.
+const gameController = createGameController();
+let session = gameController.getState();
+let viewId = session.tree.rootId;
+// The analysis engine's evaluations and review, kept by node; `analysis` is its latest state
+const analysisController = createAnalysisController({ getEngineId: () => session.engineSettings.analysis });
+let analysis = analysisController.getState();
+// The position being set up while the editor is open (null when it is closed), and what a click on
+// its board does: put down a piece ('wn') or erase
+let editorPosition: EditorPosition | null = null;
+let editorTool = 'wp';
+let editorOrientation: PieceColor = PieceColor.WHITE;
+let editorFenError: string | null = null; // The FEN box keeps what was typed until it parses
+// In puzzle mode the board shows the puzzle; the game waits, bot and clock stopped, until play resumes
+let mode: 'play' | 'puzzles' = 'play';
+let puzzles: Puzzle[] | null = null;
+let puzzle: Puzzle | null = null;
+let puzzleBoard = new Chess();
+let puzzlePly = 0; // Index of the solution move the solver plays next
+let puzzleStatus: 'solving' | 'waiting' | 'solved' | 'revealed' = 'solving';
+let puzzleRecorded = false; // A miss counts even if the puzzle is solved later
+let puzzleHints = 0;
+let puzzleHighlight: string | null = null;
+let puzzleDrawings: { fen: string; drawings: BoardAnnotation[] } = { fen: '', drawings: [] }; // Gone with the position
+let puzzleStats: PuzzleStats = loadPuzzleStats();
+let puzzleRatingChange: number | null = null;
+let recentPuzzles: string[] = [];
+let puzzleTimer: ReturnType<typeof setTimeout> | null = null;
+// Whether the eval bar, graph and engine arrows show the analysis engine's findings
+let showEvalBar = true;
+let showEvalGraph = true;
+let showEngineArrows = false;
+
+// The hint for a position and how many of its levels have been shown; it stays with that position
+let coachHint: { nodeId: number; hint: StructuredHint; level: number } | null = null;
+
+const CLASSIFICATION_COLORS: Record<MoveClassification, string> = {
+    best: 'text-emerald-400',
+    good: 'text-gray-300',
+    inaccuracy: 'text-yellow-400',
+    mistake: 'text-orange-400',
+    blunder: 'text-red-400',
+};
 
 // -- DOM Elements --
 const boardEl = document.getElementById('chessboard')!;
@@ -21,51 +89,256 @@ const statusEl = document.getElementById('game-status')!;
 const capturedWhiteEl = document.getElementById('captured-white')!;
 const capturedBlackEl = document.getElementById('captured-black')!;
 const aiLevelDisplayEl = document.getElementById('ai-level-display')!;
+const moveListEl = document.getElementById('move-list')!;
+const openingNameEl = document.getElementById('opening-name')!;
+const takeBackBtn = document.getElementById('btn-take-back') as HTMLButtonElement;
+const playFromHereBtn = document.getElementById('btn-play-from-here')!;
+const moveInput = document.getElementById('move-input') as HTMLInputElement;
+const moveEntryStatusEl = document.getElementById('move-entry-status')!;
+const botClockEl = document.getElementById('clock-bot')!;
+const playerClockEl = document.getElementById('clock-player')!;
+const timeControlSelect = document.getElementById('time-control') as HTMLSelectElement;
+const customTimeEl = document.getElementById('custom-time')!;
+const timeControlNoteEl = document.getElementById('time-control-note')!;
+const positionEditorEl = document.getElementById('position-editor')!;
+const editorBoardEl = document.getElementById('editor-board')!;
+const editorFenInput = document.getElementById('editor-fen') as HTMLTextAreaElement;
+const editorEnPassantSelect = document.getElementById('editor-en-passant') as HTMLSelectElement;
+const editorErrorsEl = document.getElementById('editor-errors')!;
+const editorPlayBtn = document.getElementById('editor-play') as HTMLButtonElement;
+const reviewPanelEl = document.getElementById('review-panel')!;
+const reviewProgressEl = document.getElementById('review-progress')!;
+const reviewResultsEl = document.getElementById('review-results')!;
+const reviewBtn = document.getElementById('btn-review')!;
+const hintBtn = document.getElementById('btn-hint')!;
+const evalBarEl = document.getElementById('eval-bar')!;
+const evalGraphEl = document.getElementById('eval-graph')!;
+const puzzleMessageEl = document.getElementById('puzzle-message')!;
+const puzzleHintBtn = document.getElementById('btn-puzzle-hint') as HTMLButtonElement;
+const puzzleSolutionBtn = document.getElementById('btn-puzzle-solution') as HTMLButtonElement;
+const puzzleNextBtn = document.getElementById('btn-puzzle-next') as HTMLButtonElement;
 
 // -- Initialization --
 function init() {
+    gameController.subscribe(handleGameEvent);
+    analysisController.subscribe(handleAnalysisEvent);
     renderBoard();
     updateUI();
     setupControls();
+    setInterval(tickClock, 100);
 }
 
 function setupControls() {
-    // Difficulty Buttons
-    document.querySelectorAll('.difficulty-btn').forEach(btn => {
-        btn.addEventListener('click', (e) => {
-            const target = e.currentTarget as HTMLElement;
-            const level = parseInt(target.getAttribute('data-level') || '2');
-            setDifficulty(level);
+    // Strength Buttons
+    const levelControlsEl = document.getElementById('level-controls')!;
+    STRENGTH_LEVELS.forEach(strength => {
+        const btn = document.createElement('button');
+        btn.setAttribute('data-level', String(strength.level));
+        btn.title = `${strength.name} (${strength.rating})`;
+        btn.innerHTML = `<span>${strength.level}</span><span class="opacity-60 text-[10px]">${strength.rating}</span>`;
+        btn.addEventListener('click', () => setLevel(strength.level));
+        levelControlsEl.appendChild(btn);
+    });
+    setLevel(session.level);
+
+    // Engine Selection
+    document.querySelectorAll<HTMLSelectElement>('.engine-select').forEach(select => {
+        const role = select.getAttribute('data-engine-role') as EngineRole;
+        ENGINE_PROVIDERS.forEach(provider => select.add(new Option(provider.name, provider.id)));
+        select.value = session.engineSettings[role];
+        select.addEventListener('change', () => {
+            gameController.setEngineSettings({ ...session.engineSettings, [role]: select.value as EngineProviderId });
         });
     });
 
+    // Coach Selection
+    const coachSelect = document.getElementById('coach-provider') as HTMLSelectElement;
+    const coachModelInput = document.getElementById('coach-model') as HTMLInputElement;
+    const coachTemperatureInput = document.getElementById('coach-temperature') as HTMLInputElement;
+    COACH_PROVIDERS.forEach(provider => coachSelect.add(new Option(provider.name, provider.id)));
+    coachSelect.addEventListener('change', () => {
+        gameController.setCoachSettings({ ...session.coachSettings, provider: coachSelect.value as CoachProviderId, model: '' });
+        renderCoachSettings();
+    });
+    coachModelInput.addEventListener('input', () => {
+        gameController.setCoachSettings({ ...session.coachSettings, model: coachModelInput.value.trim() });
+    });
+    coachTemperatureInput.addEventListener('input', () => {
+        gameController.setCoachSettings({ ...session.coachSettings, temperature: Number(coachTemperatureInput.value) });
+        renderCoachSettings();
+    });
+    renderCoachSettings();
+
+    // Side Selection
+    document.getElementById('btn-play-white')?.addEventListener('click', () => setPlayerSide(PieceColor.WHITE));
+    document.getElementById('btn-play-black')?.addEventListener('click', () => setPlayerSide(PieceColor.BLACK));
+
     // Action Buttons
-    document.getElementById('btn-reset')?.addEventListener('click', resetGame);
-    document.getElementById('btn-hint')?.addEventListener('click', handleHint);
+    document.getElementById('btn-reset')?.addEventListener('click', () => resetGame());
+    hintBtn.addEventListener('click', handleHint);
+    reviewBtn.addEventListener('click', startReview);
+    document.getElementById('btn-review-cancel')?.addEventListener('click', () => analysisController.cancelReview());
+
+    // Evaluation
+    const evalBarToggle = document.getElementById('toggle-eval-bar') as HTMLInputElement;
+    const evalGraphToggle = document.getElementById('toggle-eval-graph') as HTMLInputElement;
+    evalBarToggle.addEventListener('change', () => {
+        showEvalBar = evalBarToggle.checked;
+        updateUI();
+    });
+    evalGraphToggle.addEventListener('change', () => {
+        showEvalGraph = evalGraphToggle.checked;
+        updateUI();
+    });
+    const engineArrowsToggle = document.getElementById('toggle-engine-arrows') as HTMLInputElement;
+    engineArrowsToggle.addEventListener('change', () => {
+        showEngineArrows = engineArrowsToggle.checked;
+        renderBoard();
+        updateUI();
+    });
+    evalGraphEl.addEventListener('click', (event) => {
+        const strip = (event.target as Element).closest('[data-node]');
+        if (strip) goTo(Number(strip.getAttribute('data-node')));
+    });
+
+    // Game Record
+    const pgnInput = document.getElementById('pgn-file-input') as HTMLInputElement;
+    document.getElementById('btn-export-pgn')?.addEventListener('click', exportPgn);
+    document.getElementById('btn-import-pgn')?.addEventListener('click', () => pgnInput.click());
+    pgnInput.addEventListener('change', () => {
+        const file = pgnInput.files?.[0];
+        pgnInput.value = '';
+        if (file) importPgn(file);
+    });
+
+    // Move Navigation
+    const navTargets = (): Record<string, number | null | undefined> => ({
+        first: session.tree.rootId,
+        prev: session.tree.nodes[viewId].parentId,
+        next: session.tree.nodes[viewId].children[0],
+        last: lineEnd(session.tree, viewId),
+    });
+    document.querySelectorAll<HTMLButtonElement>('[data-nav]').forEach(btn => {
+        btn.addEventListener('click', () => goTo(navTargets()[btn.getAttribute('data-nav')!]));
+    });
+    const navKeys: Record<string, string> = { ArrowLeft: 'prev', ArrowRight: 'next', Home: 'first', End: 'last' };
+    document.addEventListener('keydown', (event) => {
+        if (editorPosition || mode === 'puzzles' || event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+        if (!navKeys[event.key]) return;
+        event.preventDefault();
+        goTo(navTargets()[navKeys[event.key]]);
+    });
+    takeBackBtn.addEventListener('click', takeBack);
+    playFromHereBtn.addEventListener('click', playFromHere);
+
+    // Time Control
+    TIME_CONTROLS.forEach(control => timeControlSelect.add(new Option(control.name, control.id), timeControlSelect.options.length - 1));
+    timeControlSelect.addEventListener('change', chooseTimeControl);
+    customTimeEl.querySelectorAll('input').forEach(input => input.addEventListener('input', chooseTimeControl));
+
+    // Board Input
+    boardEl.addEventListener('pointermove', handlePointerMove);
+    boardEl.addEventListener('pointerup', handlePointerUp);
+    boardEl.addEventListener('pointercancel', () => {
+        drag = null;
+        sketch = null;
+        renderBoard();
+    });
+    boardEl.addEventListener('contextmenu', event => event.preventDefault());
+    boardEl.addEventListener('keydown', handleBoardKey);
+    boardEl.addEventListener('focus', () => {
+        boardHasFocus = true;
+        showFocusCursor();
+    });
+    boardEl.addEventListener('blur', () => {
+        boardHasFocus = false;
+        showFocusCursor();
+    });
+    document.getElementById('move-entry')!.addEventListener('submit', (event) => {
+        event.preventDefault();
+        submitTypedMove();
+    });
+    moveInput.addEventListener('input', announceLastMove);
+
+    // Position Editor
+    document.getElementById('btn-set-up-position')!.addEventListener('click', openPositionEditor);
+    document.getElementById('editor-erase')!.addEventListener('click', () => {
+        editorTool = 'erase';
+        renderPositionEditor();
+    });
+    document.getElementById('editor-start')!.addEventListener('click', () => updateEditor(startPosition()));
+    document.getElementById('editor-clear')!.addEventListener('click', () => updateEditor(emptyPosition()));
+    document.getElementById('editor-flip')!.addEventListener('click', () => {
+        editorOrientation = editorOrientation === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        renderPositionEditor();
+    });
+    document.querySelectorAll<HTMLButtonElement>('[data-editor-turn]').forEach(btn => {
+        btn.addEventListener('click', () => updateEditor(setTurn(editorPosition!, btn.getAttribute('data-editor-turn') as PieceColor)));
+    });
+    editorEnPassantSelect.addEventListener('change', () => updateEditor(setEnPassant(editorPosition!, editorEnPassantSelect.value || null)));
+    editorFenInput.addEventListener('input', handleEditorFenInput);
+    document.getElementById('editor-cancel')!.addEventListener('click', closePositionEditor);
+    editorPlayBtn.addEventListener('click', playSetUpPosition);
+    positionEditorEl.addEventListener('keydown', (event) => {
+        if (event.key === 'Escape') closePositionEditor();
+    });
+
+    // Puzzles
+    document.querySelectorAll<HTMLButtonElement>('[data-mode]').forEach(btn => {
+        btn.addEventListener('click', () => chooseMode(btn.getAttribute('data-mode') as 'play' | 'puzzles'));
+    });
+    renderModeButtons();
+    puzzleHintBtn.addEventListener('click', handlePuzzleHint);
+    puzzleSolutionBtn.addEventListener('click', showPuzzleSolution);
+    puzzleNextBtn.addEventListener('click', nextPuzzle);
+    const puzzleInput = document.getElementById('puzzle-file-input') as HTMLInputElement;
+    document.getElementById('btn-load-puzzles')!.addEventListener('click', () => puzzleInput.click());
+    puzzleInput.addEventListener('change', () => {
+        const file = puzzleInput.files?.[0];
+        puzzleInput.value = '';
+        if (file) loadPuzzleFile(file);
+    });
 }
 
-function setDifficulty(level: number) {
-    difficulty = level;
+function setPlayerSide(side: PieceColor) {
+    if (session.playerColor === side) return;
+    boardOrientation = side;
+    focusSquare = side === PieceColor.WHITE ? 'e2' : 'e7';
+
+    const activeClass = 'flex-1 py-2 text-xs font-medium rounded-md bg-gray-600 text-white shadow-sm transition-all';
+    const inactiveClass = 'flex-1 py-2 text-xs font-medium rounded-md text-gray-400 hover:text-white transition-all';
+    document.getElementById('btn-play-white')!.className = side === PieceColor.WHITE ? activeClass : inactiveClass;
+    document.getElementById('btn-play-black')!.className = side === PieceColor.BLACK ? activeClass : inactiveClass;
+
+    resetGame(undefined, side);
+}
+
+function setLevel(level: number) {
+    gameController.setLevel(level);
     // Update UI buttons
-    document.querySelectorAll('.difficulty-btn').forEach(btn => {
+    document.querySelectorAll('#level-controls button').forEach(btn => {
         const btnLevel = parseInt(btn.getAttribute('data-level') || '0');
         if (btnLevel === level) {
-            btn.className = 'difficulty-btn py-2 px-3 text-xs font-medium rounded-lg bg-emerald-600 text-white shadow-lg transition-colors';
+            btn.className = 'flex flex-col items-center py-1.5 text-xs font-medium rounded-lg bg-emerald-600 text-white shadow-lg transition-colors';
         } else {
-            btn.className = 'difficulty-btn py-2 px-3 text-xs font-medium rounded-lg bg-gray-700 text-gray-400 hover:bg-gray-600 transition-colors';
+            btn.className = 'flex flex-col items-center py-1.5 text-xs font-medium rounded-lg bg-gray-700 text-gray-400 hover:bg-gray-600 transition-colors';
         }
     });
-    
-    let levelName = 'Medium';
-    if(level === 1) levelName = 'Easy';
-    if(level === 3) levelName = 'Hard';
-    aiLevelDisplayEl.textContent = `Level: ${levelName}`;
+
+    const strength = getStrengthLevel(level);
+    document.getElementById('level-label')!.textContent = `${strength.name} (${strength.rating})`;
+    aiLevelDisplayEl.textContent = formatStrengthLevel(strength);
 }
 
 // -- Game Logic --
 
+function canMove() {
+    if (mode === 'puzzles') return puzzleStatus === 'solving';
+    return session.playerToMove && viewId === session.liveId;
+}
+
 function handleSquareClick(square: string) {
-    if (game.isGameOver() || isAiThinking) return;
+    if (!canMove()) return;
 
     // 1. If clicking the already selected square, deselect
     if (selectedSquare === square) {
@@ -75,131 +348,806 @@ function handleSquareClick(square: string) {
     }
 
     // 2. Check if clicked square is a valid move from current selection
-    const moveAttempt = game.moves({ verbose: true }).find(m => m.from === selectedSquare && m.to === square);
+    if (selectedSquare && tryMove(selectedSquare, square)) return;
 
-    if (moveAttempt) {
-        // EXECUTE MOVE
-        makeMove(selectedSquare!, square);
+    // 3. If not a move, check if it's selecting a new piece
+    const piece = viewBoard().get(square as Square);
+    if (piece && piece.color === viewBoard().turn()) {
+        selectSquare(square);
+    } else {
+        // Clicked empty square or opponent piece without valid move
         clearSelection();
+    }
+    renderBoard();
+}
+
+function selectSquare(square: string) {
+    selectedSquare = square;
+    possibleMoves = viewBoard().moves({ square: square as Square, verbose: true }).map(m => m.to);
+}
+
+// Plays the move if it is legal, asking which piece first when it promotes
+function tryMove(from: string, to: string) {
+    const moveAttempt = viewBoard().moves({ square: from as Square, verbose: true }).find(m => m.to === to);
+    if (!moveAttempt) return false;
+
+    clearSelection();
+    if (moveAttempt.promotion) {
+        pendingPromotion = { from, to };
+        renderBoard();
     } else {
-        // 3. If not a move, check if it's selecting a new piece
-        const piece = game.get(square as Square);
-        if (piece && piece.color === game.turn()) {
-            selectedSquare = square;
-            possibleMoves = game.moves({ square: square as Square, verbose: true }).map(m => m.to);
-            renderBoard();
-        } else {
-            // Clicked empty square or opponent piece without valid move
-            clearSelection();
+        makeMove(from, to);
+    }
+    return true;
+}
+
+// Pressing on one of your pieces picks it up to drag; any other press works as a click. The right
+// button draws instead, on earlier positions too.
+function handlePointerDown(event: PointerEvent, square: string) {
+    if (event.button === 2 && !drag && !pendingPromotion) {
+        boardEl.setPointerCapture(event.pointerId);
+        sketch = { from: square, to: square, color: annotationColor(event) };
+        renderBoard();
+        return;
+    }
+    if (event.button !== 0 || pendingPromotion || !canMove()) return;
+    const piece = viewBoard().get(square as Square);
+    if (!piece || piece.color !== viewBoard().turn()) {
+        handleSquareClick(square);
+        return;
+    }
+    boardEl.setPointerCapture(event.pointerId);
+    focusSquare = square;
+    drag = { from: square, moved: false, over: square, wasSelected: selectedSquare === square, startX: event.clientX, startY: event.clientY };
+    selectSquare(square);
+    renderBoard();
+}
+
+function handlePointerMove(event: PointerEvent) {
+    if (sketch) {
+        const over = squareAtPoint(boardEl.getBoundingClientRect(), event.clientX, event.clientY, boardOrientation);
+        if (over && over !== sketch.to) {
+            sketch = { ...sketch, to: over };
             renderBoard();
         }
+        return;
+    }
+    if (!drag) return;
+    const moved = drag.moved || Math.hypot(event.clientX - drag.startX, event.clientY - drag.startY) > DRAG_THRESHOLD;
+    const over = squareAtPoint(boardEl.getBoundingClientRect(), event.clientX, event.clientY, boardOrientation);
+    // Redraw only when the highlights change; otherwise just move the ghost piece
+    if (moved !== drag.moved || over !== drag.over) {
+        drag = { ...drag, moved, over };
+        renderBoard();
+    }
+    positionGhost(event.clientX, event.clientY);
+}
+
+function handlePointerUp() {
+    if (sketch) {
+        setBoardDrawings(toggleAnnotation(boardDrawings(), sketch));
+        sketch = null;
+        renderBoard();
+        return;
+    }
+    if (!drag) return;
+    const { from, moved, over, wasSelected } = drag;
+    drag = null;
+    // Dropped off a legal square: the piece goes back and stays selected
+    if (moved && over && over !== from && tryMove(from, over)) return;
+    if (!moved && wasSelected) clearSelection();
+    renderBoard();
+}
+
+// Arrows move the cursor, Enter or Space acts as a click on it, Escape lets go of the piece
+function handleBoardKey(event: KeyboardEvent) {
+    if (event.key === 'Escape') {
+        clearSelection();
+        renderBoard();
+        boardEl.focus();
+    } else if (event.target !== boardEl) {
+        return; // Keys on the promotion chooser's buttons are theirs
+    } else if (isArrowKey(event.key)) {
+        focusSquare = stepSquare(focusSquare, event.key, boardOrientation);
+        renderBoard();
+    } else if (event.key === 'Enter' || event.key === ' ') {
+        handleSquareClick(focusSquare);
+    } else {
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation(); // Not the move list's arrow keys
+}
+
+function submitTypedMove() {
+    const text = moveInput.value.trim();
+    if (!text || !canMove()) return;
+    const result = resolveTypedMove(viewBoard(), text);
+    if ('error' in result) {
+        moveEntryStatusEl.textContent = result.error;
+        moveEntryStatusEl.className = 'text-xs text-red-400';
+        return;
+    }
+    moveInput.value = '';
+    clearSelection();
+    if ('promotion' in result) {
+        pendingPromotion = result.promotion;
+        renderBoard();
+    } else {
+        makeMove(result.move.from, result.move.to, result.move.promotion as PieceType | undefined);
     }
 }
 
 function clearSelection() {
     selectedSquare = null;
     possibleMoves = [];
+    pendingPromotion = null;
 }
 
-async function makeMove(from: string, to: string) {
-    try {
-        const move = game.move({ from, to, promotion: 'q' });
-        if (!move) return;
+function makeMove(from: string, to: string, promotion?: PieceType) {
+    if (mode === 'puzzles') {
+        handlePuzzleMove(from, to, promotion);
+        return;
+    }
+    gameController.move(from, to, promotion);
+}
+
+// The page follows the game: the board moves on with it, and the coach's words and the bot's
+// thinking show as they come
+function handleGameEvent(event: GameEvent) {
+    session = gameController.getState();
+    if (event.type === 'progress') {
+        const { depth, nodes, bestMove } = event.progress;
+        thinkingEl.textContent = `Coach is thinking... depth ${depth} · ${nodes.toLocaleString()} nodes${bestMove ? ` · ${bestMove}` : ''}`;
+        return;
+    }
+    if (event.type === 'thinking') {
+        thinkingEl.textContent = 'Coach is thinking...';
+        thinkingEl.classList.toggle('hidden', !event.thinking);
+    } else if (event.type === 'move') {
+        viewId = event.nodeId;
+        clearSelection();
+    } else if (event.type === 'live') {
+        viewId = event.nodeId ?? lineEnd(session.tree, session.tree.rootId);
+        clearSelection();
+    } else if (event.type === 'commentary') {
+        commentaryEl.textContent = `"${event.text}"`;
+    } else if (event.type === 'notice') {
+        commentaryEl.textContent = event.text;
+    } else if (event.type === 'gameOver') {
+        commentaryEl.textContent = event.outcome.reason;
+        clearSelection();
+    }
+    renderBoard();
+    updateUI();
+}
 
-        lastMove = { from, to };
+// Each evaluation shows as it comes in, and the review's progress and verdict as they do
+function handleAnalysisEvent(event: AnalysisEvent) {
+    analysis = analysisController.getState();
+    if (event.type === 'evaluation') {
+        renderEvalBar();
+        renderEvalGraph();
+        if (showEngineArrows && event.nodeId === viewId) renderBoard();
+        return;
+    }
+    if (event.type === 'reviewProgress') {
+        renderReview();
+        return;
+    }
+    if (event.type === 'reviewDone') {
+        commentaryEl.textContent = event.review.keyMoments.length > 0
+            ? 'Review done. The key moments are listed under Game Review; step through them to see the better moves.'
+            : 'Review done. No mistakes or blunders in this one!';
+    } else if (event.type === 'reviewFailed') {
+        commentaryEl.textContent = `Couldn't review the game: ${event.message}`;
+    } else if (event.type === 'notice') {
+        commentaryEl.textContent = event.text;
+    }
+    renderBoard();
+    updateUI();
+}
+
+// The hint for the position on the board as far as it has been shown, if there is one
+function shownHint() {
+    return mode === 'play' && coachHint?.nodeId === viewId ? revealHint(coachHint.hint, HINT_LEVELS[coachHint.level]) : null;
+}
+
+// Each press gives away more of the hint for the position on the board, even when stepping
+// through earlier moves: the theme, then the piece, then the move
+async function handleHint() {
+    const board = viewBoard();
+    const nodeId = viewId;
+    if (board.isGameOver()) return;
+    if (coachHint?.nodeId === nodeId) {
+        coachHint = { ...coachHint, level: Math.min(coachHint.level + 1, HINT_LEVELS.length - 1) };
+        commentaryEl.textContent = `Coach Hint: "${shownHint()!.text}"`;
         renderBoard();
         updateUI();
-        
-        // Gemini Commentary
-        getGameCommentary(game.fen(), move.san, game.history()).then(text => {
-            commentaryEl.textContent = `"${text}"`;
+        return;
+    }
+    commentaryEl.textContent = "Coach is analyzing...";
+
+    try {
+        // The engine picks the move and the coach explains it
+        const { bestMove, pv } = await runWithFallback(
+            getEngineProvider(session.engineSettings.hint),
+            (engine) => engine.analyze(board.fen(), HINT_LIMITS)
+        );
+        if (!bestMove) return;
+        const hint = await requestHint(getCoachProvider(session.coachSettings.provider), session.coachSettings, {
+            kind: 'hint',
+            fen: board.fen(),
+            engineMove: bestMove,
+            line: pv,
         });
+        coachHint = { nodeId, hint, level: 0 };
+        commentaryEl.textContent = `Coach Hint: "${revealHint(hint, HINT_LEVELS[0]).text}"`;
+    } catch (e) {
+        if (isAbortError(e)) return; // A newer hint request, or a new game, took over
+        console.error("Engine error", e);
+        commentaryEl.textContent = `Couldn't find a hint: ${e instanceof Error ? e.message : String(e)}`;
+    }
+    renderBoard();
+    updateUI();
+}
 
-        // AI Response
-        if (!game.isGameOver()) {
-            isAiThinking = true;
-            thinkingEl.classList.remove('hidden');
-            
-            // Small delay for UX
-            setTimeout(() => {
-                makeAiMove();
-            }, 500);
-        }
+// Playing Black (or setting up a position with the bot to move) means the bot opens
+function resetGame(startFen?: string, side = session.playerColor) {
+    analysisController.clearReview();
+    gameController.newGame({ startFen, side });
+    commentaryEl.textContent = startFen
+        ? "Your position is set up. Let's see how you handle it!"
+        : "New game started. Show me what you've got!";
+}
+
+// -- Move Navigation --
+
+// The live game itself, or a replay of the moves up to an earlier position
+function viewBoard() {
+    if (mode === 'puzzles') return puzzleBoard;
+    return viewId === session.liveId ? session.game : boardAt(session.tree, viewId);
+}
+
+function goTo(nodeId: number | null | undefined) {
+    if (nodeId === null || nodeId === undefined) return;
+    viewId = nodeId;
+    clearSelection();
+    const comment = session.tree.nodes[nodeId].comment;
+    if (comment) commentaryEl.textContent = `"${comment}"`;
+    renderBoard();
+    updateUI();
+}
+
+function takeBack() {
+    if (!gameController.takeBack()) return;
+    commentaryEl.textContent = "Move taken back. Try something else!";
+}
+
+// The bot replies at once if it is its move there
+function playFromHere() {
+    if (viewId === session.liveId) return;
+    gameController.playFrom(viewId);
+    commentaryEl.textContent = "Play on from here. Show me what you've got!";
+}
+
+// -- Game Record --
+
+function exportPgn() {
+    downloadPgn(gameController.gameRecord());
+}
+
+// -- Game Review --
+
+// Runs the analysis engine over the game as played: the live line, or a loaded game's main line
+function startReview() {
+    analysisController.startReview(session.tree, session.liveId ?? lineEnd(session.tree, session.tree.rootId));
+}
+
+// -- Evaluation --
+
+// The analysis engine evaluates each position as it comes on the board, while anything shows it
+function requestEvaluation() {
+    if (mode === 'play' && (showEvalBar || showEvalGraph || showEngineArrows)) {
+        analysisController.evaluate(viewId, viewBoard().fen(), { withLine: showEngineArrows });
+    } else {
+        analysisController.cancelEvaluation();
+    }
+}
+
+// -- Clocks --
+
+// A new time control takes over at once if the game hasn't started, otherwise from the next game
+function chooseTimeControl() {
+    const value = (id: string) => Math.max(0, Number((document.getElementById(id) as HTMLInputElement).value) || 0);
+    customTimeEl.classList.toggle('hidden', timeControlSelect.value !== 'custom');
+    gameController.setTimeControl(timeControlSelect.value === 'custom'
+        ? customTimeControl(value('custom-minutes'), value('custom-increment'), value('custom-delay'))
+        : TIME_CONTROLS.find(control => control.id === timeControlSelect.value) ?? null);
+}
+
+// Redraws a running clock; the controller ends the game when it runs out
+function tickClock() {
+    if (!session.clock?.running) return;
+    gameController.tick();
+    renderClocks();
+}
+
+function renderClocks() {
+    renderClock(botClockEl, session.playerColor === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE);
+    renderClock(playerClockEl, session.playerColor);
+}
+
+function renderClock(el: HTMLElement, side: PieceColor) {
+    const { clock } = session;
+    if (!clock) {
+        el.className = 'hidden';
+        return;
+    }
+    const ms = timeLeft(clock, side);
+    let colors = 'bg-gray-800 text-gray-400';
+    if (clock.flagged === side) colors = 'bg-red-600 text-white';
+    else if (clock.running === side) colors = `bg-gray-100 ${ms < 10000 ? 'text-red-600' : 'text-gray-900'}`;
+    el.className = `font-mono text-lg font-bold px-3 py-1 rounded-lg min-w-[84px] text-center tabular-nums ${colors}`;
+    el.textContent = formatClock(ms);
+}
 
+async function importPgn(file: File) {
+    try {
+        const imported = fromPgn(parsePgn(await file.text()));
+        analysisController.clearReview();
+        gameController.loadGame(imported);
+        commentaryEl.textContent = `${imported.headers.White} vs ${imported.headers.Black}. Step through the moves, or pick one and play on from there.`;
     } catch (e) {
-        console.error("Move error", e);
+        commentaryEl.textContent = `Couldn't load that PGN: ${e instanceof Error ? e.message : String(e)}`;
     }
 }
 
-function makeAiMove() {
-    if (game.isGameOver()) return;
+// -- Position Editor --
+
+function openPositionEditor() {
+    const fen = viewBoard().fen();
+    editorPosition = parseFen(fen);
+    editorOrientation = boardOrientation;
+    editorFenError = null;
+    editorFenInput.value = fen;
+    positionEditorEl.classList.remove('hidden');
+    renderPositionEditor();
+}
+
+function closePositionEditor() {
+    editorPosition = null;
+    positionEditorEl.classList.add('hidden');
+}
 
-    const bestMoveSan = getBestMove(game, difficulty);
-    if (bestMoveSan) {
-        const move = game.move(bestMoveSan);
-        lastMove = { from: move.from, to: move.to };
-        
-        // Occasional AI commentary
-        if (Math.random() > 0.6) {
-             getGameCommentary(game.fen(), move.san, game.history()).then(text => {
-                commentaryEl.textContent = `"${text}"`;
+function updateEditor(next: EditorPosition) {
+    editorPosition = next;
+    editorFenError = null;
+    editorFenInput.value = toFen(next);
+    renderPositionEditor();
+}
+
+function handleEditorFenInput() {
+    try {
+        editorPosition = parseFen(editorFenInput.value);
+        editorFenError = null;
+    } catch (e) {
+        editorFenError = e instanceof Error ? e.message : String(e);
+    }
+    renderPositionEditor();
+}
+
+function handleEditorSquareClick(square: string) {
+    const position = editorPosition!;
+    const erase = editorTool === 'erase' || position.pieces[square] === editorTool;
+    updateEditor(placePiece(position, square, erase ? null : editorTool));
+}
+
+// Drags carry 'square:e4' from the board or 'piece:wn' from the palette
+function handleEditorDrop(event: DragEvent, square: string) {
+    event.preventDefault();
+    const [source, value] = (event.dataTransfer?.getData('text/plain') ?? '').split(':');
+    if (source === 'square') updateEditor(movePiece(editorPosition!, value, square));
+    else if (source === 'piece') updateEditor(placePiece(editorPosition!, square, value));
+}
+
+function playSetUpPosition() {
+    if (!editorPosition || editorFenError || validatePosition(editorPosition).length > 0) return;
+    const fen = toFen(editorPosition);
+    closePositionEditor();
+    resetGame(fen);
+}
+
+function renderPositionEditor() {
+    const position = editorPosition;
+    if (!position) return;
+    const toolClass = (active: boolean) => active ? 'bg-emerald-600' : 'bg-gray-700 hover:bg-gray-600';
+
+    // Palettes: the colour at the top of the board above it, the other below
+    const renderPalette = (el: HTMLElement, color: PieceColor) => {
+        el.innerHTML = '';
+        [PieceType.KING, PieceType.QUEEN, PieceType.ROOK, PieceType.BISHOP, PieceType.KNIGHT, PieceType.PAWN].forEach(type => {
+            const piece = `${color}${type}`;
+            const btn = document.createElement('button');
+            btn.type = 'button';
+            btn.title = `Place ${color === PieceColor.WHITE ? 'white' : 'black'} ${PIECE_NAMES[type]}`;
+            btn.setAttribute('aria-pressed', String(editorTool === piece));
+            btn.draggable = true;
+            btn.className = `w-10 h-10 rounded-lg flex items-center justify-center transition-colors ${toolClass(editorTool === piece)}`;
+            btn.innerHTML = `<img src="${PIECE_IMAGES[piece]}" alt="" class="w-4/5 h-4/5">`;
+            btn.addEventListener('click', () => {
+                editorTool = piece;
+                renderPositionEditor();
             });
+            btn.addEventListener('dragstart', (event) => event.dataTransfer?.setData('text/plain', `piece:${piece}`));
+            el.appendChild(btn);
+        });
+    };
+    const opposite = editorOrientation === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+    renderPalette(document.getElementById('editor-palette-top')!, opposite);
+    renderPalette(document.getElementById('editor-palette-bottom')!, editorOrientation);
+
+    const eraseBtn = document.getElementById('editor-erase')!;
+    eraseBtn.setAttribute('aria-pressed', String(editorTool === 'erase'));
+    eraseBtn.className = `px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors ${editorTool === 'erase' ? 'bg-emerald-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+    // Board
+    editorBoardEl.innerHTML = '';
+    const rows = editorOrientation === PieceColor.WHITE ? [0, 1, 2, 3, 4, 5, 6, 7] : [7, 6, 5, 4, 3, 2, 1, 0];
+    const cols = editorOrientation === PieceColor.WHITE ? [0, 1, 2, 3, 4, 5, 6, 7] : [7, 6, 5, 4, 3, 2, 1, 0];
+    rows.forEach(row => {
+        cols.forEach(col => {
+            const square = `${String.fromCharCode(97 + col)}${8 - row}`;
+            const piece = position.pieces[square];
+            const cell = document.createElement('div');
+            cell.setAttribute('aria-label', squareLabel(square, piece ? { color: piece[0], type: piece[1] } : null));
+            cell.className = `relative flex items-center justify-center cursor-pointer ${(row + col) % 2 === 0 ? 'bg-board-light' : 'bg-board-dark'}`;
+            cell.addEventListener('click', () => handleEditorSquareClick(square));
+            cell.addEventListener('dragover', (event) => event.preventDefault());
+            cell.addEventListener('drop', (event) => handleEditorDrop(event, square));
+            if (piece) {
+                const img = document.createElement('img');
+                img.src = PIECE_IMAGES[piece];
+                img.alt = '';
+                img.draggable = true;
+                img.className = 'w-4/5 h-4/5 cursor-grab';
+                img.addEventListener('dragstart', (event) => event.dataTransfer?.setData('text/plain', `square:${square}`));
+                // A board piece dropped anywhere but a square leaves the board
+                img.addEventListener('dragend', (event) => {
+                    if (event.dataTransfer?.dropEffect === 'none') updateEditor(placePiece(editorPosition!, square, null));
+                });
+                cell.appendChild(img);
+            }
+            editorBoardEl.appendChild(cell);
+        });
+    });
+
+    // Side to move, castling and en passant
+    document.querySelectorAll<HTMLButtonElement>('[data-editor-turn]').forEach(btn => {
+        btn.className = position.turn === btn.getAttribute('data-editor-turn')
+            ? 'flex-1 py-2 text-xs font-medium rounded-md transition-all bg-gray-600 text-white shadow-sm'
+            : 'flex-1 py-2 text-xs font-medium rounded-md transition-all text-gray-400 hover:text-white';
+    });
+
+    const castlingEl = document.getElementById('editor-castling')!;
+    castlingEl.innerHTML = '';
+    CASTLING_OPTIONS.forEach(({ right, description }) => {
+        const label = document.createElement('label');
+        label.className = `flex items-center gap-2 text-xs ${canCastle(position, right) ? 'text-gray-300' : 'text-gray-500'}`;
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = position.castling.includes(right);
+        checkbox.disabled = !canCastle(position, right) && !checkbox.checked;
+        checkbox.addEventListener('change', () => updateEditor(toggleCastling(editorPosition!, right)));
+        label.append(checkbox, description);
+        castlingEl.appendChild(label);
+    });
+
+    editorEnPassantSelect.innerHTML = '';
+    editorEnPassantSelect.add(new Option('None', ''));
+    new Set([...enPassantSquares(position), ...(position.enPassant ? [position.enPassant] : [])])
+        .forEach(square => editorEnPassantSelect.add(new Option(square, square)));
+    editorEnPassantSelect.value = position.enPassant ?? '';
+
+    // Whatever keeps the position from being played
+    const errors = editorFenError ? [editorFenError] : validatePosition(position);
+    editorErrorsEl.innerHTML = '';
+    errors.forEach(error => {
+        const item = document.createElement('li');
+        item.textContent = error;
+        editorErrorsEl.appendChild(item);
+    });
+    editorPlayBtn.disabled = errors.length > 0;
+}
+
+// -- Puzzles --
+
+// The game waits while puzzles are solved: the bot stops thinking and the clock stops, both
+// picking up again on the way back
+function chooseMode(next: 'play' | 'puzzles') {
+    if (next === mode) return;
+    mode = next;
+    clearSelection();
+    document.querySelectorAll('[data-play-only]').forEach(el => el.classList.toggle('hidden', mode !== 'play'));
+    document.querySelectorAll('[data-puzzle-only]').forEach(el => el.classList.toggle('hidden', mode !== 'puzzles'));
+    renderModeButtons();
+
+    if (mode === 'puzzles') {
+        gameController.pause();
+        if (!puzzles) {
+            loadBundledPuzzles()
+                .then(bundled => {
+                    puzzles = bundled;
+                    puzzleStats = startingPuzzleStats(puzzleStats, bundled);
+                    nextPuzzle();
+                })
+                .catch(e => {
+                    puzzleMessageEl.textContent = `Couldn't load the bundled puzzles: ${e instanceof Error ? e.message : String(e)}`;
+                });
+        } else if (puzzle) {
+            boardOrientation = new Chess(puzzle.fen).turn() as PieceColor;
         }
+    } else {
+        boardOrientation = session.playerColor;
+        gameController.resume();
     }
-    
-    isAiThinking = false;
-    thinkingEl.classList.add('hidden');
     renderBoard();
     updateUI();
+    renderPuzzle();
 }
 
-async function handleHint() {
-    if (game.isGameOver()) return;
-    commentaryEl.textContent = "Coach is analyzing...";
-    const hint = await getHint(game.fen(), game.turn());
-    commentaryEl.textContent = `Coach Hint: "${hint}"`;
+function renderModeButtons() {
+    document.querySelectorAll<HTMLButtonElement>('[data-mode]').forEach(btn => {
+        const active = btn.getAttribute('data-mode') === mode;
+        btn.setAttribute('aria-pressed', String(active));
+        btn.className = `px-4 py-1.5 text-xs font-medium rounded-md transition-all ${active ? 'bg-gray-600 text-white shadow-sm' : 'text-gray-400 hover:text-white'}`;
+    });
 }
 
-function resetGame() {
-    game = new Chess();
-    lastMove = null;
+function stopPuzzleTimer() {
+    if (puzzleTimer) clearTimeout(puzzleTimer);
+    puzzleTimer = null;
+}
+
+function startPuzzle(next: Puzzle) {
+    stopPuzzleTimer();
+    puzzle = next;
+    puzzleBoard = new Chess(next.fen);
+    puzzlePly = 0;
+    puzzleStatus = 'solving';
+    puzzleRecorded = false;
+    puzzleHints = 0;
+    puzzleHighlight = null;
+    puzzleRatingChange = null;
+    recentPuzzles = [next.id, ...recentPuzzles].slice(0, RECENT_PUZZLE_LIMIT);
+    boardOrientation = puzzleBoard.turn() as PieceColor;
+    puzzleMessageEl.textContent = `Find the best move for ${puzzleBoard.turn() === 'w' ? 'White' : 'Black'}.`;
     clearSelection();
-    commentaryEl.textContent = "New game started. Show me what you've got!";
     renderBoard();
     updateUI();
+    renderPuzzle();
+}
+
+function nextPuzzle() {
+    if (puzzles && puzzles.length > 0) startPuzzle(pickPuzzle(puzzles, puzzleStats.rating, recentPuzzles));
+}
+
+function recordPuzzle(score: number) {
+    if (!puzzle || puzzleRecorded) return;
+    const next = recordPuzzleResult(puzzleStats, puzzle.rating, score);
+    puzzleRatingChange = next.rating - puzzleStats.rating;
+    puzzleStats = next;
+    puzzleRecorded = true;
+    savePuzzleStats(next);
+}
+
+function playUci(position: Chess, uci: string) {
+    const next = new Chess(position.fen());
+    next.move(uciToMove(uci));
+    return next;
+}
+
+function handlePuzzleMove(from: string, to: string, promotion?: PieceType) {
+    if (!puzzle || puzzleStatus !== 'solving') return;
+    const current = puzzle;
+    const uci = moveToUci({ from, to, promotion });
+    const result = checkPuzzleMove(current, puzzlePly, puzzleBoard, uci);
+    puzzleHighlight = null;
+
+    if (result === 'wrong') {
+        recordPuzzle(0);
+        puzzleMessageEl.textContent = "That's not it. Try again, or show the solution.";
+    } else if (result === 'solved') {
+        const missed = puzzleRecorded;
+        recordPuzzle(puzzleScore(true, puzzleHints));
+        puzzleBoard = playUci(puzzleBoard, uci);
+        puzzleStatus = 'solved';
+        puzzleMessageEl.textContent = missed ? 'Solved, but it counted as a miss.' : puzzleHints > 0 ? 'Solved, with a little help.' : 'Solved!';
+    } else {
+        // The opponent's reply, then the solver's turn again
+        puzzleBoard = playUci(puzzleBoard, uci);
+        puzzleStatus = 'waiting';
+        puzzleMessageEl.textContent = 'Good move! Keep going.';
+        puzzleTimer = setTimeout(() => {
+            puzzleBoard = playUci(puzzleBoard, current.solution[puzzlePly + 1]);
+            puzzlePly += 2;
+            puzzleStatus = 'solving';
+            renderBoard();
+            updateUI();
+            renderPuzzle();
+        }, PUZZLE_REPLY_DELAY);
+    }
+    renderBoard();
+    updateUI();
+    renderPuzzle();
+}
+
+// First what to look for, then the piece to move; the coach adds a word when it can
+async function handlePuzzleHint() {
+    if (!puzzle || puzzleStatus !== 'solving' || puzzleHints >= 2) return;
+    const current = puzzle;
+    puzzleHints++;
+    const nudge = puzzleNudge(current, puzzlePly, puzzleBoard, puzzleHints);
+    puzzleHighlight = nudge.square ?? null;
+    puzzleMessageEl.textContent = nudge.text;
+    renderBoard();
+    renderPuzzle();
+
+    try {
+        const coach = await requestPuzzleHint(current, puzzlePly, puzzleBoard, puzzleHints, getCoachProvider(session.coachSettings.provider), session.coachSettings);
+        if (puzzle === current) puzzleMessageEl.textContent = `${nudge.text} Coach: ${coach}`;
+    } catch (e) {
+        if (!isAbortError(e)) console.error("Coach error", e);
+    }
+}
+
+// Plays out the rest of the solution, a move at a time
+function showPuzzleSolution() {
+    if (!puzzle || (puzzleStatus !== 'solving' && puzzleStatus !== 'waiting')) return;
+    const current = puzzle;
+    stopPuzzleTimer();
+    recordPuzzle(0);
+    // Mid-reply, the board already shows the solver's move and the reply is still to come
+    let index = puzzleStatus === 'waiting' ? puzzlePly + 1 : puzzlePly;
+    puzzleStatus = 'revealed';
+    puzzleHighlight = null;
+    puzzleMessageEl.textContent = 'Here is the solution.';
+
+    const step = () => {
+        if (index >= current.solution.length) return;
+        puzzleTimer = setTimeout(() => {
+            puzzleBoard = playUci(puzzleBoard, current.solution[index++]);
+            renderBoard();
+            updateUI();
+            step();
+        }, PUZZLE_REPLY_DELAY);
+    };
+    step();
+    renderBoard();
+    updateUI();
+    renderPuzzle();
+}
+
+async function loadPuzzleFile(file: File) {
+    try {
+        puzzles = parsePuzzleSet(await file.text());
+        recentPuzzles = [];
+        document.getElementById('puzzle-set-name')!.textContent = `${file.name} (${puzzles.length})`;
+        puzzleStats = startingPuzzleStats(puzzleStats, puzzles);
+        nextPuzzle();
+    } catch (e) {
+        puzzleMessageEl.textContent = `Couldn't load that puzzle set: ${e instanceof Error ? e.message : String(e)}`;
+    }
+}
+
+function renderPuzzle() {
+    const finished = puzzleStatus === 'solved' || puzzleStatus === 'revealed';
+    document.getElementById('puzzle-title')!.textContent = puzzle ? `Puzzle ${puzzle.id}` : 'Puzzles';
+    document.getElementById('puzzle-rating')!.textContent = puzzle && finished ? `Rated ${puzzle.rating}` : '';
+    const themesEl = document.getElementById('puzzle-themes')!;
+    themesEl.textContent = puzzle ? `Themes: ${puzzle.themes.join(', ') || 'none'}` : '';
+    themesEl.classList.toggle('hidden', !finished);
+
+    document.getElementById('puzzle-stat-rating')!.textContent = String(puzzleStats.rating);
+    const changeEl = document.getElementById('puzzle-rating-change')!;
+    changeEl.textContent = puzzleRatingChange === null ? '' : puzzleRatingChange >= 0 ? `+${puzzleRatingChange}` : String(puzzleRatingChange);
+    changeEl.className = `text-xs ml-1 ${(puzzleRatingChange ?? 0) >= 0 ? 'text-emerald-400' : 'text-red-400'}`;
+    document.getElementById('puzzle-stat-streak')!.textContent = String(puzzleStats.streak);
+    document.getElementById('puzzle-stat-best')!.textContent = `Streak (best ${puzzleStats.bestStreak})`;
+    document.getElementById('puzzle-stat-solved')!.textContent = `${puzzleStats.solved}/${puzzleStats.solved + puzzleStats.failed}`;
+
+    puzzleHintBtn.disabled = puzzleStatus !== 'solving' || puzzleHints >= 2;
+    puzzleHintBtn.textContent = puzzleHints === 0 ? 'Nudge' : 'Another Nudge';
+    puzzleSolutionBtn.disabled = !puzzle || finished;
+    puzzleNextBtn.disabled = !puzzles;
+    puzzleNextBtn.textContent = finished ? 'Next Puzzle' : 'Skip Puzzle';
 }
 
 function updateUI() {
     // 1. Status
-    if (game.isCheckmate()) {
-        statusEl.textContent = `Checkmate! ${game.turn() === 'w' ? 'Black' : 'White'} wins.`;
-        statusEl.className = "text-xs text-red-400 font-bold";
-    } else if (game.isDraw()) {
-        statusEl.textContent = 'Draw!';
-        statusEl.className = "text-xs text-yellow-400 font-bold";
-    } else if (game.inCheck()) {
+    // A flag only counts on the live board; earlier positions show how they stood
+    const board = viewBoard();
+    const outcome = gameOutcome(board, mode === 'play' && viewId === session.liveId ? session.clock?.flagged ?? null : null);
+    if (outcome) {
+        statusEl.textContent = outcome.reason;
+        statusEl.className = outcome.result === '1/2-1/2' ? "text-xs text-yellow-400 font-bold" : "text-xs text-red-400 font-bold";
+    } else if (board.inCheck()) {
         statusEl.textContent = 'Check!';
         statusEl.className = "text-xs text-red-400 font-bold animate-pulse";
     } else {
-        statusEl.textContent = `${game.turn() === 'w' ? 'White' : 'Black'}'s Turn`;
+        statusEl.textContent = `${board.turn() === 'w' ? 'White' : 'Black'}'s Turn`;
         statusEl.className = "text-xs text-gray-400";
     }
 
     // 2. Captured Pieces
     renderCapturedPieces();
+
+    // 3. Move List
+    const opening = openingAt(session.tree, viewId);
+    openingNameEl.textContent = opening ? formatOpening(opening) : '';
+    renderMoveList();
+    takeBackBtn.disabled = session.liveId === null || takeBackTarget(session.tree, session.liveId, session.playerColor) === null;
+    playFromHereBtn.classList.toggle('hidden', viewId === session.liveId);
+
+    // 4. Clocks
+    renderClocks();
+    timeControlNoteEl.classList.toggle('hidden', (session.clock?.control.name ?? null) === (session.timeControl?.name ?? null));
+
+    // 5. Game Review
+    renderReview();
+
+    // 6. Evaluation
+    requestEvaluation();
+    renderEvalBar();
+    renderEvalGraph();
+
+    // 7. Hint
+    hintBtn.textContent = coachHint?.nodeId === viewId && coachHint.level < HINT_LEVELS.length - 1
+        ? (HINT_LEVELS[coachHint.level + 1] === 'piece' ? 'Which Piece?' : 'Show the Move')
+        : 'Hint';
+
+    // 8. Move Entry
+    moveInput.disabled = mode === 'puzzles' ? puzzleStatus !== 'solving' : viewId !== session.liveId;
+    announceLastMove();
 }
 
 // -- Rendering --
 
+// The chosen coach, with its model and temperature when it has them
+function renderCoachSettings() {
+    const { coachSettings } = session;
+    const provider = getCoachProvider(coachSettings.provider);
+    (document.getElementById('coach-provider') as HTMLSelectElement).value = provider.id;
+    document.getElementById('coach-model-settings')!.classList.toggle('hidden', !provider.defaultModel);
+    const modelInput = document.getElementById('coach-model') as HTMLInputElement;
+    modelInput.value = coachSettings.model;
+    modelInput.placeholder = provider.defaultModel;
+    (document.getElementById('coach-temperature') as HTMLInputElement).value = String(coachSettings.temperature);
+    document.getElementById('coach-temperature-value')!.textContent = coachSettings.temperature.toFixed(1);
+}
+
 function renderBoard() {
     boardEl.innerHTML = ''; // Clear board
-    const boardState = game.board();
+    const boardState = viewBoard().board();
+    const viewNode = session.tree.nodes[viewId];
+    const lastMove = mode === 'puzzles'
+        ? puzzleBoard.history({ verbose: true }).slice(-1).map(({ from, to }) => ({ from, to }))[0] ?? null
+        : viewNode.parentId !== null ? { from: viewNode.from, to: viewNode.to } : null;
+    const readOnly = mode === 'puzzles' ? puzzleStatus !== 'solving' : viewId !== session.liveId;
+    boardEl.setAttribute('aria-label', `Chess board, ${boardOrientation === PieceColor.WHITE ? 'White' : 'Black'} at the bottom`);
+    boardEl.setAttribute('aria-activedescendant', `board-square-${focusSquare}`);
 
     // Determine loop order based on orientation
     const rows = boardOrientation === PieceColor.WHITE ? [0, 1, 2, 3, 4, 5, 6, 7] : [7, 6, 5, 4, 3, 2, 1, 0];
     const cols = boardOrientation === PieceColor.WHITE ? [0, 1, 2, 3, 4, 5, 6, 7] : [7, 6, 5, 4, 3, 2, 1, 0];
 
     rows.forEach(row => {
+        // Rows only exist for screen readers; the squares sit in the board's own grid
+        const rowEl = document.createElement('div');
+        rowEl.setAttribute('role', 'row');
+        rowEl.className = 'contents';
+        boardEl.appendChild(rowEl);
+
         cols.forEach(col => {
             const squareFile = String.fromCharCode(97 + col); // 'a' through 'h'
             const squareRank = 8 - row; // 8 through 1
@@ -226,20 +1174,34 @@ function renderBoard() {
                 // For vanilla, let's append a highlight div
             }
 
+            // Earlier positions are for looking only
+            if (readOnly) classes.push('cursor-default');
+            else if (piece) classes.push('cursor-grab');
+
+            if (boardHasFocus && focusSquare === squareId) {
+                classes.push('outline', 'outline-4', '-outline-offset-4', 'outline-sky-400');
+            }
+
             cell.className = classes.join(' ');
-            cell.onclick = () => handleSquareClick(squareId);
+            cell.id = `board-square-${squareId}`;
+            cell.setAttribute('role', 'gridcell');
+            cell.setAttribute('aria-label', squareLabel(squareId, piece, possibleMoves.includes(squareId)));
+            cell.setAttribute('aria-selected', String(selectedSquare === squareId));
+            cell.onpointerdown = (event) => handlePointerDown(event, squareId);
 
             // -- Inner Elements --
 
             // 1. Rank/File Labels (Coordinates)
             if (col === (boardOrientation === 'w' ? 0 : 7)) {
                 const rankLabel = document.createElement('span');
+                rankLabel.setAttribute('aria-hidden', 'true');
                 rankLabel.className = `absolute top-0.5 left-0.5 text-[10px] font-bold ${!isDark ? 'text-board-dark' : 'text-board-light'}`;
                 rankLabel.innerText = squareRank.toString();
                 cell.appendChild(rankLabel);
             }
             if (row === (boardOrientation === 'w' ? 7 : 0)) {
                 const fileLabel = document.createElement('span');
+                fileLabel.setAttribute('aria-hidden', 'true');
                 fileLabel.className = `absolute bottom-0 right-0.5 text-[10px] font-bold ${!isDark ? 'text-board-dark' : 'text-board-light'}`;
                 fileLabel.innerText = squareFile;
                 cell.appendChild(fileLabel);
@@ -259,57 +1221,107 @@ function renderBoard() {
                 hint.className = piece ? 'capture-hint' : 'move-hint';
                 cell.appendChild(hint);
             }
+            if (isPossible && drag?.moved && drag.over === squareId) {
+                const target = document.createElement('div');
+                target.className = 'absolute inset-0 ring-inset ring-4 ring-white/70 pointer-events-none';
+                cell.appendChild(target);
+            }
 
             // 4. Piece
             if (piece) {
                 const img = document.createElement('img');
                 img.src = PIECE_IMAGES[`${piece.color}${piece.type}`];
-                img.className = 'piece';
+                img.alt = '';
+                img.draggable = false;
+                img.className = drag?.moved && drag.from === squareId ? 'piece opacity-30' : 'piece';
                 cell.appendChild(img);
             }
 
-            boardEl.appendChild(cell);
+            rowEl.appendChild(cell);
         });
     });
+
+    // 5. Arrows and circles: the app's, then the player's own on top
+    const annotations = [...boardAnnotations(), ...boardDrawings(), ...(sketch ? [sketch] : [])];
+    if (annotations.length > 0) renderAnnotations(annotations, rows, cols);
+
+    ghostEl = null;
+    const dragged = drag?.moved ? viewBoard().get(drag.from as Square) : null;
+    if (dragged) {
+        ghostEl = document.createElement('img');
+        ghostEl.src = PIECE_IMAGES[`${dragged.color}${dragged.type}`];
+        ghostEl.alt = '';
+        ghostEl.className = 'absolute z-30 w-[12.5%] h-[12.5%] -translate-x-1/2 -translate-y-1/2 pointer-events-none drop-shadow-xl';
+        boardEl.appendChild(ghostEl);
+    }
+
+    if (pendingPromotion) renderPromotionChooser(pendingPromotion, rows, cols);
 }
 
-function renderCapturedPieces() {
-    // Logic: Compare current board counts vs initial counts
-    const boardState = game.board();
-    const currentCounts: Record<string, number> = {};
-    
-    boardState.flat().forEach(p => {
-        if(p) {
-            const key = `${p.color}${p.type}`;
-            currentCounts[key] = (currentCounts[key] || 0) + 1;
-        }
-    });
+function positionGhost(clientX: number, clientY: number) {
+    if (!ghostEl) return;
+    const rect = boardEl.getBoundingClientRect();
+    ghostEl.style.left = `${clientX - rect.left}px`;
+    ghostEl.style.top = `${clientY - rect.top}px`;
+}
 
-    const initialCounts: Record<string, number> = {
-        [`${PieceColor.WHITE}${PieceType.PAWN}`]: 8, [`${PieceColor.WHITE}${PieceType.ROOK}`]: 2, [`${PieceColor.WHITE}${PieceType.KNIGHT}`]: 2, [`${PieceColor.WHITE}${PieceType.BISHOP}`]: 2, [`${PieceColor.WHITE}${PieceType.QUEEN}`]: 1,
-        [`${PieceColor.BLACK}${PieceType.PAWN}`]: 8, [`${PieceColor.BLACK}${PieceType.ROOK}`]: 2, [`${PieceColor.BLACK}${PieceType.KNIGHT}`]: 2, [`${PieceColor.BLACK}${PieceType.BISHOP}`]: 2, [`${PieceColor.BLACK}${PieceType.QUEEN}`]: 1
+// Focus comes and goes without a redraw, which would take the promotion chooser's focus with it
+function showFocusCursor() {
+    const classes = ['outline', 'outline-4', '-outline-offset-4', 'outline-sky-400'];
+    boardEl.querySelectorAll('[role="gridcell"]').forEach(cell => cell.classList.remove(...classes));
+    if (boardHasFocus) document.getElementById(`board-square-${focusSquare}`)?.classList.add(...classes);
+}
+
+// The live region under the board: a typed move's error, or else the last move for screen readers
+function announceLastMove() {
+    const history = viewBoard().history();
+    moveEntryStatusEl.textContent = history.length > 0 ? `Last move ${history[history.length - 1]}` : '';
+    moveEntryStatusEl.className = 'sr-only';
+}
+
+// Covers the promotion square's file with the pieces to choose from, stacked from the board edge
+// toward the centre. Clicking anywhere else cancels the move.
+function renderPromotionChooser(promotion: { from: string; to: string }, rows: number[], cols: number[]) {
+    const backdrop = document.createElement('div');
+    backdrop.className = 'absolute inset-0 z-20 bg-black/40';
+    backdrop.onclick = () => {
+        clearSelection();
+        renderBoard();
     };
 
-    const wCaps: PieceType[] = []; // White pieces captured by Black
-    const bCaps: PieceType[] = []; // Black pieces captured by White
+    const fromTop = rows.indexOf(8 - Number(promotion.to[1])) === 0;
+    const column = document.createElement('div');
+    column.className = `absolute flex w-[12.5%] h-1/2 bg-white shadow-xl rounded-sm ${fromTop ? 'top-0 flex-col' : 'bottom-0 flex-col-reverse'}`;
+    column.style.left = `${cols.indexOf(promotion.to.charCodeAt(0) - 97) * 12.5}%`;
 
-    // Missing White pieces
-    Object.keys(initialCounts).forEach(key => {
-        if (key.startsWith('w')) {
-            const count = currentCounts[key] || 0;
-            const missing = initialCounts[key] - count;
-            for(let i=0; i<missing; i++) wCaps.push(key[1] as PieceType);
-        }
-    });
-     // Missing Black pieces
-     Object.keys(initialCounts).forEach(key => {
-        if (key.startsWith('b')) {
-            const count = currentCounts[key] || 0;
-            const missing = initialCounts[key] - count;
-            for(let i=0; i<missing; i++) bCaps.push(key[1] as PieceType);
-        }
+    column.setAttribute('role', 'dialog');
+    column.setAttribute('aria-label', 'Choose a promotion piece');
+
+    PROMOTION_PIECES.forEach(pieceType => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.setAttribute('aria-label', `Promote to ${PIECE_NAMES[pieceType]}`);
+        button.className = 'flex-1 flex items-center justify-center hover:bg-gray-200 focus:bg-gray-200 outline-none';
+        button.onclick = (e) => {
+            e.stopPropagation();
+            clearSelection();
+            makeMove(promotion.from, promotion.to, pieceType);
+        };
+        const img = document.createElement('img');
+        img.src = PIECE_IMAGES[`${viewBoard().turn()}${pieceType}`];
+        img.alt = '';
+        img.className = 'w-4/5 h-4/5';
+        button.appendChild(img);
+        column.appendChild(button);
     });
 
+    backdrop.appendChild(column);
+    boardEl.appendChild(backdrop);
+    column.querySelector('button')!.focus();
+}
+
+function renderCapturedPieces() {
+    const captured = capturedPieces(viewBoard(), session.tree.nodes[session.tree.rootId].fen);
     const createImgs = (container: HTMLElement, pieces: PieceType[], color: string) => {
         container.innerHTML = '';
         if(pieces.length === 0) {
@@ -327,8 +1339,264 @@ function renderCapturedPieces() {
         });
     };
 
-    createImgs(capturedWhiteEl, wCaps, 'w');
-    createImgs(capturedBlackEl, bCaps, 'b');
+    // The top bar belongs to the bot and lists the pieces it took from the player
+    const playerSide = session.playerColor;
+    const botSide = playerSide === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+    createImgs(capturedWhiteEl, captured[playerSide], playerSide);
+    createImgs(capturedBlackEl, captured[botSide], botSide);
+}
+
+// What the app draws on the board: a hint's piece or move, a review's better move, the engine's
+// line and the threat it sees
+function boardAnnotations(): BoardAnnotation[] {
+    if (mode === 'puzzles') return puzzleHighlight ? [{ from: puzzleHighlight, to: puzzleHighlight, color: 'B' }] : [];
+    const betterMove = analysis.review?.moves.find(move => move.nodeId === viewId)?.betterMove;
+    const engineLine = showEngineArrows ? analysis.engineLines[viewId] : undefined;
+    return [
+        ...(shownHint()?.annotations ?? []),
+        ...(betterMove ? [{ from: betterMove.from, to: betterMove.to, color: 'G' as const }] : []),
+        ...(engineLine ? engineLineAnnotations(viewBoard().fen(), engineLine) : []),
+    ];
+}
+
+// The player's own drawings: kept with the move in a game, for the position only in a puzzle
+function boardDrawings(): BoardAnnotation[] {
+    if (mode === 'puzzles') return puzzleDrawings.fen === puzzleBoard.fen() ? puzzleDrawings.drawings : [];
+    return session.tree.nodes[viewId].annotations ?? [];
+}
+
+function setBoardDrawings(drawings: BoardAnnotation[]) {
+    if (mode === 'puzzles') puzzleDrawings = { fen: puzzleBoard.fen(), drawings };
+    else gameController.setAnnotations(viewId, drawings);
+}
+
+// Drawn in square units over the board: circles round a square, arrows from the centre of one
+// square to the edge of the other
+function renderAnnotations(annotations: BoardAnnotation[], rows: number[], cols: number[]) {
+    const centre = (square: string) => ({
+        x: cols.indexOf(square.charCodeAt(0) - 97) + 0.5,
+        y: rows.indexOf(8 - Number(square[1])) + 0.5,
+    });
+    const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    svg.setAttribute('viewBox', '0 0 8 8');
+    svg.setAttribute('aria-hidden', 'true');
+    svg.setAttribute('class', 'absolute inset-0 w-full h-full z-20 pointer-events-none');
+    svg.innerHTML = annotations.map(annotation => {
+        const from = centre(annotation.from);
+        const color = ANNOTATION_COLORS[annotation.color];
+        if (annotation.from === annotation.to) {
+            return `<circle cx="${from.x}" cy="${from.y}" r="0.44" fill="none" stroke="${color}" stroke-width="0.08" />`;
+        }
+        const to = centre(annotation.to);
+        const length = Math.hypot(to.x - from.x, to.y - from.y);
+        const angle = (Math.atan2(to.y - from.y, to.x - from.x) * 180) / Math.PI;
+        return `
+            <g transform="translate(${from.x} ${from.y}) rotate(${angle})" fill="${color}">
+                <rect x="0" y="-0.09" width="${Math.max(length - 0.65, 0)}" height="0.18" />
+                <polygon points="${length - 0.2},0 ${length - 0.65},-0.3 ${length - 0.65},0.3" />
+            </g>`;
+    }).join('');
+    boardEl.appendChild(svg);
+}
+
+// The review panel shows once the game is over (or for a loaded game), with the engine's progress
+// and then its verdict on the move on the board
+function renderReview() {
+    const { review, reviewProgress } = analysis;
+    const canReview = session.liveId === null || !!session.outcome;
+    reviewPanelEl.classList.toggle('hidden', !canReview && !review && !reviewProgress);
+    reviewProgressEl.classList.toggle('hidden', !reviewProgress);
+    reviewBtn.classList.toggle('hidden', !!reviewProgress || !!review);
+    reviewResultsEl.classList.toggle('hidden', !review);
+
+    if (reviewProgress) {
+        document.getElementById('review-progress-text')!.textContent = `Analysing the game: ${reviewProgress.done} of ${reviewProgress.total} positions...`;
+        document.getElementById('review-progress-bar')!.style.width = `${(reviewProgress.done / reviewProgress.total) * 100}%`;
+    }
+    if (!review) return;
+    const { moves, accuracy, keyMoments } = review;
+
+    const describe = (move: ReviewedMove) => `${moveNumberLabel(session.tree.nodes[move.nodeId])} ${move.san}${CLASSIFICATION_GLYPHS[move.classification]}`;
+    const percent = (value: number | null) => (value === null ? '-' : `${value}%`);
+    const count = (color: PieceColor, classification: MoveClassification) =>
+        moves.filter(move => move.color === color && move.classification === classification).length;
+
+    const table = document.getElementById('review-table')!;
+    table.innerHTML = '';
+    const addRow = (label: string, labelClass: string, white: string, black: string) => {
+        const row = document.createElement('tr');
+        [label, white, black].forEach((text, index) => {
+            const cell = document.createElement('td');
+            cell.className = index === 0 ? `text-left ${labelClass}` : 'text-gray-300';
+            cell.textContent = text;
+            row.appendChild(cell);
+        });
+        table.appendChild(row);
+    };
+    addRow('Accuracy', 'text-gray-400', percent(accuracy.white), percent(accuracy.black));
+    (Object.keys(CLASSIFICATION_LABELS) as MoveClassification[]).forEach(classification => {
+        addRow(
+            CLASSIFICATION_LABELS[classification],
+            CLASSIFICATION_COLORS[classification],
+            String(count(PieceColor.WHITE, classification)),
+            String(count(PieceColor.BLACK, classification))
+        );
+    });
+
+    // The move on the board, stepped to with the move list or the arrow keys
+    const current = moves.find(move => move.nodeId === viewId);
+    const currentEl = document.getElementById('review-current')!;
+    currentEl.innerHTML = '';
+    if (current) {
+        const name = document.createElement('span');
+        name.className = 'font-semibold';
+        name.textContent = describe(current);
+        const verdict = document.createElement('span');
+        verdict.className = CLASSIFICATION_COLORS[current.classification];
+        verdict.textContent = CLASSIFICATION_LABELS[current.classification];
+        currentEl.append(name, ' ', verdict, ` (${formatEval(current.before)} → ${formatEval(current.after)})`);
+        if (current.betterMove) {
+            const better = document.createElement('span');
+            better.className = 'text-emerald-400 font-semibold';
+            better.textContent = current.betterMove.san;
+            currentEl.append('. Better was ', better, '.');
+        }
+    } else {
+        currentEl.textContent = 'Step through the game to see how each move was judged.';
+    }
+
+    const momentsEl = document.getElementById('review-moments')!;
+    momentsEl.innerHTML = '';
+    if (keyMoments.length === 0) {
+        const none = document.createElement('li');
+        none.className = 'text-xs text-gray-500';
+        none.textContent = 'No mistakes or blunders. Well played!';
+        momentsEl.appendChild(none);
+    }
+    keyMoments.forEach(index => {
+        const move = moves[index];
+        const item = document.createElement('li');
+        const btn = document.createElement('button');
+        btn.className = `w-full text-left text-xs px-2 py-1 rounded transition-colors ${move.nodeId === viewId ? 'bg-gray-600' : 'hover:bg-gray-700'}`;
+        const name = document.createElement('span');
+        name.className = CLASSIFICATION_COLORS[move.classification];
+        name.textContent = describe(move);
+        const detail = document.createElement('span');
+        detail.className = 'text-gray-400';
+        detail.textContent = ` ${formatEval(move.before)} → ${formatEval(move.after)}${move.betterMove ? `, better ${move.betterMove.san}` : ''}`;
+        btn.append(name, detail);
+        btn.addEventListener('click', () => goTo(move.nodeId));
+        item.appendChild(btn);
+        momentsEl.appendChild(item);
+    });
+}
+
+// White's share of the bar follows its winning chances; the number sits at the end of the side
+// that is ahead
+function renderEvalBar() {
+    evalBarEl.classList.toggle('hidden', mode !== 'play' || !showEvalBar);
+    const cp = analysis.evaluations[viewId] ?? null;
+    const whiteAtBottom = boardOrientation === PieceColor.WHITE;
+    const fill = document.getElementById('eval-bar-fill')!;
+    fill.style.height = `${cp === null ? 50 : winPercent(cp)}%`;
+    fill.classList.toggle('bottom-0', whiteAtBottom);
+    fill.classList.toggle('top-0', !whiteAtBottom);
+
+    const mate = cp === null ? null : mateDistance(cp);
+    const whiteAhead = cp === null || cp >= 0;
+    const label = document.getElementById('eval-bar-label')!;
+    label.textContent = cp === null ? '' : mate !== null ? (mate === 0 ? '#' : `M${mate}`) : (Math.abs(Math.round(cp / 10)) / 10).toFixed(1);
+    label.className = `absolute inset-x-0 text-center text-[9px] font-bold ${whiteAhead === whiteAtBottom ? 'bottom-1' : 'top-1'} ${whiteAhead ? 'text-gray-900' : 'text-gray-100'}`;
+    evalBarEl.setAttribute('aria-label', cp === null ? 'Evaluation pending' : `Evaluation ${formatEval(cp)}`);
+}
+
+// White's winning chances along the line through the position on the board, with a strip per
+// position to click through to it
+function renderEvalGraph() {
+    const nodes = [session.tree.nodes[session.tree.rootId], ...getPath(session.tree, lineEnd(session.tree, viewId))];
+    evalGraphEl.innerHTML = '';
+    if (mode !== 'play' || !showEvalGraph || nodes.length < 2) return;
+
+    const width = 300;
+    const height = 80;
+    const step = width / (nodes.length - 1);
+    const y = (cp: number) => height - (winPercent(cp) / 100) * height;
+    const points = nodes
+        .map((node, ply) => ({ node, x: ply * step, cp: analysis.evaluations[node.id] }))
+        .filter(point => point.cp !== undefined);
+    const line = points.map(point => `${point.x},${y(point.cp)}`).join(' ');
+    const current = points.find(point => point.node.id === viewId);
+
+    const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+    svg.setAttribute('class', 'w-full h-20 bg-gray-900 rounded-md');
+    svg.setAttribute('aria-label', 'Evaluation graph');
+    svg.innerHTML = `
+        ${points.length > 1 ? `<polygon points="${points[0].x},${height} ${line} ${points[points.length - 1].x},${height}" class="fill-gray-200/80" />` : ''}
+        <line x1="0" y1="${height / 2}" x2="${width}" y2="${height / 2}" class="stroke-gray-500" stroke-dasharray="4 4" stroke-width="0.5" />
+        ${points.length > 1 ? `<polyline points="${line}" fill="none" class="stroke-emerald-400" stroke-width="1.5" />` : ''}
+        ${current ? `<circle cx="${current.x}" cy="${y(current.cp)}" r="3.5" class="fill-emerald-400 stroke-gray-900" />` : ''}`;
+    nodes.forEach((node, ply) => {
+        const strip = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+        strip.setAttribute('data-node', String(node.id));
+        strip.setAttribute('x', String(ply * step - step / 2));
+        strip.setAttribute('y', '0');
+        strip.setAttribute('width', String(step));
+        strip.setAttribute('height', String(height));
+        strip.setAttribute('fill', 'transparent');
+        strip.setAttribute('class', 'cursor-pointer hover:fill-white/10');
+        const title = document.createElementNS('http://www.w3.org/2000/svg', 'title');
+        const label = node.parentId === null ? 'Start' : `${moveNumberLabel(node)} ${node.san}`;
+        title.textContent = analysis.evaluations[node.id] === undefined ? label : `${label} ${formatEval(analysis.evaluations[node.id])}`;
+        strip.appendChild(title);
+        svg.appendChild(strip);
+    });
+    evalGraphEl.appendChild(svg);
+}
+
+function renderMoveList() {
+    moveListEl.innerHTML = '';
+    const entries = listMoves(session.tree);
+    if (entries.length === 0) {
+        const span = document.createElement('span');
+        span.className = "text-xs text-gray-500";
+        span.innerText = "No moves yet";
+        moveListEl.appendChild(span);
+        return;
+    }
+
+    entries.forEach(entry => {
+        if (entry.type !== 'move') {
+            const bracket = document.createElement('span');
+            bracket.className = "text-gray-500 text-xs";
+            bracket.innerText = entry.type === 'variationStart' ? ' (' : ') ';
+            moveListEl.appendChild(bracket);
+            return;
+        }
+
+        const { node, label, depth } = entry;
+        const wrapper = document.createElement('span');
+        if (depth > 0) wrapper.className = 'text-xs';
+        if (label) {
+            const number = document.createElement('span');
+            number.className = "text-gray-500 ml-1";
+            number.innerText = label;
+            wrapper.appendChild(number);
+        }
+        const btn = document.createElement('button');
+        const reviewed = analysis.review?.moves.find(move => move.nodeId === node.id);
+        btn.innerText = node.san + (reviewed ? CLASSIFICATION_GLYPHS[reviewed.classification] : '');
+        if (node.id === viewId) {
+            btn.className = 'px-1 rounded transition-colors bg-emerald-600 text-white';
+            btn.setAttribute('data-current', 'true');
+        } else {
+            btn.className = `px-1 rounded transition-colors hover:bg-gray-700 ${depth > 0 ? 'text-gray-400' : 'text-gray-200'}`;
+        }
+        btn.addEventListener('click', () => goTo(node.id));
+        wrapper.appendChild(btn);
+        moveListEl.appendChild(wrapper);
+    });
+    moveListEl.querySelector('[data-current]')?.scrollIntoView({ block: 'nearest' });
 }
 
 // Start
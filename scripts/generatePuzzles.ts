@@ -0,0 +1,196 @@
+// Builds the bundled puzzle set, run with `npm run puzzles [count]`. Puzzles already in the set
+// are kept, so a run that is cut short can be picked up again.
+//
+// The engine plays itself from the start position, throwing in a random move now and then so
+// the games stay varied and someone blunders. Every position is searched for a tactic the side
+// to move could punish it with: a forced mate in up to three, or a move that wins at least a
+// minor piece's worth from a level position and is clearly better than any other. Each puzzle
+// is rated by the weakest strength level whose search finds its first move.
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { Chess, Square } from 'chess.js';
+import { search, clearTranspositionTable } from '../services/engine';
+import { STRENGTH_LEVELS, strengthLimits } from '../services/strength';
+import { moveToUci } from '../services/puzzles';
+import { Puzzle, Score, SearchLimits } from '../types';
+
+const OUTPUT = new URL('../data/puzzles.json', import.meta.url);
+const TARGET = Number(process.argv[2]) || 300;
+
+const ANALYSIS: SearchLimits = { maxDepth: 5, timeMs: 250, multiPv: 2 };
+// A tactic must win this much (centipawns) and beat the next best move by as much again
+const WINNING_MARGIN = 250;
+// ...starting from a position no better than this for the side that finds it
+const LEVEL_POSITION = 100;
+const RANDOM_MOVE_CHANCE = 0.2;
+const MAX_PLIES = 100;
+const MAX_MATE = 3;
+// Later positions of a game that has gone one way are much alike
+const MAX_PER_GAME = 2;
+
+const PIECE_VALUES: Record<string, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Mates rank above any material score, shorter mates first
+const scoreValue = (score: Score) =>
+  score.type === 'mate' ? (score.value > 0 ? 100000 - score.value : -100000 - score.value) : score.value;
+
+// SAN moves played from `fen`, as UCI; null if any of them doesn't play
+const toUci = (fen: string, san: string[]): string[] | null => {
+  const board = new Chess(fen);
+  try {
+    return san.map((move) => moveToUci(board.move(move)));
+  } catch {
+    return null;
+  }
+};
+
+const play = (fen: string, uci: string[]) => {
+  const board = new Chess(fen);
+  uci.forEach((move) => board.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] }));
+  return board;
+};
+
+// The mating line, if the search's main line plays it out and every mover's move but the last is
+// the only one that mates as fast (any mate is accepted at the end)
+const mateSolution = (fen: string, pv: string[], moves: number): string[] | null => {
+  const solution = toUci(fen, pv.slice(0, moves * 2 - 1));
+  if (!solution || solution.length !== moves * 2 - 1 || !play(fen, solution).isCheckmate()) return null;
+  for (let ply = 0; ply < solution.length - 1; ply += 2) {
+    const [, second] = search(play(fen, solution.slice(0, ply)), { maxDepth: solution.length - ply, multiPv: 2 }).lines;
+    if (second && second.score.type === 'mate' && second.score.value > 0 && second.score.value <= (solution.length - ply + 1) / 2) return null;
+  }
+  return solution;
+};
+
+// Whether a searched position has one clearly winning move, and which
+const uniqueWin = (board: Chess): string | null => {
+  const [best, second] = search(board, ANALYSIS).lines;
+  if (!best || best.score.type !== 'cp' || best.score.value < WINNING_MARGIN) return null;
+  if (second && scoreValue(second.score) > best.score.value - WINNING_MARGIN) return null;
+  return best.move;
+};
+
+// The winning move, followed by the expected reply and a second forcing winner when there is one
+const advantageSolution = (fen: string, pv: string[]): string[] | null => {
+  const first = toUci(fen, pv.slice(0, 1));
+  if (!first) return null;
+  const line = toUci(fen, pv.slice(0, 2));
+  if (!line || line.length < 2) return first;
+
+  const board = play(fen, line);
+  const next = uniqueWin(board);
+  const move = next && board.move(next);
+  if (!move || !(move.captured || move.promotion || board.inCheck())) return first;
+  return [...line, moveToUci(move)];
+};
+
+const themesFor = (fen: string, solution: string[], mateIn: number | null): string[] => {
+  const board = new Chess(fen);
+  const solver = board.turn();
+  const opponent = solver === 'w' ? 'b' : 'w';
+  const themes: string[] = mateIn ? ['mate', `mateIn${mateIn}`] : ['advantage'];
+
+  const pieces = board.board().flat().filter((piece) => piece && piece.type !== 'p' && piece.type !== 'k').length;
+  themes.push(board.moveNumber() <= 10 ? 'opening' : pieces <= 6 ? 'endgame' : 'middlegame');
+  themes.push(solution.length === 1 ? 'oneMove' : solution.length === 3 ? 'short' : 'long');
+
+  const first = board.move({ from: solution[0].slice(0, 2), to: solution[0].slice(2, 4), promotion: solution[0][4] });
+  if (first.captured && PIECE_VALUES[first.captured] >= 3 && !new Chess(fen).isAttacked(first.to, opponent)) {
+    themes.push('hangingPiece');
+  }
+  // The moved piece attacks two things it gains from hitting: the king, anything worth more
+  // than itself or anything left undefended
+  const targets = board
+    .board()
+    .flat()
+    .filter((piece) => piece && piece.color === opponent)
+    .filter((piece) => board.attackers(piece!.square as Square, solver).includes(first.to))
+    .filter(
+      (piece) =>
+        piece!.type === 'k' ||
+        PIECE_VALUES[piece!.type] > PIECE_VALUES[first.piece] ||
+        (piece!.type !== 'p' && !board.isAttacked(piece!.square as Square, opponent))
+    );
+  if (!mateIn && targets.length >= 2) themes.push('fork');
+  if (solution.some((move, ply) => ply % 2 === 0 && move.length === 5)) themes.push('promotion');
+  return themes;
+};
+
+// The rating of the weakest level that finds the first move, plus a little per extra move
+const rate = (fen: string, solution: string[]) => {
+  const board = new Chess(fen);
+  const answer = board.move({ from: solution[0].slice(0, 2), to: solution[0].slice(2, 4), promotion: solution[0][4] }).san;
+  const extraMoves = (solution.length - 1) / 2;
+  const finder = STRENGTH_LEVELS.slice(0, -1).find((strength) => {
+    // Positions searched deeper earlier would let a weak level see further than it can
+    clearTranspositionTable();
+    const { lines } = search(new Chess(fen), { ...strengthLimits(strength), multiPv: 1 });
+    return lines[0]?.move === answer;
+  });
+  const base = finder ? finder.rating : STRENGTH_LEVELS[STRENGTH_LEVELS.length - 1].rating;
+  return Math.round((base + extraMoves * 75 + random() * 60 - 30) / 10) * 10;
+};
+
+const write = (puzzles: Puzzle[]) => {
+  const sorted = [...puzzles].sort((a, b) => a.rating - b.rating).map((puzzle, index) => ({ ...puzzle, id: `p${String(index + 1).padStart(4, '0')}` }));
+  writeFileSync(OUTPUT, `[\n${sorted.map((puzzle) => `  ${JSON.stringify(puzzle)}`).join(',\n')}\n]\n`);
+};
+
+const puzzles: Puzzle[] = existsSync(OUTPUT) ? JSON.parse(readFileSync(OUTPUT, 'utf8')) : [];
+const seen = new Set(puzzles.map((puzzle) => puzzle.fen.split(' ').slice(0, 2).join(' ')));
+// A fresh seed for every resumed run, so it plays new games
+const random = seededRandom(2024 + puzzles.length);
+let games = 0;
+
+while (puzzles.length < TARGET) {
+  games++;
+  const board = new Chess();
+  // The score before the last move, from the point of view of the side now to move
+  let before = 0;
+  let found = 0;
+
+  for (let ply = 0; ply < MAX_PLIES && !board.isGameOver() && found < MAX_PER_GAME && puzzles.length < TARGET; ply++) {
+    const fen = board.fen();
+    const result = search(board, ANALYSIS);
+    const [best, second] = result.lines;
+    if (!best) break;
+    const key = fen.split(' ').slice(0, 2).join(' ');
+
+    let solution: string[] | null = null;
+    let mateIn: number | null = null;
+    if (ply >= 6 && !seen.has(key)) {
+      if (best.score.type === 'mate' && best.score.value > 0 && best.score.value <= MAX_MATE) {
+        mateIn = best.score.value;
+        solution = mateSolution(fen, best.pv, mateIn);
+      } else if (
+        best.score.type === 'cp' &&
+        best.score.value >= WINNING_MARGIN &&
+        before <= LEVEL_POSITION &&
+        (!second || scoreValue(second.score) <= best.score.value - WINNING_MARGIN)
+      ) {
+        solution = advantageSolution(fen, best.pv);
+      }
+    }
+    if (solution) {
+      seen.add(key);
+      found++;
+      puzzles.push({ id: '', fen, solution, themes: themesFor(fen, solution, mateIn), rating: rate(fen, solution) });
+      console.log(`${puzzles.length}/${TARGET} (game ${games}): ${solution.join(' ')}`);
+      if (puzzles.length % 10 === 0) write(puzzles);
+    }
+
+    const moves = board.moves();
+    const move = random() < RANDOM_MOVE_CHANCE ? moves[Math.floor(random() * moves.length)] : best.move;
+    before = -scoreValue(best.score);
+    board.move(move);
+  }
+}
+
+write(puzzles);
+console.log(`Wrote ${puzzles.length} puzzles from ${games} games`);
@@ -0,0 +1,162 @@
+// Self-play match between two engine configurations, run with
+//   npm run --silent match -- --a <engine> --b <engine> [--games 48] [--pgn match.pgn]
+//     [--max-plies 300] [--elo0 0] [--elo1 10]
+// e.g. `npm run --silent match -- --a level=8,mobility=0.5 --b level=8` to see whether halving
+// mobility helps. An engine is comma-separated key=value pairs (see parseMatchEngine): a level,
+// a provider (builtin, or uci-bridge with `npm run uci-bridge` running) and evaluation weights.
+//
+// Each opening of data/matchOpenings.json is played twice, once with each engine as White. Games
+// that drag on are adjudicated on the engines' own scores. After every pair the running score
+// is printed with the Elo difference it implies and the SPRT's log-likelihood ratio; the match
+// stops when the test reaches a verdict or the games run out. Every game is appended to the PGN.
+import { appendFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { Chess } from 'chess.js';
+import { clearTranspositionTable, getBestMove } from '../services/engine';
+import { setEvaluationWeights } from '../services/evaluation';
+import { createUciBridgeEngine } from '../services/uciBridgeEngine';
+import { gameOutcome } from '../services/gameController';
+import { createPgnGame, writePgn } from '../services/pgn';
+import {
+  DEFAULT_ADJUDICATION,
+  DEFAULT_SPRT,
+  MATCH_OPENINGS,
+  MatchEngine,
+  MatchScore,
+  adjudicate,
+  eloDifference,
+  parseMatchEngine,
+  sprt,
+  whiteScore,
+} from '../services/match';
+import { PgnMove, SearchResult } from '../types';
+
+const USAGE = 'Usage: npm run --silent match -- --a <engine> --b <engine> [--games 48] [--pgn match.pgn] [--max-plies 300] [--elo0 0] [--elo1 10]';
+
+let options: Record<string, string | undefined>;
+try {
+  ({ values: options } = parseArgs({
+    options: {
+      a: { type: 'string', default: '' },
+      b: { type: 'string', default: '' },
+      games: { type: 'string', default: String(MATCH_OPENINGS.length * 2) },
+      pgn: { type: 'string', default: 'match.pgn' },
+      'max-plies': { type: 'string', default: String(DEFAULT_ADJUDICATION.maxPlies) },
+      elo0: { type: 'string', default: String(DEFAULT_SPRT.elo0) },
+      elo1: { type: 'string', default: String(DEFAULT_SPRT.elo1) },
+    },
+  }));
+} catch (error) {
+  console.error(`${error instanceof Error ? error.message : String(error)}\n${USAGE}`);
+  process.exit(1);
+}
+
+let engines: [MatchEngine, MatchEngine];
+try {
+  engines = [parseMatchEngine(options.a!), parseMatchEngine(options.b!)];
+} catch (error) {
+  console.error(`${error instanceof Error ? error.message : String(error)}\n${USAGE}`);
+  process.exit(1);
+}
+// Two engines left unnamed and set up alike would be told apart only by their order
+if (engines[0].name === engines[1].name) engines = [{ ...engines[0], name: `${engines[0].name} (A)` }, { ...engines[1], name: `${engines[1].name} (B)` }];
+
+// Whole pairs only, so each engine has White as often as the other
+const games = Math.max(2, Math.round(Number(options.games) / 2) * 2 || 2);
+const rules = { ...DEFAULT_ADJUDICATION, maxPlies: Number(options['max-plies']) || DEFAULT_ADJUDICATION.maxPlies };
+const bounds = { ...DEFAULT_SPRT, elo0: Number(options.elo0), elo1: Number(options.elo1) };
+if (!Number.isFinite(bounds.elo0) || !Number.isFinite(bounds.elo1) || bounds.elo0 >= bounds.elo1) {
+  console.error(`--elo0 must be below --elo1\n${USAGE}`);
+  process.exit(1);
+}
+
+const bridge = createUciBridgeEngine();
+
+// The engine's move in the position, the game from `startFen` on. The built-in engine runs here,
+// with its transposition table cleared so neither side reuses the other's scores, which may come
+// from other weights.
+const playMove = (engine: MatchEngine, board: Chess, startFen: string): Promise<SearchResult> => {
+  if (engine.provider === 'uci-bridge') return bridge.playMove(board.fen(), engine.level, { history: { startFen, moves: board.history() } });
+  setEvaluationWeights(engine.weights);
+  clearTranspositionTable();
+  return Promise.resolve(getBestMove(board, engine.level));
+};
+
+const formatScore = (cp: number) => (Math.abs(cp) >= 100000 ? (cp > 0 ? '+M' : '-M') : `${cp >= 0 ? '+' : ''}${(cp / 100).toFixed(2)}`);
+
+// Plays one game from the opening, White's engine first; the moves carry each search's score
+// (White's side) and depth as comments, the way match runners write them
+const playGame = async (white: MatchEngine, black: MatchEngine, fen: string) => {
+  const board = new Chess(fen);
+  const scores: (number | null)[] = [];
+  const moves: PgnMove[] = [];
+  for (;;) {
+    const ended = gameOutcome(board);
+    const adjudicated = ended ? null : adjudicate(scores, rules);
+    if (ended || adjudicated) return { outcome: (ended ?? adjudicated)!, adjudicated: !!adjudicated, moves };
+    const turn = board.turn();
+    const result = await playMove(turn === 'w' ? white : black, board, fen);
+    if (!result.bestMove) throw new Error(`${turn === 'w' ? white.name : black.name} found no move in ${board.fen()}`);
+    const { san } = board.move(result.bestMove);
+    const score = result.depth > 0 ? whiteScore(result.score, turn) : null;
+    scores.push(score);
+    moves.push({ san, comment: score === null ? 'book' : `${formatScore(score)}/${result.depth}` });
+  }
+};
+
+const score: MatchScore = { wins: 0, draws: 0, losses: 0 };
+const describe = () => {
+  const { elo, margin } = eloDifference(score);
+  const { llr, lower, upper } = sprt(score, bounds);
+  const played = score.wins + score.draws + score.losses;
+  const format = (value: number) => (Number.isFinite(value) ? value.toFixed(1) : value > 0 ? 'inf' : '-inf');
+  return `${played} games  +${score.wins} =${score.draws} -${score.losses}  Elo ${format(elo)} ± ${format(margin)}  LLR ${llr.toFixed(2)} (${lower.toFixed(2)}, ${upper.toFixed(2)})`;
+};
+
+writeFileSync(options.pgn!, '');
+console.log(`${engines[0].name} vs ${engines[1].name}: up to ${games} games, SPRT elo0=${bounds.elo0} elo1=${bounds.elo1}`);
+
+for (let round = 1; round <= games; round++) {
+  const opening = MATCH_OPENINGS[Math.floor((round - 1) / 2) % MATCH_OPENINGS.length];
+  // The first game of a pair gives A White, the second gives it Black
+  const [white, black] = round % 2 === 1 ? engines : [engines[1], engines[0]];
+  const { outcome, adjudicated, moves } = await playGame(white, black, opening.fen);
+
+  const aPoints = outcome.result === '1/2-1/2' ? 0.5 : (outcome.result === '1-0') === (white === engines[0]) ? 1 : 0;
+  if (aPoints === 1) score.wins++;
+  else if (aPoints === 0) score.losses++;
+  else score.draws++;
+
+  const record = createPgnGame(
+    {
+      Event: 'Self-play match',
+      Site: 'Chess Practice',
+      Round: String(round),
+      White: white.name,
+      Black: black.name,
+      ECO: opening.eco,
+      Opening: opening.name,
+      Termination: adjudicated ? 'adjudication' : 'normal',
+    },
+    opening.fen
+  );
+  appendFileSync(options.pgn!, `${writePgn({ ...record, moves, result: outcome.result })}\n`);
+  console.log(`${String(round).padStart(3)}. ${white.name} - ${black.name}  ${outcome.result.padEnd(7)}  ${opening.eco} ${opening.name}: ${outcome.reason}`);
+
+  if (round % 2 === 0) {
+    console.log(`     ${describe()}`);
+    const { verdict } = sprt(score, bounds);
+    if (verdict) break;
+  }
+}
+
+const { verdict } = sprt(score, bounds);
+console.log(`\nFinal: ${describe()}`);
+console.log(
+  verdict === 'H1'
+    ? `SPRT: H1 accepted, ${engines[0].name} is at least ${bounds.elo1} Elo stronger.`
+    : verdict === 'H0'
+      ? `SPRT: H0 accepted, ${engines[0].name} is not ${bounds.elo1} Elo stronger.`
+      : 'SPRT: no verdict yet; play more games for one.'
+);
+console.log(`Games written to ${options.pgn}`);
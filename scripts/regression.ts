@@ -0,0 +1,782 @@
+// Engine regression suite, run with `npm run regression`.
+//
+// 1. Perft: leaf counts of the move generator against published values, once plainly and
+//    once through a Zobrist-keyed cache. Matching totals show the incremental keys are sound.
+// 2. Notation and keys: SAN agrees with chess.js, and the incremental key matches a full
+//    recomputation after every move of a short tree walk.
+// 3. Search: the chosen move is the same with the transposition table on and off.
+// 4. Tactics: each position, and its colour-reversed mirror, must be solved with the search
+//    limits of its strength level and every stronger one. The levels' deliberate mistakes are
+//    not part of this check.
+// 5. Strength levels: ratings rise with the level, deliberate mistakes stay within each level's
+//    allowed loss, weak levels vary their moves and the strongest always plays the best one.
+// 6. PGN: a game with a set-up position, annotation glyphs, nested variations and comments
+//    reads the same after being written out, directly and through the game tree.
+// 7. Clock: increments are added after the move, a delay runs out before the clock does, a
+//    flag loses unless the opponent can't mate, and the time control is written as PGN has it.
+// 8. Position editor: a FEN's move counters survive editing, and set-up positions with the
+//    wrong kings, pawns on the back ranks, castling or en passant rights the pieces don't allow,
+//    or the side not to move in check are refused.
+// 9. Puzzles: sets are read from JSON and CSV and refused when a solution doesn't play out, a
+//    mate other than the solution's solves the puzzle, the rating moves the Elo way, and a new
+//    solver starts at the middle of the set.
+// 10. Opening book: openings are named however their moves were ordered, each level plays book
+//    moves only as deep as it knows, and weaker levels spread their first moves more widely.
+// 11. Game review: with fixed engine scores, each move label starts just past its threshold, a
+//    won position stays won however it is won, and accuracy and winning chances follow
+//    lichess's formulas.
+// 12. Coach: the offline coach answers the same request the same way, hints that name a missing
+//    field or an illegal move are rejected, and a failing provider (a stub here) hands over to
+//    the offline coach. A puzzle's hint gives away no more than its stage. The request queue
+//    sends only the newest of quick requests, answers repeats from its cache but asks again
+//    after an answer that didn't read, leaves a provider alone after a quota error and cancels
+//    on reset.
+// 13. Annotations: arrows and circles in `[%cal]`/`[%csl]` comments are read onto their moves
+//    apart from the comment's text, and written back so the PGN reads the same again. The
+//    engine's line becomes an arrow for its move and one for the threat after it.
+// 14. Game controller: a game against an in-process engine runs headless. The bot answers the
+//    player, the coach's words land on the move, take-backs, puzzles' pause and a new game as
+//    Black behave, and checkmate and a flag end the game with the right result, which the PGN
+//    takes from the live line. The analysis controller evaluates a position once and reviews
+//    a game, and a cancelled review changes nothing.
+// 15. Match statistics: the Elo estimate and SPRT of the self-play runner agree with worked
+//    values and cope with every game scoring the same, adjudication waits for the engines to
+//    agree long enough, engine settings parse, evaluation weights take effect in the score and
+//    its breakdown, and the bundled match openings are legal.
+import { Chess } from 'chess.js';
+import { Position, perft } from '../services/position';
+import { search, clearTranspositionTable } from '../services/engine';
+import { STRENGTH_LEVELS, chooseMove, strengthLimits } from '../services/strength';
+import { parsePgn, writePgn } from '../services/pgn';
+import { addMove, boardAt, createGameTree, fromPgn, getPath, lineEnd, toPgn } from '../services/gameTree';
+import { TIME_CONTROLS, checkFlag, createClock, customTimeControl, flagResult, pressClock, timeControlHeaders, timeLeft } from '../services/clock';
+import { BoardAnnotation, CoachRequest, PieceColor, Score, SearchResult } from '../types';
+import { parseFen, startPosition, toFen, validatePosition } from '../services/positionEditor';
+import { INITIAL_PUZZLE_STATS, checkPuzzleMove, parsePuzzleSet, recordPuzzleResult, startingPuzzleStats } from '../services/puzzles';
+import { chooseBookMove, identifyOpening } from '../services/openings';
+import { reviewGame, scoreToCp, winPercent } from '../services/review';
+import { CoachProvider, DEFAULT_COACH_SETTINGS, askCoach } from '../services/coachProvider';
+import { offlineCoach } from '../services/offlineCoach';
+import { parseHint, requestHint, requestPuzzleHint } from '../services/hints';
+import { createCoachQueue, isQuotaError } from '../services/coachQueue';
+import { isAbortError } from '../services/engineClient';
+import { engineLineAnnotations, toggleAnnotation } from '../services/annotations';
+import { EngineProvider } from '../services/engineProvider';
+import { GameEvent, capturedPieces, createGameController, gameOutcome } from '../services/gameController';
+import { AnalysisEvent, createAnalysisController } from '../services/analysisController';
+import { EVALUATION_TERMS, evaluate, explainEvaluation, setEvaluationWeights } from '../services/evaluation';
+import { MATCH_OPENINGS, adjudicate, eloDifference, parseMatchEngine, sprt } from '../services/match';
+
+interface PerftCase {
+  name: string;
+  fen: string;
+  counts: number[]; // Leaf counts for depth 1, 2, 3...
+}
+
+const PERFT_CASES: PerftCase[] = [
+  {
+    name: 'start position',
+    fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+    counts: [20, 400, 8902, 197281],
+  },
+  {
+    name: 'kiwipete',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    counts: [48, 2039, 97862],
+  },
+  {
+    name: 'en passant and rook endgame',
+    fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+    counts: [14, 191, 2812, 43238],
+  },
+  {
+    name: 'promotions and castling under attack',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+    counts: [6, 264, 9467],
+  },
+  {
+    name: 'discovered checks',
+    fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+    counts: [44, 1486, 62379],
+  },
+  {
+    name: 'symmetrical middlegame',
+    fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+    counts: [46, 2079, 89890],
+  },
+];
+
+interface SearchCase {
+  name: string;
+  fen: string;
+  depth: number;
+}
+
+// Positions with one clearly best move, so both searches must agree on it
+const SEARCH_CASES: SearchCase[] = [
+  { name: 'queen under attack', fen: 'rnb1kbnr/pppp1ppp/8/4p1q1/3P4/8/PPP1PPPP/RNBQKBNR b KQkq - 0 3', depth: 3 },
+  { name: 'back-rank mate', fen: '3r2k1/5ppp/8/8/8/8/5PPP/6K1 b - - 0 1', depth: 3 },
+  { name: 'fool\'s mate', fen: 'rnbqkbnr/pppp1ppp/8/4p3/6P1/5P2/PPPPP2P/RNBQKBNR b KQkq - 0 2', depth: 3 },
+  { name: 'undefended rook', fen: 'r3k3/8/8/8/8/2n5/8/R3K2R b - - 0 1', depth: 3 },
+];
+
+interface TacticCase {
+  name: string;
+  fen: string;
+  solutions: string[]; // Any of these SAN moves solves it
+  level: number; // Weakest strength level that must find it
+}
+
+const TACTIC_CASES: TacticCase[] = [
+  { name: 'knight takes queen with check', fen: '4k3/7p/8/8/3n4/8/P1Q5/4K3 b - - 0 1', solutions: ['Nxc2+'], level: 1 },
+  { name: 'back-rank mate', fen: '3r2k1/5ppp/8/8/8/8/5PPP/6K1 b - - 0 1', solutions: ['Rd1#'], level: 1 },
+  // Qxd2+ wins a rook on paper but loses the queen to Kxd2 just past the horizon
+  { name: 'defended rook is poisoned', fen: '4k3/8/8/3q3N/8/8/3R4/4K3 b - - 0 1', solutions: ['Qxh5'], level: 2 },
+  { name: 'royal fork', fen: '4k3/7p/8/8/3n4/8/P7/Q3K3 b - - 0 1', solutions: ['Nc2+'], level: 5 },
+  { name: 'quiet mate in 2', fen: '4k3/8/1r6/r7/7K/8/8/8 b - - 0 1', solutions: ['Rg6'], level: 5 },
+  { name: 'mate in 3', fen: '4k3/8/7K/8/1r6/r7/8/8 b - - 0 1', solutions: ['Kf7', 'Rg4', 'Rg3'], level: 9 },
+  { name: 'smothered mate', fen: 'r5rk/6pp/7N/8/8/8/1q4PP/2Q3K1 w - - 0 1', solutions: ['Nf7#'], level: 1 },
+  { name: 'underpromotion to a knight mates', fen: '6nr/5Ppk/6pp/8/8/8/8/K7 w - - 0 1', solutions: ['f8=N#'], level: 1 },
+  { name: 'underpromotion dodges stalemate', fen: '8/6P1/8/8/8/8/2K5/k7 w - - 0 1', solutions: ['g8=R'], level: 5 },
+];
+
+const swapCase = (text: string) =>
+  text.replace(/[a-zA-Z]/g, (char) => (char === char.toLowerCase() ? char.toUpperCase() : char.toLowerCase()));
+
+// Flips the board vertically and swaps the colours, so the same tactic is played by the other side
+const mirrorFen = (fen: string): string => {
+  const [placement, turn, castling, ep, ...counters] = fen.split(' ');
+  const rights = 'KQkq'.split('').filter((right) => swapCase(castling).includes(right)).join('');
+  return [
+    swapCase(placement.split('/').reverse().join('/')),
+    turn === 'w' ? 'b' : 'w',
+    rights || '-',
+    ep === '-' ? '-' : ep[0] + (9 - Number(ep[1])),
+    ...counters,
+  ].join(' ');
+};
+
+const mirrorSan = (san: string) => san.replace(/[1-8]/g, (rank) => String(9 - Number(rank)));
+
+let failures = 0;
+
+const check = (passed: boolean, label: string, detail = '') => {
+  if (!passed) failures++;
+  console.log(`${passed ? 'ok  ' : 'FAIL'} ${label}${detail ? ` - ${detail}` : ''}`);
+};
+
+const walkKeys = (position: Position, depth: number): boolean => {
+  const [lo, hi] = position.computeKey();
+  if (lo !== position.keyLo || hi !== position.keyHi) return false;
+  if (depth === 0) return true;
+  for (const move of position.legalMoves()) {
+    position.makeMove(move);
+    const ok = walkKeys(position, depth - 1);
+    position.unmakeMove();
+    if (!ok) return false;
+  }
+  return true;
+};
+
+console.log('Perft');
+for (const { name, fen, counts } of PERFT_CASES) {
+  counts.forEach((expected, index) => {
+    const depth = index + 1;
+    const plain = perft(Position.fromFen(fen), depth);
+    const hashed = perft(Position.fromFen(fen), depth, new Map());
+    check(plain === expected && hashed === expected, `${name} depth ${depth}`, `expected ${expected}, got ${plain} plain / ${hashed} hashed`);
+  });
+}
+
+console.log('\nNotation and keys');
+for (const { name, fen } of PERFT_CASES) {
+  const position = Position.fromFen(fen);
+  const ours = position.legalMoves().map((move) => position.moveToSan(move)).sort();
+  const reference = new Chess(fen).moves().sort();
+  check(ours.join(' ') === reference.join(' '), `${name} SAN matches chess.js`);
+  check(walkKeys(position, 3), `${name} incremental keys`);
+}
+
+console.log('\nSearch with and without the transposition table');
+for (const { name, fen, depth } of SEARCH_CASES) {
+  clearTranspositionTable();
+  const withTable = search(new Chess(fen), { maxDepth: depth });
+  const withoutTable = search(new Chess(fen), { maxDepth: depth }, { useTranspositionTable: false });
+  check(
+    withTable.bestMove === withoutTable.bestMove,
+    `${name}: ${withTable.bestMove}`,
+    `${withTable.bestMove} with table vs ${withoutTable.bestMove} without`
+  );
+  console.log(`     nodes ${withTable.nodes} with table, ${withoutTable.nodes} without`);
+}
+
+console.log('\nTactics');
+for (const tactic of TACTIC_CASES) {
+  const mirrored = { ...tactic, fen: mirrorFen(tactic.fen), solutions: tactic.solutions.map(mirrorSan) };
+  for (const { name, fen, solutions, level } of [tactic, mirrored]) {
+    const side = fen.split(' ')[1] === 'w' ? 'White' : 'Black';
+    for (const strength of STRENGTH_LEVELS.slice(level - 1)) {
+      clearTranspositionTable();
+      const { bestMove, depth } = search(new Chess(fen), strengthLimits(strength));
+      check(
+        bestMove !== null && solutions.includes(bestMove),
+        `${name} (${side}) at level ${strength.level}`,
+        `expected ${solutions.join(' or ')}, got ${bestMove} at depth ${depth}`
+      );
+    }
+  }
+}
+
+// Seeded so the sampled choices, and therefore the checks, are the same on every run
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const cp = (score: { type: string; value: number }) => (score.type === 'cp' ? score.value : Math.sign(score.value) * 100000);
+
+console.log('\nStrength levels');
+check(
+  STRENGTH_LEVELS.every((strength, index) => strength.level === index + 1 && (index === 0 || strength.rating > STRENGTH_LEVELS[index - 1].rating)),
+  'levels are numbered in order with rising ratings'
+);
+const QUIET_FEN = 'r1bqkb1r/pppp1ppp/2n2n2/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 4 4';
+for (const strength of STRENGTH_LEVELS) {
+  clearTranspositionTable();
+  const result = search(new Chess(QUIET_FEN), { ...strengthLimits(strength), timeMs: undefined, maxDepth: Math.min(strength.maxDepth ?? 4, 4) });
+  const random = seededRandom(strength.level);
+  const picks = new Set<string>();
+  let worstLoss = 0;
+  for (let sample = 0; sample < 200; sample++) {
+    const chosen = chooseMove(result, strength, random)!;
+    picks.add(chosen.move);
+    worstLoss = Math.max(worstLoss, cp(result.lines[0].score) - cp(chosen.score));
+  }
+  const varies = strength.mistakeChance === 0 ? picks.size === 1 && picks.has(result.bestMove!) : picks.size > 1;
+  check(
+    worstLoss <= strength.maxMistakeLoss && varies,
+    `level ${strength.level} (${strength.rating}) picks ${[...picks].join(' ')}`,
+    `worst loss ${worstLoss}cp, allowed ${strength.maxMistakeLoss}cp`
+  );
+}
+
+console.log('\nPGN');
+const ROUND_TRIP_PGN = `[Event "Round trip"]
+[Site "?"]
+[Date "2024.01.02"]
+[Round "1"]
+[White "A"]
+[Black "B"]
+[Result "0-1"]
+[SetUp "1"]
+[FEN "r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3"]
+
+{A comment before the first move.} 3. Bb5!? a6 $6 (3... Nf6 4. O-O (4. d3 {Quiet.} Bc5 $14) Nxe4) 4. Ba4 Nf6 {Still book,
+over two lines.} 5. O-O?! Be7 $1 0-1`;
+const parsedGame = parsePgn(ROUND_TRIP_PGN);
+const [bishopMove, pawnMove] = parsedGame.moves;
+const knightLine = pawnMove.variations?.[0] ?? [];
+const nestedLine = knightLine[1]?.variations?.[0] ?? [];
+check(
+  parsedGame.headers.FEN?.endsWith(' w KQkq - 2 3') && parsedGame.comment === 'A comment before the first move.' && parsedGame.result === '0-1',
+  'the set-up position, the opening comment and the result are read'
+);
+check(bishopMove.nags?.join() === '5' && pawnMove.nags?.join() === '6' && parsedGame.moves[4].nags?.join() === '6', 'suffix glyphs and $ glyphs are read alike');
+check(
+  knightLine.map((move) => move.san).join(' ') === 'Nf6 O-O Nxe4' && nestedLine.map((move) => move.san).join(' ') === 'd3 Bc5' && nestedLine[0].comment === 'Quiet.' && nestedLine[1].nags?.join() === '14',
+  'a variation inside a variation keeps its moves, comment and glyph',
+  JSON.stringify(knightLine)
+);
+check(parsedGame.moves[3].comment === 'Still book, over two lines.', 'a comment over two lines is read as one', parsedGame.moves[3].comment);
+const writtenGame = writePgn(parsedGame);
+check(JSON.stringify(parsePgn(writtenGame)) === JSON.stringify(parsedGame), 'the written game reads back the same', writtenGame.split('\n').slice(-3).join(' '));
+check(writePgn(toPgn(fromPgn(parsePgn(writtenGame)))) === writtenGame, 'the game reads back the same through the game tree');
+
+console.log('\nClock');
+// White's first move starts Black's clock at 0; Black moves after 5 seconds
+const incrementClock = pressClock(pressClock(createClock(customTimeControl(1, 2, 0)), PieceColor.WHITE, 0), PieceColor.BLACK, 5000);
+check(
+  incrementClock.remainingMs[PieceColor.BLACK] === 57000 && incrementClock.remainingMs[PieceColor.WHITE] === 60000 && incrementClock.running === PieceColor.WHITE,
+  'the increment is added after the move, and the first move is free',
+  JSON.stringify(incrementClock.remainingMs)
+);
+const delayClock = pressClock(createClock(customTimeControl(1, 0, 3)), PieceColor.WHITE, 0);
+check(
+  timeLeft(delayClock, PieceColor.BLACK, 2000) === 60000 && timeLeft(delayClock, PieceColor.BLACK, 5000) === 58000 && pressClock(delayClock, PieceColor.BLACK, 2000).remainingMs[PieceColor.BLACK] === 60000,
+  'the delay is used up before the clock runs down'
+);
+const flaggedClock = checkFlag(delayClock, 63000);
+check(
+  checkFlag(delayClock, 62999) === delayClock && flaggedClock.flagged === PieceColor.BLACK && flaggedClock.remainingMs[PieceColor.BLACK] === 0 && pressClock(flaggedClock, PieceColor.BLACK, 64000) === flaggedClock,
+  'a side flags only once its time and delay are gone, and the clock then stops'
+);
+check(
+  flagResult(new Chess('4k3/8/8/8/8/8/8/4KR2 b - - 0 1'), PieceColor.BLACK) === '1-0' &&
+    flagResult(new Chess('4k3/8/8/8/8/8/8/4KN2 b - - 0 1'), PieceColor.BLACK) === '1/2-1/2' &&
+    flagResult(new Chess('4k3/8/8/8/8/8/8/4KNN1 b - - 0 1'), PieceColor.BLACK) === '1-0',
+  'a flag loses, but draws against a lone minor piece'
+);
+const blitzHeaders = timeControlHeaders(TIME_CONTROLS.find((control) => control.id === '3+2')!);
+const delayHeaders = timeControlHeaders(customTimeControl(5, 0, 2));
+check(
+  JSON.stringify(blitzHeaders) === '{"TimeControl":"180+2"}' && JSON.stringify(delayHeaders) === '{"TimeControl":"300+0","TimeDelay":"2"}',
+  'the time control is written base+increment, with any delay in a tag of its own',
+  JSON.stringify(delayHeaders)
+);
+
+console.log('\nPosition editor');
+const COUNTED_FEN = 'r3k2r/8/8/8/8/8/8/R3K2R b KQkq - 12 34';
+check(toFen(parseFen(COUNTED_FEN)) === COUNTED_FEN, 'the halfmove clock and move number are kept', toFen(parseFen(COUNTED_FEN)));
+// The problems found with a position, or none
+const positionErrors = (fen: string) => validatePosition(parseFen(fen));
+check(positionErrors(COUNTED_FEN).length === 0 && validatePosition(startPosition()).length === 0, 'legal positions pass');
+check(
+  positionErrors('8/8/8/8/8/8/8/4K3 w - - 0 1').some((error) => error.startsWith('Black needs exactly one king')) &&
+    positionErrors('4k3/8/8/8/8/8/8/3KK3 w - - 0 1').some((error) => error.startsWith('White needs exactly one king')),
+  'each side needs exactly one king'
+);
+check(positionErrors('3Pk3/8/8/8/8/8/8/p3K3 w - - 0 1').some((error) => error.includes('(a1, d8)')), 'pawns on the back ranks are refused', positionErrors('3Pk3/8/8/8/8/8/8/p3K3 w - - 0 1').join('; '));
+check(
+  positionErrors('r3k3/8/8/8/8/8/8/4K3 w q - 0 1').length === 0 && positionErrors('r3k3/8/8/8/8/8/8/4K3 w k - 0 1').some((error) => error.startsWith('Black kingside castling')),
+  'castling is allowed only with the king and rook at home'
+);
+check(
+  positionErrors('rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 2').length === 0 &&
+    positionErrors('rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq e6 0 2').some((error) => error.startsWith('e6 can\'t be the en passant square')),
+  'an en passant square needs a pawn that just passed it'
+);
+check(
+  positionErrors('4k3/4R3/8/8/8/8/8/4K3 w - - 0 1').some((error) => error === 'Black is in check but it is White to move') &&
+    positionErrors('4k3/4R3/8/8/8/8/8/4K3 b - - 0 1').length === 0,
+  'the side not to move may not be in check'
+);
+
+console.log('\nPuzzles');
+// Either rook mates on the back rank; the solution names only one
+const twoMates = '7k/6pp/8/8/8/8/8/RR4K1 w - - 0 1';
+const [jsonPuzzle] = parsePuzzleSet(JSON.stringify({ puzzles: [{ id: 'rooks', fen: twoMates, solution: ['a1a8'], themes: ['mateIn1'], rating: 900 }] }));
+check(jsonPuzzle.id === 'rooks' && jsonPuzzle.solution.join() === 'a1a8' && jsonPuzzle.rating === 900, 'a JSON puzzle set is read');
+const csvPuzzles = parsePuzzleSet(`ID,FEN,Solution,Themes,Rating\nrooks,${twoMates},a1a8,"mate mateIn1",900\nunrated,${twoMates},b1b8,,`);
+check(
+  csvPuzzles.length === 2 && csvPuzzles[0].themes.join() === 'mate,mateIn1' && csvPuzzles[1].rating === 1500 && csvPuzzles[1].themes.length === 0,
+  'a CSV puzzle set is read, with a default rating where none is given',
+  JSON.stringify(csvPuzzles.map(({ id, themes, rating }) => ({ id, themes, rating })))
+);
+const refusedSet = (text: string) => {
+  try {
+    parsePuzzleSet(text);
+    return false;
+  } catch {
+    return true;
+  }
+};
+check(
+  refusedSet(`fen,solution\n${twoMates},a1a9`) && refusedSet(`fen,solution\n${twoMates},a1a8 h8g8`) && refusedSet('fen,rating\nx,1'),
+  'a set with an illegal or incomplete solution, or no solution column, is refused'
+);
+const puzzleBoard = new Chess(twoMates);
+check(checkPuzzleMove(jsonPuzzle, 0, puzzleBoard, 'a1a8') === 'solved', "the solution's mate solves the puzzle");
+check(checkPuzzleMove(jsonPuzzle, 0, puzzleBoard, 'b1b8') === 'solved', 'another mate solves it too');
+check(
+  checkPuzzleMove(jsonPuzzle, 0, puzzleBoard, 'a1a7') === 'wrong' && checkPuzzleMove(jsonPuzzle, 0, puzzleBoard, 'a1h8') === 'wrong',
+  'a move that does not mate, or is illegal, is wrong'
+);
+const solver = { ...INITIAL_PUZZLE_STATS, rating: 1500 };
+const unaided = recordPuzzleResult(solver, 1500, 1);
+const hinted = recordPuzzleResult(unaided, 1500, 0.7);
+const missed = recordPuzzleResult(solver, 1900, 0);
+check(unaided.rating === 1516 && unaided.streak === 1 && unaided.bestStreak === 1 && unaided.solved === 1, 'an unaided solve against an equal puzzle gains 16 points', JSON.stringify(unaided));
+check(hinted.streak === 0 && hinted.bestStreak === 1 && hinted.solved === 2 && hinted.rating < unaided.rating + 16, 'a hinted solve counts but breaks the streak', JSON.stringify(hinted));
+check(missed.rating === 1497 && missed.failed === 1, 'missing a much harder puzzle costs little', String(missed.rating));
+const spread = [400, 410, 420, 1800, 2200].map((rating, index) => ({ ...jsonPuzzle, id: String(index), rating }));
+check(
+  startingPuzzleStats(INITIAL_PUZZLE_STATS, spread).rating === 420 && startingPuzzleStats(unaided, spread) === unaided,
+  'a new solver starts at the median rating and a returning one keeps theirs'
+);
+
+// The positions a sequence of moves passes through, from the start position on
+const positionsAfter = (moves: string) => {
+  const board = new Chess();
+  return [board.fen(), ...moves.split(' ').map((move) => (board.move(move), board.fen()))];
+};
+
+console.log('\nOpening book');
+const OPENING_CASES = [
+  { moves: 'e4 e5 Nf3 Nc6 Bb5 a6', eco: 'C60' },
+  { moves: 'c4 e6 d4 Nf6 Nc3 Bb4', eco: 'E20' },
+  { moves: 'Nf3 d5 d4 Nf6 Bf4', eco: 'D02' },
+  { moves: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6 Be3 e5 Nb3', eco: 'B90' },
+];
+for (const { moves, eco } of OPENING_CASES) {
+  const opening = identifyOpening(positionsAfter(moves));
+  check(opening?.eco === eco, `${moves} is ${eco}`, opening ? `${opening.eco} ${opening.name}` : 'no opening');
+}
+const openingVariety: number[] = [];
+for (const strength of STRENGTH_LEVELS) {
+  const random = seededRandom(strength.level);
+  const firstMoves = Array.from({ length: 200 }, () => chooseBookMove(new Chess(), strength, random));
+  const distinct = new Set(firstMoves).size;
+  openingVariety.push(distinct);
+  const board = new Chess();
+  let plies = 0;
+  for (let move = chooseBookMove(board, strength, random); move; move = chooseBookMove(board, strength, random)) {
+    board.move(move);
+    plies++;
+  }
+  check(
+    firstMoves.every((move) => move !== null) && plies <= strength.bookPlies,
+    `level ${strength.level} opens with ${distinct} different moves`,
+    `left the book after ${plies} plies, allowed ${strength.bookPlies}`
+  );
+}
+check(openingVariety[0] > openingVariety[openingVariety.length - 1], 'the weakest level varies its first move more than the strongest');
+
+console.log('\nGame review');
+// A game whose positions the stub engine scores as given, for the side to move
+const scriptedReview = (sans: string[], scores: Score[], bestMoves: (string | null)[] = []) => {
+  let tree = createGameTree();
+  let nodeId = tree.rootId;
+  const fens = [tree.nodes[nodeId].fen];
+  for (const san of sans) {
+    ({ tree, nodeId } = addMove(tree, nodeId, san));
+    fens.push(tree.nodes[nodeId].fen);
+  }
+  const analyze = async (fen: string): Promise<SearchResult> => {
+    const index = fens.indexOf(fen);
+    const bestMove = bestMoves[index] ?? null;
+    return { bestMove, score: scores[index], depth: 1, nodes: 1, pv: bestMove ? [bestMove] : [], timeMs: 0, lines: [] };
+  };
+  return reviewGame(tree, nodeId, analyze);
+};
+const centipawns = (value: number): Score => ({ type: 'cp', value });
+// Each move gives away 10, 11, 50, 51, 100, 101, 300 and 301 centipawns in turn; the last is the
+// engine's own move, which is best whatever its score
+const thresholdReview = await scriptedReview(
+  ['e4', 'e5', 'Nf3', 'Nc6', 'Bc4', 'Nf6', 'd3', 'Bc5', 'O-O'],
+  [0, 10, 1, 49, 2, 98, 3, 297, 4, 200].map(centipawns),
+  [null, null, null, null, null, null, null, null, 'O-O']
+);
+const labels = thresholdReview.moves.map((move) => `${move.loss}:${move.classification}`).join(' ');
+check(
+  labels === '10:best 11:good 50:good 51:inaccuracy 100:inaccuracy 101:mistake 300:mistake 301:blunder 0:best',
+  'moves are labelled by the centipawns they give away',
+  labels
+);
+check(thresholdReview.keyMoments.join() === '5,6,7', 'the mistakes and the blunder are the key moments', thresholdReview.keyMoments.join());
+check(
+  thresholdReview.accuracy.white === 75 && thresholdReview.accuracy.black === 68,
+  'accuracy per side is the average of lichess\'s move accuracies',
+  `${thresholdReview.accuracy.white} / ${thresholdReview.accuracy.black}`
+);
+check(Math.abs(winPercent(100) - 59.1) < 0.05 && winPercent(0) === 50 && winPercent(5000) === winPercent(1000), 'winning chances follow lichess\'s curve, capped at ten pawns');
+const winningReview = await scriptedReview(['e4'], [{ type: 'mate', value: 5 }, centipawns(-1500)], ['d4']);
+check(
+  scoreToCp({ type: 'mate', value: 5 }) === 9995 && winningReview.moves[0].classification === 'best' && winningReview.moves[0].betterMove === null,
+  'trading a mate for a lead of over ten pawns gives nothing away'
+);
+
+console.log('\nCoach');
+const COACH_CASES: CoachRequest[] = [
+  { kind: 'commentary', fen: positionsAfter('e4 e5 Nf3 Nc6 Bb5').pop()!, lastMove: 'Bb5', history: 'e4 e5 Nf3 Nc6 Bb5'.split(' '), opening: 'C60 Ruy Lopez' },
+  { kind: 'commentary', fen: positionsAfter('f3 e5 g4 Qh4#').pop()!, lastMove: 'Qh4#', history: 'f3 e5 g4 Qh4#'.split(' ') },
+  { kind: 'hint', fen: '4k3/8/8/8/8/8/8/3QK3 w - - 0 1', engineMove: 'Qd7+', line: ['Qd7+', 'Kf8'] },
+  { kind: 'hint', fen: positionsAfter('e4 e5 Nf3 Nc6 Bc4 Nf6').pop()!, engineMove: 'Ng5', line: ['Ng5', 'd5', 'exd5'] },
+];
+for (const request of COACH_CASES) {
+  const options = { model: '', temperature: DEFAULT_COACH_SETTINGS.temperature };
+  const first = await offlineCoach.ask(request, options);
+  const second = await offlineCoach.ask(request, options);
+  check(first.length > 0 && first === second, `offline ${request.kind}: ${first}`);
+}
+const HINT_FEN = new Chess().fen();
+const hintAnswer = (fields: object) => JSON.stringify({ theme: 'Centre', pieceHint: 'Look at your e-pawn.', move: 'e4', explanation: 'Takes the centre.', ...fields });
+const HINT_ANSWERS = [
+  { text: '```json\n' + hintAnswer({}) + '\n```', valid: true, label: 'a fenced hint is read' },
+  { text: hintAnswer({ move: 'e2e4' }), valid: true, label: 'a hint move in another notation is read' },
+  { text: hintAnswer({ move: 'e5' }), valid: false, label: 'an illegal hint move is rejected' },
+  { text: hintAnswer({ move: 'd4' }), valid: false, label: 'a legal hint move other than the engine\'s is rejected' },
+  { text: hintAnswer({ theme: '' }), valid: false, label: 'a hint without a theme is rejected' },
+  { text: 'Play e4!', valid: false, label: 'a hint that is not JSON is rejected' },
+];
+for (const { text, valid, label } of HINT_ANSWERS) {
+  let accepted = true;
+  try {
+    parseHint(text, HINT_FEN, 'e4');
+  } catch {
+    accepted = false;
+  }
+  check(accepted === valid, label);
+}
+
+const failingCoach: CoachProvider = {
+  id: 'gemini',
+  name: 'Stub coach',
+  defaultModel: 'stub',
+  ask: async () => {
+    throw new Error('offline');
+  },
+};
+const fallbackAnswer = await askCoach(failingCoach, DEFAULT_COACH_SETTINGS, COACH_CASES[0]);
+check(
+  fallbackAnswer === (await offlineCoach.ask(COACH_CASES[0], { model: '', temperature: 0 })),
+  'a failing provider falls back to the offline coach',
+  fallbackAnswer
+);
+const illegalCoach: CoachProvider = { ...failingCoach, ask: async () => hintAnswer({ move: 'Ke2' }) };
+const fallbackHint = await requestHint(illegalCoach, DEFAULT_COACH_SETTINGS, { kind: 'hint', fen: HINT_FEN, engineMove: 'e4', line: ['e4'] });
+check(fallbackHint.move.san === 'e4', 'an illegal hint falls back to the offline coach', fallbackHint.move.san);
+const otherMoveCoach: CoachProvider = { ...failingCoach, ask: async () => hintAnswer({ move: 'd4' }) };
+const groundedHint = await requestHint(otherMoveCoach, DEFAULT_COACH_SETTINGS, { kind: 'hint', fen: HINT_FEN, engineMove: 'Nf3', line: ['Nf3'] });
+check(groundedHint.move.san === 'Nf3', 'a hint on another move than the engine\'s falls back to the offline coach', groundedHint.move.san);
+const puzzleHintQueue = createCoachQueue({ debounceMs: 0 });
+const puzzleHints = [
+  await requestPuzzleHint(jsonPuzzle, 0, new Chess(jsonPuzzle.fen), 1, offlineCoach, DEFAULT_COACH_SETTINGS, puzzleHintQueue),
+  await requestPuzzleHint(jsonPuzzle, 0, new Chess(jsonPuzzle.fen), 2, offlineCoach, DEFAULT_COACH_SETTINGS, puzzleHintQueue),
+];
+check(
+  puzzleHints[0].startsWith('Theme:') && puzzleHints[1].includes('a1') && puzzleHints.every((text) => !text.includes('Ra8')),
+  'a puzzle hint names the theme, then the piece, but never the move',
+  puzzleHints.join(' / ')
+);
+
+let stubCalls = 0;
+let stubError: Error | null = null;
+const countingCoach: CoachProvider = {
+  ...failingCoach,
+  ask: async (request) => {
+    stubCalls++;
+    if (stubError) throw stubError;
+    return `stub ${request.fen}`;
+  },
+};
+const queue = createCoachQueue({ debounceMs: 10 });
+const dropped = (promise: Promise<unknown>) => promise.then(() => false, (error) => isAbortError(error));
+const [older, newer] = [COACH_CASES[0], COACH_CASES[1]].map((request) => queue.ask('commentary', countingCoach, DEFAULT_COACH_SETTINGS, request));
+check((await dropped(older)) && (await newer) === `stub ${COACH_CASES[1].fen}` && stubCalls === 1, 'a newer coach request replaces an older one', `${stubCalls} call(s)`);
+await queue.ask('commentary', countingCoach, DEFAULT_COACH_SETTINGS, COACH_CASES[1]);
+check(stubCalls === 1, 'a repeated coach request is answered from the cache', `${stubCalls} call(s)`);
+const unreadable = (text: string) => {
+  if (text.startsWith('stub')) throw new Error('Unreadable answer');
+  return text;
+};
+await queue.ask('hint', countingCoach, DEFAULT_COACH_SETTINGS, COACH_CASES[2], unreadable);
+await queue.ask('hint', countingCoach, DEFAULT_COACH_SETTINGS, COACH_CASES[2], unreadable);
+check(stubCalls === 3, 'an answer that doesn\'t read is asked for again rather than cached', `${stubCalls} call(s)`);
+
+stubError = new Error('429 RESOURCE_EXHAUSTED');
+const quotaAnswer = await queue.ask('commentary', countingCoach, DEFAULT_COACH_SETTINGS, COACH_CASES[0]);
+const backedOffAnswer = await queue.ask('hint', countingCoach, DEFAULT_COACH_SETTINGS, COACH_CASES[2]);
+check(
+  stubCalls === 4 && quotaAnswer === (await offlineCoach.ask(COACH_CASES[0], { model: '', temperature: 0 })) && backedOffAnswer.includes('Qd7+'),
+  'a provider over its quota is left alone while the offline coach answers',
+  `${stubCalls} call(s)`
+);
+check(isQuotaError({ error: { code: 429, status: 'RESOURCE_EXHAUSTED' } }), 'a quota error is recognised from the API error fields alone');
+const cancelled = queue.ask('commentary', countingCoach, DEFAULT_COACH_SETTINGS, COACH_CASES[3]);
+queue.cancelAll();
+check(await dropped(cancelled), 'resetting cancels coach requests');
+
+console.log('\nAnnotations');
+const ANNOTATED_PGN = '{[%csl Ge4] Start} 1. e4 {[%cal Gg1f3,Rd7d5] [%csl Yd5] The centre} e5 (1... c5 {[%cal Bb1c3]}) 2. Nf3 *';
+const annotatedTree = fromPgn(parsePgn(ANNOTATED_PGN));
+const [annotatedE4] = Object.values(annotatedTree.nodes).filter((node) => node.san === 'e4');
+const [annotatedC5] = Object.values(annotatedTree.nodes).filter((node) => node.san === 'c5');
+const describeAnnotations = (annotations: BoardAnnotation[] = []) => annotations.map(({ color, from, to }) => `${color}${from}${to}`).join(',');
+check(
+  describeAnnotations(annotatedE4.annotations) === 'Gg1f3,Rd7d5,Yd5d5' && annotatedE4.comment === 'The centre',
+  'drawings are read from a move comment apart from its text',
+  `${describeAnnotations(annotatedE4.annotations)} "${annotatedE4.comment}"`
+);
+check(
+  describeAnnotations(annotatedTree.nodes[annotatedTree.rootId].annotations) === 'Ge4e4' && describeAnnotations(annotatedC5.annotations) === 'Bb1c3' && annotatedC5.comment === undefined,
+  'drawings are read before the first move and in variations'
+);
+const rewritten = writePgn(toPgn(annotatedTree));
+check(writePgn(toPgn(fromPgn(parsePgn(rewritten)))) === rewritten && rewritten.includes('{[%csl Yd5] [%cal Gg1f3,Rd7d5] The centre}'), 'drawings are written back as PGN commands', rewritten.split('\n').pop());
+const arrow: BoardAnnotation = { from: 'e2', to: 'e4', color: 'G' };
+const recoloured = toggleAnnotation([arrow], { ...arrow, color: 'R' });
+check(toggleAnnotation([arrow], arrow).length === 0 && recoloured.length === 1 && recoloured[0].color === 'R', 'drawing an arrow again removes it, in another colour recolours it');
+const engineArrows = describeAnnotations(engineLineAnnotations(new Chess().fen(), ['e4', 'e5', 'Nf3']));
+const staleArrows = describeAnnotations(engineLineAnnotations(new Chess().fen(), ['Nf3', 'Ke7']));
+check(engineArrows === 'Be2e4,Re7e5' && staleArrows === 'Bg1f3', 'the engine\'s move and the threat after it are drawn, as far as the line fits', `${engineArrows} / ${staleArrows}`);
+
+console.log('\nGame controller');
+// The built-in engine's search run in this process instead of a worker
+const inProcessEngine: EngineProvider = {
+  id: 'builtin',
+  name: 'In-process engine',
+  playMove: async (fen) => search(new Chess(fen), { maxDepth: 2 }),
+  analyze: async (fen, limits) => search(new Chess(fen), limits),
+};
+const gameController = createGameController({
+  getEngine: () => inProcessEngine,
+  getCoach: () => offlineCoach,
+  queue: createCoachQueue({ debounceMs: 0 }),
+  random: () => 0, // The coach talks about every move
+});
+const gameEvents: GameEvent[] = [];
+gameController.subscribe((event) => gameEvents.push(event));
+// Resolves with the controller's next event that matches
+const nextEvent = (matches: (event: GameEvent) => boolean) =>
+  new Promise<GameEvent>((resolve) => {
+    const unsubscribe = gameController.subscribe((event) => {
+      if (!matches(event)) return;
+      unsubscribe();
+      resolve(event);
+    });
+  });
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+let botReply = nextEvent((event) => event.type === 'move' && event.byBot);
+const playerNode = gameController.move('e2', 'e4');
+await botReply;
+await settle();
+let gameState = gameController.getState();
+check(playerNode !== null && gameState.game.history().length === 2 && gameState.playerToMove, 'the bot answers the player\'s move', gameState.game.history().join(' '));
+check(gameController.move('e1', 'e3') === null && gameState === gameController.getState(), 'an illegal move is refused');
+const commentary = gameEvents.filter((event) => event.type === 'commentary');
+check(
+  commentary.length > 0 && commentary.every((event) => gameState.tree.nodes[event.nodeId].comment === event.text),
+  'the coach\'s commentary is kept on the move it is about',
+  `${commentary.length} comment(s)`
+);
+check(gameController.takeBack() && gameController.getState().game.history().length === 0, 'taking back undoes the player\'s move and the bot\'s reply');
+
+gameController.pause();
+check(!gameController.getState().playerToMove && gameController.move('e2', 'e4') === null, 'a paused game takes no moves');
+gameController.resume();
+botReply = nextEvent((event) => event.type === 'move' && event.byBot);
+gameController.newGame({ side: PieceColor.BLACK });
+await botReply;
+gameState = gameController.getState();
+check(gameState.game.history().length === 1 && gameState.playerToMove, 'the bot opens when the player takes Black');
+
+const gameOver = nextEvent((event) => event.type === 'gameOver');
+gameController.newGame({ side: PieceColor.WHITE, startFen: '6k1/5ppp/8/8/8/8/5PPP/R5K1 w - - 0 1' });
+gameController.move('a1', 'a8');
+const mate = await gameOver;
+check(
+  mate.type === 'gameOver' && mate.outcome.result === '1-0' && gameController.gameRecord().result === '1-0' && !gameController.getState().thinking,
+  'checkmate ends the game with its result',
+  mate.type === 'gameOver' ? mate.outcome.reason : mate.type
+);
+// Back to the start for another line: the mate stays in the tree, but the live game isn't over
+gameController.takeBack();
+botReply = nextEvent((event) => event.type === 'move' && event.byBot);
+gameController.move('g1', 'f1');
+await botReply;
+check(gameController.gameRecord().result === '*', 'the record\'s result is the live line\'s, not the main line\'s', gameController.gameRecord().result);
+
+gameController.newGame();
+gameController.setTimeControl(TIME_CONTROLS[0]);
+botReply = nextEvent((event) => event.type === 'move' && event.byBot);
+gameController.move('d2', 'd4');
+await botReply;
+gameController.tick(Date.now() + 3600000);
+gameState = gameController.getState();
+check(gameState.outcome?.result === '0-1' && gameController.gameRecord().headers.Termination === 'time forfeit', 'running out of time loses the game', gameState.outcome?.reason);
+await settle();
+
+const afterCapture = new Chess();
+['e4', 'd5', 'exd5', 'Qxd5'].forEach((san) => afterCapture.move(san));
+const captured = capturedPieces(afterCapture, new Chess().fen());
+check(captured.w.join('') === 'p' && captured.b.join('') === 'p', 'captured pieces are counted from the starting position', JSON.stringify(captured));
+check(gameOutcome(new Chess('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1'))?.result === '1/2-1/2', 'stalemate is a draw');
+
+let analyzeCalls = 0;
+const analysisController = createAnalysisController({
+  getEngine: () => ({ ...inProcessEngine, analyze: async (fen, limits) => (analyzeCalls++, search(new Chess(fen), limits)) }),
+  evalLimits: { maxDepth: 2 },
+  reviewLimits: { maxDepth: 2 },
+});
+const nextAnalysisEvent = (type: AnalysisEvent['type']) =>
+  new Promise<AnalysisEvent>((resolve) => {
+    const unsubscribe = analysisController.subscribe((event) => {
+      if (event.type !== type) return;
+      unsubscribe();
+      resolve(event);
+    });
+  });
+const analysedTree = fromPgn(parsePgn('1. e4 e5 2. Nf3 Nc6 *'));
+const analysedEnd = lineEnd(analysedTree, analysedTree.rootId);
+const evaluated = nextAnalysisEvent('evaluation');
+analysisController.evaluate(analysedEnd, boardAt(analysedTree, analysedEnd).fen(), { withLine: true });
+await evaluated;
+const { evaluations: analysedEvaluations, engineLines } = analysisController.getState();
+analysisController.evaluate(analysedEnd, boardAt(analysedTree, analysedEnd).fen(), { withLine: true });
+check(
+  analysedEvaluations[analysedEnd] !== undefined && engineLines[analysedEnd]?.length > 0 && analyzeCalls === 1,
+  'a position is evaluated once, with the engine\'s line',
+  `${analysedEvaluations[analysedEnd]} ${engineLines[analysedEnd]?.join(' ')}`
+);
+const reviewed = nextAnalysisEvent('reviewDone');
+analysisController.startReview(analysedTree, analysedEnd);
+await reviewed;
+const analysisState = analysisController.getState();
+check(
+  analysisState.review?.moves.length === 4 && analysisState.reviewProgress === null && getPath(analysedTree, analysedEnd).every((node) => analysisState.evaluations[node.id] !== undefined),
+  'a review rates every move and fills in the evaluations',
+  `${analysisState.review?.moves.length} move(s)`
+);
+analysisController.startReview(analysedTree, analysedEnd);
+analysisController.cancelReview();
+await settle();
+check(analysisController.getState().reviewProgress === null && analysisController.getState().review === analysisState.review, 'a cancelled review leaves the last one in place');
+analysisController.clearReview();
+check(analysisController.getState().review === null, 'clearing forgets the review');
+
+console.log('\nMatch statistics');
+const evenMatch = eloDifference({ wins: 30, draws: 40, losses: 30 });
+const strongerMatch = eloDifference({ wins: 60, draws: 20, losses: 20 });
+check(evenMatch.elo === 0 && Math.abs(evenMatch.margin - 53.2) < 0.5, 'an even score is 0 Elo with a margin from its spread', `0 ± ${evenMatch.margin.toFixed(1)}`);
+check(Math.abs(strongerMatch.elo - 147.2) < 0.5, 'a 70% score is about +147 Elo', strongerMatch.elo.toFixed(1));
+const accepted = sprt({ wins: 600, draws: 200, losses: 200 });
+const rejected = sprt({ wins: 200, draws: 200, losses: 600 });
+const undecided = sprt({ wins: 3, draws: 4, losses: 3 });
+check(accepted.verdict === 'H1' && rejected.verdict === 'H0' && undecided.verdict === null, 'the SPRT accepts a clear gain, rejects a clear loss and waits on a few games', `${accepted.llr.toFixed(1)} / ${rejected.llr.toFixed(1)} / ${undecided.llr.toFixed(2)}`);
+const sweep = eloDifference({ wins: 10, draws: 0, losses: 0 });
+check(sweep.elo === Infinity && sweep.margin === Infinity, 'a clean sweep has no finite estimate or margin', `${sweep.elo} ± ${sweep.margin}`);
+const [firstWin, manyWins, allDrawn] = [sprt({ wins: 1, draws: 0, losses: 0 }), sprt({ wins: 1000, draws: 0, losses: 0 }), sprt({ wins: 0, draws: 5, losses: 0 })];
+check(firstWin.verdict === null && manyWins.verdict === 'H1' && allDrawn.verdict === null, 'the SPRT waits on a few identical scores and accepts a long run of wins', `${firstWin.llr.toFixed(2)} / ${manyWins.llr.toFixed(1)} / ${allDrawn.llr.toFixed(2)}`);
+check(
+  adjudicate([0, 1200, 1200, 1200, 1200, 1200, 1200])?.result === '1-0' && adjudicate([1200, 1200, 1200, null, 1200, 1200]) === null,
+  'a game is adjudicated only after six plies agreeing on a winner'
+);
+check(adjudicate(new Array(80).fill(5))?.result === '1/2-1/2' && adjudicate(new Array(79).fill(5)) === null, 'a level game is adjudicated drawn from move 40');
+const variant = parseMatchEngine('level=7,mobility=0.5,kingShelter=0');
+let badSpec = false;
+try {
+  parseMatchEngine('level=7,speed=2');
+} catch {
+  badSpec = true;
+}
+check(variant.level === 7 && variant.weights.mobility === 0.5 && variant.weights.kingShelter === 0 && badSpec, 'engine settings are read and unknown ones refused', variant.name);
+const weighted = Position.fromFen('4k3/8/8/8/8/8/8/3QK3 w - - 0 1');
+const fullEvaluation = evaluate(weighted);
+setEvaluationWeights({ material: 0 });
+const withoutMaterial = evaluate(weighted);
+const withoutMaterialTerms = explainEvaluation(weighted.fen());
+setEvaluationWeights();
+check(withoutMaterial !== fullEvaluation && evaluate(weighted) === fullEvaluation, 'evaluation weights change the score and reset to the tuned one');
+const termSum = EVALUATION_TERMS.reduce((sum, term) => sum + withoutMaterialTerms.terms[term].white - withoutMaterialTerms.terms[term].black, 0);
+check(
+  withoutMaterialTerms.terms.material.white === 0 && Math.abs(termSum - withoutMaterialTerms.total) <= EVALUATION_TERMS.length,
+  'the breakdown of a reweighted evaluation adds up to its total',
+  `${termSum} / ${withoutMaterialTerms.total}`
+);
+const badOpenings = MATCH_OPENINGS.filter(({ fen }) => {
+  try {
+    return new Chess(fen).isGameOver();
+  } catch {
+    return true;
+  }
+});
+check(MATCH_OPENINGS.length >= 20 && badOpenings.length === 0, 'the match openings are legal positions with play left', `${MATCH_OPENINGS.length} openings`);
+
+if (failures > 0) {
+  console.error(`\n${failures} check(s) failed`);
+  process.exit(1);
+}
+console.log('\nAll checks passed');
@@ -0,0 +1,208 @@
+// UCI front-end for the built-in engine, run with `npx tsx scripts/uci.ts` (or `npm run --silent uci`).
+// Speaks the Universal Chess Interface over stdin/stdout so the engine can be driven by chess GUIs,
+// match runners and scripts. Supported: uci, isready, ucinewgame, position, go, stop, setoption
+// (Skill Level), quit.
+import { createInterface } from 'node:readline';
+import { Worker } from 'node:worker_threads';
+import { Chess } from 'chess.js';
+import { budgetTime } from '../services/engine';
+import { STRENGTH_LEVELS, getStrengthLevel, strengthLimits } from '../services/strength';
+import { SearchLimits } from '../types';
+import { INITIAL_FEN } from '../constants';
+import type { UciWorkerMessage, UciWorkerRequest } from './uciWorker';
+
+const MAX_SKILL = STRENGTH_LEVELS.length;
+
+const stopBuffer = new SharedArrayBuffer(4);
+const stopFlag = new Int32Array(stopBuffer);
+// The worker is TypeScript too. Node does not pass tsx's loader on to worker threads, so a
+// small bootstrap registers it before importing the worker module.
+const workerUrl = new URL('./uciWorker.ts', import.meta.url).href;
+const tsxUrl = import.meta.resolve('tsx/esm/api');
+const worker = new Worker(
+  `import(${JSON.stringify(tsxUrl)}).then(({ register }) => { register(); return import(${JSON.stringify(workerUrl)}); });`,
+  { eval: true, workerData: { stopBuffer } }
+);
+
+let fen = INITIAL_FEN;
+let moves: string[] = [];
+let skill = MAX_SKILL;
+let searching = false;
+// Under `go infinite` the best move is held back until the GUI sends `stop`
+let infinite = false;
+let heldBestMove: string | null = null;
+// A `go` that arrives while the previous search is still winding down after `stop`
+let queuedGo: string[] | null = null;
+let inputClosed = false;
+
+const send = (line: string) => process.stdout.write(`${line}\n`);
+
+worker.on('message', (message: UciWorkerMessage) => {
+  if (message.type === 'info') {
+    send(message.line);
+    return;
+  }
+  const line = `bestmove ${message.move}${message.ponder ? ` ponder ${message.ponder}` : ''}`;
+  if (infinite && Atomics.load(stopFlag, 0) === 0) {
+    heldBestMove = line;
+    return;
+  }
+  finishSearch(line);
+});
+
+worker.on('error', (error) => {
+  send(`info string Search failed: ${error.message}`);
+  process.exit(1);
+});
+
+// Value of a `go` parameter such as `wtime 60000`, or undefined when absent
+const numberAfter = (tokens: string[], name: string): number | undefined => {
+  const index = tokens.indexOf(name);
+  const value = index === -1 ? NaN : Number(tokens[index + 1]);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+const handlePosition = (tokens: string[]) => {
+  const movesIndex = tokens.indexOf('moves');
+  const head = movesIndex === -1 ? tokens : tokens.slice(0, movesIndex);
+  const nextMoves = movesIndex === -1 ? [] : tokens.slice(movesIndex + 1);
+
+  let nextFen: string;
+  if (head[0] === 'startpos') nextFen = INITIAL_FEN;
+  else if (head[0] === 'fen') nextFen = head.slice(1).join(' ');
+  else return send('info string Expected "position startpos" or "position fen <fen>"');
+
+  // Validate here so a bad position is reported instead of failing the next search
+  try {
+    const game = new Chess(nextFen);
+    nextMoves.forEach((move) => game.move(move));
+  } catch (error) {
+    return send(`info string Invalid position: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  fen = nextFen;
+  moves = nextMoves;
+};
+
+const handleGo = (tokens: string[]) => {
+  if (searching) {
+    queuedGo = tokens;
+    return;
+  }
+
+  const game = new Chess(fen);
+  moves.forEach((move) => game.move(move));
+  const white = game.turn() === 'w';
+
+  const limits: SearchLimits = {};
+  const depth = numberAfter(tokens, 'depth');
+  const nodes = numberAfter(tokens, 'nodes');
+  const movetime = numberAfter(tokens, 'movetime');
+  const remaining = numberAfter(tokens, white ? 'wtime' : 'btime');
+  if (depth !== undefined) limits.maxDepth = depth;
+  if (nodes !== undefined) limits.nodes = nodes;
+  if (movetime !== undefined) limits.timeMs = movetime;
+  else if (remaining !== undefined) {
+    limits.timeMs = budgetTime(remaining, numberAfter(tokens, white ? 'winc' : 'binc'), numberAfter(tokens, 'movestogo'));
+  }
+  infinite = tokens.includes('infinite');
+
+  // Below full strength, search the way that level does and let it pick among its candidates
+  let level: number | null = null;
+  if (skill < MAX_SKILL) {
+    level = skill;
+    const strength = strengthLimits(getStrengthLevel(skill));
+    const unbounded = !infinite && Object.keys(limits).length === 0;
+    Object.assign(limits, {
+      maxDepth: Math.min(limits.maxDepth ?? Infinity, strength.maxDepth ?? Infinity),
+      timeMs: unbounded ? strength.timeMs : limits.timeMs,
+      multiPv: strength.multiPv,
+      quiescenceDepth: strength.quiescenceDepth,
+    });
+    if (limits.maxDepth === Infinity) delete limits.maxDepth;
+  } else if (!infinite && Object.keys(limits).length === 0) {
+    // A bare `go` plays at full strength with the top level's thinking time
+    limits.timeMs = getStrengthLevel(MAX_SKILL).timeMs;
+  }
+
+  Atomics.store(stopFlag, 0, 0);
+  searching = true;
+  heldBestMove = null;
+  const request: UciWorkerRequest = { type: 'go', fen, moves, limits, level };
+  worker.postMessage(request);
+};
+
+const handleSetOption = (tokens: string[]) => {
+  const valueIndex = tokens.indexOf('value');
+  const name = tokens.slice(1, valueIndex === -1 ? undefined : valueIndex).join(' ').toLowerCase();
+  const value = Number(tokens[valueIndex + 1]);
+  if (name !== 'skill level') return send(`info string Unknown option ${name}`);
+  if (valueIndex === -1 || !Number.isFinite(value)) return send('info string Skill Level needs a numeric value');
+  skill = getStrengthLevel(value).level;
+};
+
+const finishSearch = (bestMoveLine: string) => {
+  searching = false;
+  heldBestMove = null;
+  send(bestMoveLine);
+  if (queuedGo) {
+    const tokens = queuedGo;
+    queuedGo = null;
+    handleGo(tokens);
+  } else if (inputClosed) {
+    process.exit(0);
+  }
+};
+
+const stop = () => {
+  if (!searching) return;
+  Atomics.store(stopFlag, 0, 1);
+  if (heldBestMove) finishSearch(heldBestMove);
+};
+
+const handleCommand = (line: string) => {
+  const [command, ...tokens] = line.trim().split(/\s+/);
+  switch (command) {
+    case 'uci':
+      send('id name Coach Chess');
+      send('id author Coach Chess contributors');
+      send(`option name Skill Level type spin default ${MAX_SKILL} min 1 max ${MAX_SKILL}`);
+      send('uciok');
+      break;
+    case 'isready':
+      send('readyok');
+      break;
+    case 'ucinewgame':
+      worker.postMessage({ type: 'newgame' } satisfies UciWorkerRequest);
+      fen = INITIAL_FEN;
+      moves = [];
+      break;
+    case 'position':
+      handlePosition(tokens);
+      break;
+    case 'go':
+      handleGo(tokens);
+      break;
+    case 'stop':
+      stop();
+      break;
+    case 'setoption':
+      handleSetOption(tokens);
+      break;
+    case 'quit':
+      stop();
+      process.exit(0);
+    case '':
+      break;
+    default:
+      send(`info string Unknown command ${command}`);
+  }
+};
+
+const input = createInterface({ input: process.stdin });
+input.on('line', handleCommand);
+// Finish a search already asked for before leaving when input ends (e.g. piped commands)
+input.on('close', () => {
+  inputClosed = true;
+  if (infinite) stop();
+  if (!searching) process.exit(0);
+});
@@ -0,0 +1,308 @@
+// Local relay between the app and an external UCI engine, run with
+//   npm run --silent uci-bridge -- [--port 8765] [--origin http://localhost:3000] <engine command> [engine args...]
+// e.g. `npm run --silent uci-bridge -- stockfish`. It spawns the engine, listens on 127.0.0.1 and
+// answers POST /search (see BridgeSearchRequest) with newline-delimited progress and a final
+// result, so the browser can use the engine through services/uciBridgeEngine.ts. Only pages from
+// the Vite dev server, or the origins given with --origin, may use it.
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import { Chess } from 'chess.js';
+import { getStrengthLevel, STRENGTH_LEVELS } from '../services/strength';
+import { EngineClock, Score, SearchLimits, SearchLine, SearchProgress, SearchResult } from '../types';
+import type { BridgeMessage, BridgeSearchRequest } from '../services/uciBridgeEngine';
+
+interface UciOption {
+  type: string;
+  min?: number;
+  max?: number;
+}
+
+// Thinking time when a request sets no limits at all
+const DEFAULT_MOVE_TIME_MS = 1000;
+
+// Where the app is served from in development (vite.config.ts)
+const DEV_SERVER_ORIGINS = ['http://localhost:3000', 'http://127.0.0.1:3000'];
+
+const args = process.argv.slice(2);
+let port = 8765;
+const allowedOrigins: string[] = [];
+while (args[0] === '--port' || args[0] === '--origin') {
+  if (args[0] === '--port') port = Number(args[1]);
+  else allowedOrigins.push(args[1]?.replace(/\/$/, ''));
+  args.splice(0, 2);
+}
+if (allowedOrigins.length === 0) allowedOrigins.push(...DEV_SERVER_ORIGINS);
+if (args[0] === '--') args.shift();
+if (args.length === 0 || allowedOrigins.some((origin) => !origin)) {
+  console.error('Usage: npm run --silent uci-bridge -- [--port 8765] [--origin http://localhost:3000] <engine command> [engine args...]');
+  process.exit(1);
+}
+
+const engine = spawn(args[0], args.slice(1), { stdio: ['pipe', 'pipe', 'inherit'] });
+engine.on('exit', (code) => {
+  console.error(`Engine exited with code ${code}`);
+  process.exit(1);
+});
+
+let lineListener: ((line: string) => void) | null = null;
+createInterface({ input: engine.stdout }).on('line', (line) => lineListener?.(line.trim()));
+
+const send = (command: string) => engine.stdin.write(`${command}\n`);
+
+// Feeds engine output to the handler until it returns true
+const readUntil = (handler: (line: string) => boolean) =>
+  new Promise<void>((resolve) => {
+    lineListener = (line) => {
+      if (!handler(line)) return;
+      lineListener = null;
+      resolve();
+    };
+  });
+
+let engineName = args[0];
+const options = new Map<string, UciOption>();
+
+// `option name Skill Level type spin default 20 min 0 max 20`
+const parseOption = (line: string) => {
+  const match = /^option name (.+?) type (\S+)(.*)$/.exec(line);
+  if (!match) return;
+  const min = / min (-?\d+)/.exec(match[3]);
+  const max = / max (-?\d+)/.exec(match[3]);
+  options.set(match[1], { type: match[2], min: min ? Number(min[1]) : undefined, max: max ? Number(max[1]) : undefined });
+};
+
+const setOption = (name: string, value: string | number | boolean) => {
+  if (options.has(name)) send(`setoption name ${name} value ${value}`);
+};
+
+const waitReady = () => {
+  const ready = readUntil((line) => line === 'readyok');
+  send('isready');
+  return ready;
+};
+
+// Plays at a level's rating where the engine supports UCI_Elo, otherwise scales its Skill Level
+const configureStrength = (level: number | undefined) => {
+  const elo = options.get('UCI_Elo');
+  const skill = options.get('Skill Level');
+  if (level === undefined) {
+    setOption('UCI_LimitStrength', false);
+    if (skill?.max !== undefined) setOption('Skill Level', skill.max);
+    return;
+  }
+
+  const { rating } = getStrengthLevel(level);
+  if (elo?.min !== undefined && elo.max !== undefined && (rating >= elo.min || !skill)) {
+    setOption('UCI_LimitStrength', true);
+    setOption('UCI_Elo', Math.min(Math.max(rating, elo.min), elo.max));
+  } else if (skill?.min !== undefined && skill.max !== undefined) {
+    setOption('UCI_LimitStrength', false);
+    const fraction = (getStrengthLevel(level).level - 1) / (STRENGTH_LEVELS.length - 1);
+    setOption('Skill Level', Math.round(skill.min + fraction * (skill.max - skill.min)));
+  }
+};
+
+// UCI long algebraic moves to SAN, stopping at the first one that isn't legal
+const toSan = (fen: string, moves: string[]): string[] => {
+  const board = new Chess(fen);
+  const san: string[] = [];
+  for (const move of moves) {
+    try {
+      san.push(board.move(move).san);
+    } catch {
+      break;
+    }
+  }
+  return san;
+};
+
+const toUci = (fen: string, moves: string[]): string[] => {
+  const board = new Chess(fen);
+  return moves.map((move) => board.move(move).lan);
+};
+
+const goCommand = (fen: string, limits: SearchLimits, level: number | undefined, clock?: EngineClock): string => {
+  const parts = ['go'];
+  if (level !== undefined && clock) {
+    // Only the engine's own side of the clock is known, which is all it needs
+    const side = fen.split(' ')[1] === 'b' ? 'b' : 'w';
+    const remaining = String(Math.max(1, Math.round(clock.remainingMs)));
+    parts.push(`${side}time`, remaining, `${side}inc`, String(clock.incrementMs));
+  } else if (level !== undefined) parts.push('movetime', String(getStrengthLevel(level).timeMs));
+  else {
+    if (limits.maxDepth !== undefined) parts.push('depth', String(limits.maxDepth));
+    if (limits.nodes !== undefined) parts.push('nodes', String(limits.nodes));
+    if (limits.timeMs !== undefined) parts.push('movetime', String(limits.timeMs));
+    if (parts.length === 1) parts.push('movetime', String(DEFAULT_MOVE_TIME_MS));
+  }
+  if (limits.searchMoves?.length) parts.push('searchmoves', ...toUci(fen, limits.searchMoves));
+  return parts.join(' ');
+};
+
+/**
+ * The position as the engine is told it: with the game's moves from its start when the request
+ * has them, so the engine sees repetitions and the fifty-move count, otherwise the FEN alone.
+ * Moves that don't lead to the FEN reject the request.
+ */
+const positionCommand = ({ fen, history }: BridgeSearchRequest): string => {
+  if (!history) return `position fen ${fen}`;
+  const board = new Chess(history.startFen);
+  const moves = toUci(history.startFen, history.moves);
+  moves.forEach((move) => board.move(move));
+  if (board.fen() !== new Chess(fen).fen()) throw new Error(`The moves given don't lead to ${fen}`);
+  return moves.length > 0 ? `position fen ${history.startFen} moves ${moves.join(' ')}` : `position fen ${history.startFen}`;
+};
+
+/** Runs one search on the engine, streaming progress, until it reports its best move. */
+const runSearch = async (request: BridgeSearchRequest, emit: (message: BridgeMessage) => void, isCancelled: () => boolean) => {
+  const { fen, level } = request;
+  const limits = request.limits ?? {};
+  const multiPv = level === undefined ? Math.max(1, limits.multiPv ?? 1) : 1;
+
+  configureStrength(level);
+  setOption('MultiPV', multiPv);
+  send(positionCommand(request));
+  await waitReady();
+
+  const startTime = Date.now();
+  const lines: SearchLine[] = [];
+  let depth = 0;
+  let nodes = 0;
+  let bestMove: string | null = null;
+  let cancelSent = false;
+
+  const done = readUntil((line) => {
+    const tokens = line.split(/\s+/);
+    if (tokens[0] === 'bestmove') {
+      bestMove = tokens[1] && tokens[1] !== '(none)' && tokens[1] !== '0000' ? toSan(fen, [tokens[1]])[0] ?? null : null;
+      return true;
+    }
+    // Bound-only scores come from aspiration windows and aren't real evaluations
+    if (tokens[0] !== 'info' || !tokens.includes('pv') || tokens.includes('lowerbound') || tokens.includes('upperbound')) return false;
+
+    const valueAfter = (name: string) => Number(tokens[tokens.indexOf(name) + 1]);
+    const scoreIndex = tokens.indexOf('score');
+    if (scoreIndex === -1) return false;
+    const score: Score = { type: tokens[scoreIndex + 1] === 'mate' ? 'mate' : 'cp', value: Number(tokens[scoreIndex + 2]) };
+    const pv = toSan(fen, tokens.slice(tokens.indexOf('pv') + 1));
+    if (pv.length === 0) return false;
+
+    const index = tokens.includes('multipv') ? valueAfter('multipv') - 1 : 0;
+    lines[index] = { move: pv[0], score, pv };
+    if (tokens.includes('depth')) depth = valueAfter('depth');
+    if (tokens.includes('nodes')) nodes = valueAfter('nodes');
+
+    if (index === 0) {
+      const progress: SearchProgress = { depth, nodes, bestMove: pv[0], score, pv };
+      emit({ type: 'progress', progress });
+    }
+    return false;
+  });
+
+  send(goCommand(fen, limits, level, request.clock));
+  // The client hanging up cancels the search; the engine still answers with a best move
+  const cancelPoll = setInterval(() => {
+    if (cancelSent || !isCancelled()) return;
+    cancelSent = true;
+    send('stop');
+  }, 50);
+  await done;
+  clearInterval(cancelPoll);
+
+  const settled = lines.filter(Boolean);
+  const best = settled.find((line) => line.move === bestMove) ?? settled[0];
+  const result: SearchResult = {
+    bestMove,
+    score: best?.score ?? { type: 'cp', value: 0 },
+    depth,
+    nodes,
+    pv: best && best.move === bestMove ? best.pv : bestMove ? [bestMove] : [],
+    timeMs: Date.now() - startTime,
+    lines: settled,
+  };
+  emit({ type: 'result', result });
+};
+
+// The engine handles one search at a time; later requests wait their turn
+let queue: Promise<void> = Promise.resolve();
+
+const readBody = (request: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+
+const handleSearch = async (request: IncomingMessage, response: ServerResponse) => {
+  let search: BridgeSearchRequest;
+  try {
+    search = JSON.parse(await readBody(request));
+    new Chess(search.fen);
+    positionCommand(search);
+  } catch (error) {
+    response.writeHead(400, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }));
+    return;
+  }
+
+  response.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  let closed = false;
+  response.on('close', () => (closed = true));
+  const emit = (message: BridgeMessage) => {
+    if (!closed) response.write(`${JSON.stringify(message)}\n`);
+  };
+
+  queue = queue
+    .then(() => (closed ? undefined : runSearch(search, emit, () => closed)))
+    .catch((error) => emit({ type: 'error', message: error instanceof Error ? error.message : String(error) }))
+    .finally(() => response.end());
+};
+
+const server = createServer((request, response) => {
+  // The app is served from another origin (the Vite dev server). Other pages open in the browser
+  // are turned away; tools that send no Origin, such as the match runner, are let through.
+  const { origin } = request.headers;
+  if (origin && !allowedOrigins.includes(origin)) {
+    response.writeHead(403);
+    response.end();
+    return;
+  }
+  if (origin) {
+    response.setHeader('Access-Control-Allow-Origin', origin);
+    response.setHeader('Vary', 'Origin');
+  }
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+  } else if (request.method === 'GET' && request.url === '/health') {
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ engine: engineName, options: [...options.keys()] }));
+  } else if (request.method === 'POST' && request.url === '/search') {
+    handleSearch(request, response);
+  } else {
+    response.writeHead(404);
+    response.end();
+  }
+});
+
+const start = async () => {
+  const handshake = readUntil((line) => {
+    if (line.startsWith('id name ')) engineName = line.slice('id name '.length);
+    else if (line.startsWith('option ')) parseOption(line);
+    return line === 'uciok';
+  });
+  send('uci');
+  await handshake;
+  await waitReady();
+
+  server.listen(port, '127.0.0.1', () => {
+    console.error(`UCI bridge for ${engineName} listening on http://127.0.0.1:${port} for ${allowedOrigins.join(', ')}`);
+  });
+};
+
+start();
@@ -0,0 +1,75 @@
+// Search thread for the UCI front-end (scripts/uci.ts). The search is synchronous, so it runs
+// here to keep the protocol thread free to answer `isready` and `stop` while it thinks.
+import { parentPort, workerData } from 'node:worker_threads';
+import { Chess } from 'chess.js';
+import { search, clearTranspositionTable } from '../services/engine';
+import { chooseMove, getStrengthLevel } from '../services/strength';
+import { Score, SearchLimits, SearchProgress } from '../types';
+
+export type UciWorkerRequest =
+  | { type: 'go'; fen: string; moves: string[]; limits: SearchLimits; level: number | null }
+  | { type: 'newgame' };
+
+export type UciWorkerMessage =
+  | { type: 'info'; line: string }
+  | { type: 'bestmove'; move: string; ponder: string | null };
+
+// Set to 1 by the protocol thread on `stop`
+const stopFlag = new Int32Array(workerData.stopBuffer as SharedArrayBuffer);
+
+const post = (message: UciWorkerMessage) => parentPort!.postMessage(message);
+
+const formatScore = (score: Score) => (score.type === 'cp' ? `cp ${score.value}` : `mate ${score.value}`);
+
+// The search reports SAN; UCI wants long algebraic moves such as e7e8q
+const toUci = (fen: string, line: string[]): string[] => {
+  const board = new Chess(fen);
+  return line.map((san) => board.move(san).lan);
+};
+
+const formatInfo = (fen: string, progress: SearchProgress, elapsedMs: number) => {
+  const nps = elapsedMs > 0 ? Math.round((progress.nodes * 1000) / elapsedMs) : 0;
+  const pv = toUci(fen, progress.pv).join(' ');
+  return `info depth ${progress.depth} score ${formatScore(progress.score)} nodes ${progress.nodes} nps ${nps} time ${elapsedMs}${pv ? ` pv ${pv}` : ''}`;
+};
+
+parentPort!.on('message', (request: UciWorkerRequest) => {
+  if (request.type === 'newgame') {
+    clearTranspositionTable();
+    return;
+  }
+
+  // Replaying the moves keeps the game history, so the search sees repetitions
+  const game = new Chess(request.fen);
+  request.moves.forEach((move) => game.move(move));
+  const fen = game.fen();
+  const startTime = Date.now();
+
+  let last = '';
+  const result = search(game, request.limits, {
+    shouldStop: () => Atomics.load(stopFlag, 0) === 1,
+    onProgress: (progress) => {
+      // Progress arrives after every root move; only report when the verdict changes
+      const key = `${progress.depth} ${progress.bestMove} ${formatScore(progress.score)}`;
+      if (key === last || !progress.bestMove) return;
+      last = key;
+      post({ type: 'info', line: formatInfo(fen, progress, Date.now() - startTime) });
+    },
+  });
+
+  // A stopped iteration may have reported a line it never finished; close with the settled one
+  if (result.bestMove) post({ type: 'info', line: formatInfo(fen, result, result.timeMs) });
+
+  let { bestMove, pv } = result;
+  if (request.level !== null) {
+    const chosen = chooseMove(result, getStrengthLevel(request.level));
+    if (chosen && chosen.move !== bestMove) {
+      bestMove = chosen.move;
+      pv = chosen.pv;
+      post({ type: 'info', line: `info string Skill Level ${request.level} plays ${chosen.move} over ${result.bestMove}` });
+    }
+  }
+
+  const [move, ponder] = bestMove ? toUci(fen, pv.length > 0 ? pv : [bestMove]) : [];
+  post({ type: 'bestmove', move: move ?? '0000', ponder: ponder ?? null });
+});
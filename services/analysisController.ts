@@ -0,0 +1,153 @@
+import { EngineProviderId, GameReview, GameTree, SearchLimits } from '../types';
+import { DEFAULT_ENGINE_SETTINGS, EVAL_LIMITS, EngineProvider, REVIEW_LIMITS, getEngineProvider, runWithFallback } from './engineProvider';
+import { isAbortError } from './engineClient';
+import { reviewEvaluations, reviewGame, whiteEvaluation } from './review';
+
+// What the analysis engine finds, for the views to follow
+export type AnalysisEvent =
+  | { type: 'evaluation'; nodeId: number }
+  | { type: 'reviewProgress'; done: number; total: number }
+  | { type: 'reviewDone'; review: GameReview }
+  | { type: 'reviewFailed'; message: string }
+  | { type: 'notice'; text: string } // Such as an external engine failing over to the built-in one
+  | { type: 'change' }; // A review cancelled or cleared
+
+// The analysis as it stands after the latest event
+export interface AnalysisState {
+  evaluations: Record<number, number>; // White's evaluation of each position looked at so far
+  engineLines: Record<number, string[]>; // The line the engine expects there, for its arrows
+  review: GameReview | null;
+  reviewProgress: { done: number; total: number } | null;
+}
+
+export interface AnalysisControllerOptions {
+  getEngineId: () => EngineProviderId; // The analysis engine, as chosen when each search starts
+  getEngine: (id: EngineProviderId) => EngineProvider;
+  evalLimits: SearchLimits;
+  reviewLimits: SearchLimits;
+}
+
+const DEFAULT_OPTIONS: AnalysisControllerOptions = {
+  getEngineId: () => DEFAULT_ENGINE_SETTINGS.analysis,
+  getEngine: getEngineProvider,
+  evalLimits: EVAL_LIMITS,
+  reviewLimits: REVIEW_LIMITS,
+};
+
+/**
+ * The analysis engine's work behind the eval bar, the graph, the engine's arrows and the game
+ * review, with no UI attached. One evaluation and one review run at a time; views subscribe to
+ * its events and draw getState(), which is replaced on every event.
+ */
+export const createAnalysisController = (overrides: Partial<AnalysisControllerOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  let state: AnalysisState = { evaluations: {}, engineLines: {}, review: null, reviewProgress: null };
+  let evalRequest: { nodeId: number; controller: AbortController } | null = null;
+  let reviewAbort: AbortController | null = null;
+  const listeners = new Set<(event: AnalysisEvent) => void>();
+
+  const emit = (event: AnalysisEvent, changes: Partial<AnalysisState> = {}) => {
+    state = { ...state, ...changes };
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const subscribe = (listener: (event: AnalysisEvent) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  // A search on the analysis engine, handing over to the built-in one if it fails
+  const analyze = (fen: string, limits: SearchLimits, signal: AbortSignal) =>
+    runWithFallback(
+      options.getEngine(options.getEngineId()),
+      (engine) => engine.analyze(fen, limits, { signal }),
+      (error) => emit({ type: 'notice', text: `${error.message}. The built-in engine takes over.` })
+    );
+
+  const cancelEvaluation = () => {
+    evalRequest?.controller.abort();
+    evalRequest = null;
+  };
+
+  /**
+   * Evaluates the position at the node unless that is known already, or under way. `withLine`
+   * asks for the engine's line too, which a review's evaluations come without. A request for
+   * another node cancels the one before.
+   */
+  const evaluate = (nodeId: number, fen: string, { withLine = false } = {}) => {
+    if (evalRequest?.nodeId === nodeId) return;
+    cancelEvaluation();
+    if (state.evaluations[nodeId] !== undefined && (!withLine || state.engineLines[nodeId] !== undefined)) return;
+
+    const request = { nodeId, controller: new AbortController() };
+    evalRequest = request;
+    whiteEvaluation(fen, (position) => analyze(position, options.evalLimits, request.controller.signal))
+      .then(({ cp, line }) => {
+        if (request.controller.signal.aborted) return; // An engine that doesn't listen for aborts
+        emit(
+          { type: 'evaluation', nodeId },
+          { evaluations: { ...state.evaluations, [nodeId]: cp }, engineLines: { ...state.engineLines, [nodeId]: line } }
+        );
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) console.error('Evaluation failed', error);
+      })
+      .finally(() => {
+        if (evalRequest === request) evalRequest = null;
+      });
+  };
+
+  const cancelReview = () => {
+    if (!reviewAbort && !state.reviewProgress) return;
+    reviewAbort?.abort();
+    reviewAbort = null;
+    emit({ type: 'change' }, { reviewProgress: null });
+  };
+
+  /** Runs the analysis engine over the moves leading to the node, replacing any review under way. */
+  const startReview = async (tree: GameTree, nodeId: number) => {
+    cancelReview();
+    const controller = new AbortController();
+    reviewAbort = controller;
+    try {
+      const review = await reviewGame(
+        tree,
+        nodeId,
+        (fen) => analyze(fen, options.reviewLimits, controller.signal),
+        (done, total) => {
+          if (!controller.signal.aborted) emit({ type: 'reviewProgress', done, total }, { reviewProgress: { done, total } });
+        }
+      );
+      if (controller.signal.aborted) return; // Overtaken by an engine that doesn't listen for aborts
+      reviewAbort = null;
+      emit(
+        { type: 'reviewDone', review },
+        { review, reviewProgress: null, evaluations: { ...state.evaluations, ...reviewEvaluations(review, tree.rootId) } }
+      );
+    } catch (error) {
+      if (isAbortError(error)) return; // Whoever cancelled has already cleaned up
+      reviewAbort = null;
+      emit({ type: 'reviewFailed', message: error instanceof Error ? error.message : String(error) }, { reviewProgress: null });
+    }
+  };
+
+  // Forgets the review, as when another game comes on the board
+  const clearReview = () => {
+    cancelReview();
+    if (state.review) emit({ type: 'change' }, { review: null });
+  };
+
+  return {
+    subscribe,
+    getState: () => state,
+    evaluate,
+    cancelEvaluation,
+    startReview,
+    cancelReview,
+    clearReview,
+  };
+};
+
+export type AnalysisController = ReturnType<typeof createAnalysisController>;
@@ -0,0 +1,83 @@
+import { Chess } from 'chess.js';
+import { AnnotationColor, BoardAnnotation } from '../types';
+
+// How each colour is drawn over the board
+export const ANNOTATION_COLORS: Record<AnnotationColor, string> = {
+  G: 'rgb(21 128 61 / 0.8)',
+  R: 'rgb(185 28 28 / 0.8)',
+  Y: 'rgb(234 179 8 / 0.85)',
+  B: 'rgb(29 78 216 / 0.8)',
+};
+
+// The modifier keys held while drawing
+interface Modifiers {
+  shiftKey: boolean;
+  altKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+}
+
+/** The colour a right-button drag draws in: green, red with Shift, blue with Alt or Ctrl, yellow with both. */
+export const annotationColor = ({ shiftKey, altKey, ctrlKey, metaKey }: Modifiers): AnnotationColor => {
+  const alt = altKey || ctrlKey || metaKey;
+  if (shiftKey && alt) return 'Y';
+  if (shiftKey) return 'R';
+  return alt ? 'B' : 'G';
+};
+
+/**
+ * Adds an arrow or circle. Drawing one that is already there in the same colour takes it away,
+ * and in another colour recolours it.
+ */
+export const toggleAnnotation = (annotations: BoardAnnotation[], annotation: BoardAnnotation): BoardAnnotation[] => {
+  const existing = annotations.find(({ from, to }) => from === annotation.from && to === annotation.to);
+  const rest = annotations.filter((entry) => entry !== existing);
+  return existing?.color === annotation.color ? rest : [...rest, annotation];
+};
+
+/**
+ * Arrows for the engine's line: its move in blue, and in red the reply it expects, the threat
+ * the move has to reckon with.
+ */
+export const engineLineAnnotations = (fen: string, line: string[]): BoardAnnotation[] => {
+  const board = new Chess(fen);
+  const annotations: BoardAnnotation[] = [];
+  for (const san of line.slice(0, 2)) {
+    try {
+      const { from, to } = board.move(san);
+      annotations.push({ from, to, color: annotations.length === 0 ? 'B' : 'R' });
+    } catch {
+      break; // A line that no longer fits the position draws no further
+    }
+  }
+  return annotations;
+};
+
+// `[%cal Ge2e4,Rd7d5]` and `[%csl Gd4]` as lichess and ChessBase embed them in comments
+const COMMAND_PATTERN = /\[%(cal|csl)\s+([^\]]*)\]/g;
+const ARROW_PATTERN = /^([GRYB])([a-h][1-8])([a-h][1-8])$/;
+const CIRCLE_PATTERN = /^([GRYB])([a-h][1-8])$/;
+
+/** Takes the `[%cal]` and `[%csl]` commands out of a PGN comment: the drawings, and the text that is left. */
+export const parseAnnotations = (comment = ''): { annotations: BoardAnnotation[]; text: string } => {
+  const annotations: BoardAnnotation[] = [];
+  const text = comment.replace(COMMAND_PATTERN, (_, command: string, list: string) => {
+    for (const item of list.split(',')) {
+      const match = item.trim().match(command === 'cal' ? ARROW_PATTERN : CIRCLE_PATTERN);
+      if (match) annotations.push({ color: match[1] as AnnotationColor, from: match[2], to: match[3] ?? match[2] });
+    }
+    return '';
+  });
+  return { annotations, text: text.replace(/\s+/g, ' ').trim() };
+};
+
+/** A PGN comment holding the drawings as `[%csl]` and `[%cal]` commands ahead of the text. */
+export const formatAnnotations = (annotations: BoardAnnotation[] = [], text = '') => {
+  const circles = annotations.filter(({ from, to }) => from === to).map(({ color, from }) => `${color}${from}`);
+  const arrows = annotations.filter(({ from, to }) => from !== to).map(({ color, from, to }) => `${color}${from}${to}`);
+  return [
+    circles.length > 0 ? `[%csl ${circles.join(',')}]` : '',
+    arrows.length > 0 ? `[%cal ${arrows.join(',')}]` : '',
+    text,
+  ].filter(Boolean).join(' ');
+};
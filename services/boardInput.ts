@@ -0,0 +1,76 @@
+import { Chess, Move } from 'chess.js';
+import { PIECE_NAMES } from '../constants';
+import { PieceColor, PieceType } from '../types';
+
+// Arrow keys as [file, rank] steps on a board seen from White's side
+const KEY_STEPS: Record<string, [number, number]> = {
+  ArrowUp: [0, 1],
+  ArrowDown: [0, -1],
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+};
+
+export const isArrowKey = (key: string) => key in KEY_STEPS;
+
+/** The square an arrow key moves the focus cursor to, as the board is shown; the same square at an edge. */
+export const stepSquare = (square: string, key: string, orientation: PieceColor): string => {
+  const [fileStep, rankStep] = KEY_STEPS[key] ?? [0, 0];
+  const sign = orientation === PieceColor.WHITE ? 1 : -1;
+  const file = square.charCodeAt(0) - 97 + fileStep * sign;
+  const rank = Number(square[1]) + rankStep * sign;
+  if (file < 0 || file > 7 || rank < 1 || rank > 8) return square;
+  return `${String.fromCharCode(97 + file)}${rank}`;
+};
+
+/** The square under a pointer on a board drawn in `rect`, or null outside it. */
+export const squareAtPoint = (rect: DOMRect, x: number, y: number, orientation: PieceColor): string | null => {
+  const col = Math.floor(((x - rect.left) / rect.width) * 8);
+  const row = Math.floor(((y - rect.top) / rect.height) * 8);
+  if (col < 0 || col > 7 || row < 0 || row > 7) return null;
+  const file = orientation === PieceColor.WHITE ? col : 7 - col;
+  const rank = orientation === PieceColor.WHITE ? 8 - row : row + 1;
+  return `${String.fromCharCode(97 + file)}${rank}`;
+};
+
+/** What a screen reader says for a square, e.g. "e4, white knight" or "d5, empty, legal move". */
+export const squareLabel = (square: string, piece: { type: string; color: string } | null, isTarget = false) =>
+  [
+    square,
+    piece ? `${piece.color === PieceColor.WHITE ? 'white' : 'black'} ${PIECE_NAMES[piece.type as PieceType]}` : 'empty',
+    ...(isTarget ? ['legal move'] : []),
+  ].join(', ');
+
+/**
+ * The legal moves a typed move could mean, in SAN (`Nf3`, `exd8=N+`, `O-O`, `0-0`) or UCI (`g1f3`).
+ * A promotion typed without its piece (`e8`, `e7e8`) matches all four, so the caller can ask which.
+ * Letter case only matters when it has to, so `nf3` works but `bc4` is still the bishop.
+ */
+export const findTypedMoves = (board: Chess, text: string): Move[] => {
+  const san = text.replace(/[+#!?=\s]/g, '').replace(/0/g, 'O');
+  const uci = text.trim().toLowerCase().replace(/-/g, '');
+  if (!san) return [];
+
+  const moves = board.moves({ verbose: true });
+  const matching = (sameSan: (moveSan: string) => boolean) =>
+    moves.filter((move) => {
+      const moveSan = move.san.replace(/[+#=]/g, '');
+      if (sameSan(moveSan) || move.lan === uci) return true;
+      return move.promotion !== undefined && (sameSan(moveSan.slice(0, -1)) || move.lan.slice(0, -1) === uci);
+    });
+
+  const exact = matching((moveSan) => moveSan === san);
+  return exact.length > 0 ? exact : matching((moveSan) => moveSan.toLowerCase() === san.toLowerCase());
+};
+
+/** The single move to play, or the promotion square to ask about, or why the text doesn't fit. */
+export const resolveTypedMove = (
+  board: Chess,
+  text: string
+): { move: Move } | { promotion: { from: string; to: string } } | { error: string } => {
+  const moves = findTypedMoves(board, text);
+  if (moves.length === 1) return { move: moves[0] };
+  if (moves.length > 1 && moves.every((move) => move.promotion && move.from === moves[0].from && move.to === moves[0].to)) {
+    return { promotion: { from: moves[0].from, to: moves[0].to } };
+  }
+  return { error: moves.length > 1 ? `${text} is ambiguous` : `${text} is not a legal move` };
+};
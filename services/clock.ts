@@ -0,0 +1,145 @@
+import { Chess } from 'chess.js';
+import { ClockState, EngineClock, GameResult, PieceColor, TimeControl } from '../types';
+
+const MINUTE = 60000;
+const SECOND = 1000;
+
+const preset = (category: TimeControl['category'], minutes: number, incrementSeconds: number): TimeControl => ({
+  id: `${minutes}+${incrementSeconds}`,
+  name: `${category[0].toUpperCase()}${category.slice(1)} ${minutes}+${incrementSeconds}`,
+  category,
+  baseMs: minutes * MINUTE,
+  incrementMs: incrementSeconds * SECOND,
+  delayMs: 0,
+});
+
+export const TIME_CONTROLS: TimeControl[] = [
+  preset('bullet', 1, 0),
+  preset('bullet', 2, 1),
+  preset('blitz', 3, 0),
+  preset('blitz', 3, 2),
+  preset('blitz', 5, 0),
+  preset('rapid', 10, 0),
+  preset('rapid', 15, 10),
+];
+
+/** A time control of the user's own: minutes per side, plus an increment or a delay in seconds. */
+export const customTimeControl = (minutes: number, incrementSeconds: number, delaySeconds: number): TimeControl => {
+  const bonus = delaySeconds > 0 ? ` d${delaySeconds}` : `+${incrementSeconds}`;
+  return {
+    id: 'custom',
+    name: `Custom ${minutes}${bonus}`,
+    category: 'custom',
+    baseMs: Math.max(SECOND, minutes * MINUTE),
+    incrementMs: delaySeconds > 0 ? 0 : incrementSeconds * SECOND,
+    delayMs: delaySeconds * SECOND,
+  };
+};
+
+export const createClock = (control: TimeControl): ClockState => ({
+  control,
+  remainingMs: { [PieceColor.WHITE]: control.baseMs, [PieceColor.BLACK]: control.baseMs },
+  running: null,
+  startedAt: null,
+  flagged: null,
+});
+
+/** Time left on a side's clock at `now`; the delay is used up before the clock itself runs down. */
+export const timeLeft = (clock: ClockState, side: PieceColor, now = Date.now()): number => {
+  const remaining = clock.remainingMs[side];
+  if (clock.running !== side || clock.startedAt === null) return remaining;
+  return remaining - Math.max(0, now - clock.startedAt - clock.control.delayMs);
+};
+
+// The running side's time as of `now`, with no clock running
+const settle = (clock: ClockState, now: number): ClockState =>
+  clock.running === null
+    ? clock
+    : {
+        ...clock,
+        remainingMs: { ...clock.remainingMs, [clock.running]: timeLeft(clock, clock.running, now) },
+        running: null,
+        startedAt: null,
+      };
+
+/**
+ * After `mover` has moved: their time is charged and the increment added, and the other side's
+ * clock starts. The first move of a game is played before any clock runs.
+ */
+export const pressClock = (clock: ClockState, mover: PieceColor, now = Date.now()): ClockState => {
+  if (clock.flagged) return clock;
+  const wasRunning = clock.running === mover;
+  const settled = settle(clock, now);
+  return {
+    ...settled,
+    remainingMs: wasRunning
+      ? { ...settled.remainingMs, [mover]: settled.remainingMs[mover] + clock.control.incrementMs }
+      : settled.remainingMs,
+    running: mover === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE,
+    startedAt: now,
+  };
+};
+
+/** Runs `side`'s clock from now on (after a takeback, say), charging whoever was running so far. */
+export const switchClock = (clock: ClockState, side: PieceColor, now = Date.now()): ClockState => {
+  if (clock.flagged || clock.running === null) return clock;
+  return { ...settle(clock, now), running: side, startedAt: now };
+};
+
+export const stopClock = (clock: ClockState, now = Date.now()): ClockState => settle(clock, now);
+
+/** Starts `side`'s clock again after stopClock, from the time it had left. */
+export const resumeClock = (clock: ClockState, side: PieceColor, now = Date.now()): ClockState =>
+  clock.flagged ? clock : { ...clock, running: side, startedAt: now };
+
+/** The clock with the running side flagged if their time is up, otherwise unchanged. */
+export const checkFlag = (clock: ClockState, now = Date.now()): ClockState => {
+  const side = clock.running;
+  if (side === null || timeLeft(clock, side, now) > 0) return clock;
+  const settled = settle(clock, now);
+  return { ...settled, remainingMs: { ...settled.remainingMs, [side]: 0 }, flagged: side };
+};
+
+/** What the bot needs to budget its thinking time from its own clock. */
+export const engineClock = (clock: ClockState, side: PieceColor, now = Date.now()): EngineClock => ({
+  remainingMs: timeLeft(clock, side, now),
+  incrementMs: clock.control.incrementMs + clock.control.delayMs,
+});
+
+// A lone king, or a king and one bishop or knight, can't mate whatever the other side does
+const canMate = (board: Chess, side: PieceColor) => {
+  const pieces = board.board().flat().filter((piece) => piece && piece.color === side && piece.type !== 'k');
+  return pieces.length > 1 || pieces.some((piece) => piece!.type !== 'b' && piece!.type !== 'n');
+};
+
+/** Running out of time loses, unless the opponent has too little material to mate. */
+export const flagResult = (board: Chess, flagged: PieceColor): GameResult => {
+  const opponent = flagged === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+  if (!canMate(board, opponent)) return '1/2-1/2';
+  return opponent === PieceColor.WHITE ? '1-0' : '0-1';
+};
+
+export const describeFlag = (board: Chess, flagged: PieceColor) => {
+  const loser = flagged === PieceColor.WHITE ? 'White' : 'Black';
+  const result = flagResult(board, flagged);
+  if (result === '1/2-1/2') return `${loser} ran out of time. Draw: no mating material left.`;
+  return `${loser} ran out of time. ${result === '1-0' ? 'White' : 'Black'} wins.`;
+};
+
+/** `4:59` for most of the game, `0:09.4` in the last ten seconds. */
+export const formatClock = (ms: number) => {
+  const clamped = Math.max(0, ms);
+  const minutes = Math.floor(clamped / MINUTE);
+  const seconds = Math.floor((clamped % MINUTE) / SECOND);
+  const base = `${minutes}:${String(seconds).padStart(2, '0')}`;
+  return clamped < 10 * SECOND ? `${base}.${Math.floor((clamped % SECOND) / 100)}` : base;
+};
+
+/**
+ * PGN tags for the time control: TimeControl as the standard `180+2`, base plus increment in
+ * seconds. The standard has no way to write a delay, so that goes in a TimeDelay tag of its own.
+ */
+export const timeControlHeaders = (control: TimeControl): Record<string, string> => ({
+  TimeControl: `${control.baseMs / SECOND}+${control.incrementMs / SECOND}`,
+  ...(control.delayMs > 0 ? { TimeDelay: String(control.delayMs / SECOND) } : {}),
+});
@@ -0,0 +1,48 @@
+import { CoachRequest } from '../types';
+import { explainEvaluation, summarizeEvaluation } from './evaluation';
+
+/** The prompt a language-model coach is sent, grounded in the static evaluation of the position. */
+export const coachPrompt = (request: CoachRequest): string => {
+  const assessment = summarizeEvaluation(explainEvaluation(request.fen));
+  if (request.kind === 'commentary') {
+    return `
+      You are a witty, sarcastic, yet insightful Chess Grandmaster commentator.
+      Current Board FEN: ${request.fen}
+      Last Move: ${request.lastMove}
+      Game History: ${request.history.slice(-5).join(', ')}...
+      Opening: ${request.opening ?? 'Not a named opening'}
+      Engine Assessment: ${assessment}
+
+      Provide a very short (max 2 sentences) commentary on the current situation.
+      Focus on who is winning or if a blunder was made. Be expressive but concise.
+      Do not explain rules. Just react to the move.
+    `;
+  }
+  return `
+    You are a Chess Coach explaining the engine's choice to the player whose turn it is.
+    FEN: ${request.fen}
+    Turn: ${request.fen.split(' ')[1] === 'w' ? 'White' : 'Black'}
+    Engine Assessment: ${assessment}
+    Engine's Best Move: ${request.engineMove}
+    Expected Line: ${request.line.join(' ') || request.engineMove}
+
+    Answer in JSON with these fields:
+    theme: the idea behind the move in a few words, such as "Fork" or "King safety".
+    pieceHint: one sentence pointing at the piece to move, without giving the move away.
+    move: the engine's best move in SAN, exactly as given above.
+    explanation: why the move works, in under 30 words.
+  `;
+};
+
+/** JSON Schema of the coach's answer to a hint, for providers that can be held to one. */
+export const HINT_SCHEMA = {
+  type: 'object',
+  properties: {
+    theme: { type: 'string' },
+    pieceHint: { type: 'string' },
+    move: { type: 'string' },
+    explanation: { type: 'string' },
+  },
+  required: ['theme', 'pieceHint', 'move', 'explanation'],
+  additionalProperties: false,
+};
@@ -0,0 +1,49 @@
+import { CoachProviderId, CoachRequest, CoachSettings } from '../types';
+import { createGeminiCoach } from './geminiService';
+import { createOpenAiCompatibleCoach } from './openAiCoach';
+import { offlineCoach } from './offlineCoach';
+import { isAbortError } from './engineClient';
+
+/** A backend that writes the coach's commentary and hints. */
+export interface CoachProvider {
+  id: CoachProviderId;
+  name: string;
+  defaultModel: string; // Empty for a coach without models
+  // The answer as text; for a hint, JSON matching HINT_SCHEMA
+  ask: (request: CoachRequest, options: { model: string; temperature: number; signal?: AbortSignal }) => Promise<string>;
+}
+
+export const COACH_PROVIDERS: CoachProvider[] = [createGeminiCoach(), createOpenAiCompatibleCoach(), offlineCoach];
+
+// Gemini when a key has been set up, otherwise a coach that works without one
+export const DEFAULT_COACH_SETTINGS: CoachSettings = {
+  provider: process.env.API_KEY ? 'gemini' : 'offline',
+  model: '',
+  temperature: 0.7,
+};
+
+export const getCoachProvider = (id: CoachProviderId): CoachProvider =>
+  COACH_PROVIDERS.find((provider) => provider.id === id) ?? offlineCoach;
+
+/**
+ * Asks the coach with the chosen model and temperature, reading the answer with `parse`. If the
+ * provider fails (no API key, endpoint down, empty answer) or `parse` rejects what it said, the
+ * offline coach answers instead, so there is always something to show. A request aborted through
+ * `signal` rejects with an AbortError.
+ */
+export const askCoach = async <T = string>(
+  provider: CoachProvider,
+  settings: CoachSettings,
+  request: CoachRequest,
+  parse: (text: string) => T = (text) => text as T,
+  signal?: AbortSignal
+): Promise<T> => {
+  try {
+    return parse(await provider.ask(request, { model: settings.model || provider.defaultModel, temperature: settings.temperature, signal }));
+  } catch (error) {
+    if (provider === offlineCoach || isAbortError(error)) throw error;
+    if (signal?.aborted) throw new DOMException('Coach request cancelled', 'AbortError');
+    console.warn(`${provider.name} failed, the offline coach answers instead:`, error);
+    return parse(await offlineCoach.ask(request, { model: '', temperature: settings.temperature }));
+  }
+};
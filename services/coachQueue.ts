@@ -0,0 +1,136 @@
+import { CoachRequest, CoachSettings } from '../types';
+import { CoachProvider, askCoach } from './coachProvider';
+import { offlineCoach } from './offlineCoach';
+
+export interface CoachQueueOptions {
+  debounceMs: number; // Quiet time before a request goes out, so quick moves send only the last
+  cacheSize: number; // Answers kept, oldest dropped first
+  backoffMs: number; // First pause after a provider says its quota is used up, doubling each time
+  maxBackoffMs: number;
+}
+
+const DEFAULT_OPTIONS: CoachQueueOptions = {
+  debounceMs: 400,
+  cacheSize: 200,
+  backoffMs: 30_000,
+  maxBackoffMs: 5 * 60_000,
+};
+
+const abortError = () => new DOMException('Coach request cancelled', 'AbortError');
+
+// The fields quota errors carry: HTTP status or code 429, maybe on a nested Google API `error`
+interface ApiErrorFields {
+  status?: unknown;
+  code?: unknown;
+  error?: ApiErrorFields;
+}
+
+/** Whether a provider turned a request down for rate or quota limits (HTTP 429, Gemini's RESOURCE_EXHAUSTED). */
+export const isQuotaError = (error: unknown): boolean => {
+  const fields = error as ApiErrorFields | null;
+  if ([fields?.status, fields?.code, fields?.error?.status, fields?.error?.code].some((value) => value === 429 || value === 'RESOURCE_EXHAUSTED')) return true;
+  return error instanceof Error && /\b429\b|RESOURCE_EXHAUSTED|quota/i.test(error.message);
+};
+
+// One answer per provider, model and temperature for each position and move
+const cacheKey = (provider: CoachProvider, settings: CoachSettings, request: CoachRequest) =>
+  [
+    provider.id,
+    settings.model || provider.defaultModel,
+    settings.temperature,
+    request.kind,
+    request.fen,
+    request.kind === 'commentary' ? request.lastMove : request.engineMove,
+  ].join('|');
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Schedules coach requests. Each channel ('playerCommentary', 'hint'...) has at most one request going:
+ * a newer one cancels the older, whose promise rejects with an AbortError. Requests wait out a
+ * short debounce first, answers are cached, and a provider that reports a used-up quota is left
+ * alone for a while, the offline coach answering meanwhile.
+ */
+export const createCoachQueue = (overrides: Partial<CoachQueueOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const cache = new Map<string, string>();
+  const backoff = new Map<CoachProvider['id'], { until: number; ms: number }>();
+  const pending = new Map<string, AbortController>();
+
+  // The provider with the cache in front of it and the backoff around it. Only answers that
+  // `parse` reads are cached, so a rejected one is asked for again next time.
+  const guard = <T>(provider: CoachProvider, key: string, parse?: (text: string) => T): CoachProvider => ({
+    ...provider,
+    ask: async (request, askOptions) => {
+      const cached = cache.get(key);
+      if (cached !== undefined) return cached;
+      const limit = backoff.get(provider.id);
+      if (limit && Date.now() < limit.until) {
+        throw new Error(`${provider.name} is over its quota; trying again in ${Math.ceil((limit.until - Date.now()) / 1000)}s`);
+      }
+
+      try {
+        const text = await provider.ask(request, askOptions);
+        backoff.delete(provider.id);
+        parse?.(text);
+        cache.delete(key);
+        cache.set(key, text);
+        if (cache.size > options.cacheSize) cache.delete(cache.keys().next().value!);
+        return text;
+      } catch (error) {
+        if (isQuotaError(error)) {
+          const ms = Math.min(limit ? limit.ms * 2 : options.backoffMs, options.maxBackoffMs);
+          backoff.set(provider.id, { until: Date.now() + ms, ms });
+        }
+        throw error;
+      }
+    },
+  });
+
+  const ask = async <T = string>(
+    channel: string,
+    provider: CoachProvider,
+    settings: CoachSettings,
+    request: CoachRequest,
+    parse?: (text: string) => T
+  ): Promise<T> => {
+    pending.get(channel)?.abort();
+    const controller = new AbortController();
+    pending.set(channel, controller);
+
+    try {
+      const key = cacheKey(provider, settings, request);
+      // Cached and offline answers cost nothing, so only real requests wait
+      if (provider !== offlineCoach && !cache.has(key)) await wait(options.debounceMs, controller.signal);
+      const guarded = provider === offlineCoach ? provider : guard(provider, key, parse);
+      const answer = await askCoach(guarded, settings, request, parse, controller.signal);
+      // The offline coach doesn't listen for aborts, so a request overtaken meanwhile is dropped here
+      if (controller.signal.aborted) throw abortError();
+      return answer;
+    } finally {
+      if (pending.get(channel) === controller) pending.delete(channel);
+    }
+  };
+
+  // Drops every request still waiting or on its way, as when a new game starts
+  const cancelAll = () => {
+    pending.forEach((controller) => controller.abort());
+    pending.clear();
+  };
+
+  return { ask, cancelAll };
+};
+
+// The queue the app's coach requests go through
+export const coachQueue = createCoachQueue();
@@ -1,160 +1,421 @@
-import { Chess, Move } from 'chess.js';
-import { Difficulty } from '../types';
-
-// Piece values for evaluation
-const PIECE_VALUES: Record<string, number> = {
-  p: 100,
-  n: 320,
-  b: 330,
-  r: 500,
-  q: 900,
-  k: 20000,
+import { Chess } from 'chess.js';
+import { EngineClock, Score, SearchLimits, SearchProgress, SearchResult } from '../types';
+import {
+  Position,
+  PAWN,
+  WHITE,
+  PIECE_SYMBOLS,
+  FLAG_CAPTURE,
+  FLAG_EN_PASSANT,
+  moveFrom,
+  moveTo,
+  moveFlags,
+  movePromotion,
+} from './position';
+import { Bound, TranspositionTable } from './transpositionTable';
+import { evaluate, PIECE_VALUES } from './evaluation';
+import { chooseMove, getStrengthLevel, strengthLimits } from './strength';
+import { bookResult, chooseBookMove } from './openings';
+
+const MATE_SCORE = 100000;
+const INFINITY_SCORE = 1000000;
+const MAX_SEARCH_DEPTH = 64;
+
+// Captures that can't lift the score to within this margin of alpha are skipped in quiescence
+const DELTA_MARGIN = 200;
+
+// How often (in nodes) the search looks at the clock
+const LIMIT_CHECK_INTERVAL = 1024;
+
+// Shared across searches so positions analysed on the previous move are still known
+const transpositionTable = new TranspositionTable();
+
+export interface SearchOptions {
+  onProgress?: (progress: SearchProgress) => void;
+  // Turning the table off gives the plain alpha-beta search, used to check the two agree
+  useTranspositionTable?: boolean;
+  // Polled alongside the time and node limits; returning true ends the search early
+  shouldStop?: () => boolean;
+}
+
+interface SearchState {
+  nodes: number;
+  deadline: number;
+  nodeLimit: number;
+  // Limits are only enforced once a complete iteration has produced a move
+  canStop: boolean;
+  stopped: boolean;
+  table: TranspositionTable | null;
+  quiescenceDepth: number;
+  shouldStop?: () => boolean;
+}
+
+export const clearTranspositionTable = () => transpositionTable.clear();
+
+const checkLimits = (state: SearchState) => {
+  if (!state.canStop || state.nodes % LIMIT_CHECK_INTERVAL !== 0) return;
+  if (state.nodes >= state.nodeLimit || Date.now() >= state.deadline || state.shouldStop?.()) {
+    state.stopped = true;
+  }
+};
+
+// Mate scores count down with distance from the root so shorter mates are preferred
+const toScore = (value: number): Score => {
+  if (Math.abs(value) >= MATE_SCORE - MAX_SEARCH_DEPTH) {
+    const plies = MATE_SCORE - Math.abs(value);
+    const moves = Math.ceil(plies / 2);
+    return { type: 'mate', value: value > 0 ? moves : -moves };
+  }
+  return { type: 'cp', value };
 };
 
-// Simplified Piece-Square Tables (Mid-game)
-const PAWN_PST = [
-  0,  0,  0,  0,  0,  0,  0,  0,
-  50, 50, 50, 50, 50, 50, 50, 50,
-  10, 10, 20, 30, 30, 20, 10, 10,
-  5,  5, 10, 25, 25, 10,  5,  5,
-  0,  0,  0, 20, 20,  0,  0,  0,
-  5, -5,-10,  0,  0,-10, -5,  5,
-  5, 10, 10,-20,-20, 10, 10,  5,
-  0,  0,  0,  0,  0,  0,  0,  0
-];
-
-const KNIGHT_PST = [
-  -50,-40,-30,-30,-30,-30,-40,-50,
-  -40,-20,  0,  0,  0,  0,-20,-40,
-  -30,  0, 10, 15, 15, 10,  0,-30,
-  -30,  5, 15, 20, 20, 15,  5,-30,
-  -30,  0, 15, 20, 20, 15,  0,-30,
-  -30,  5, 10, 15, 15, 10,  5,-30,
-  -40,-20,  0,  5,  5,  0,-20,-40,
-  -50,-40,-30,-30,-30,-30,-40,-50
-];
-
-const BISHOP_PST = [
-  -20,-10,-10,-10,-10,-10,-10,-20,
-  -10,  0,  0,  0,  0,  0,  0,-10,
-  -10,  0,  5, 10, 10,  5,  0,-10,
-  -10,  5,  5, 10, 10,  5,  5,-10,
-  -10,  0, 10, 10, 10, 10,  0,-10,
-  -10, 10, 10, 10, 10, 10, 10,-10,
-  -10,  5,  0,  0,  0,  0,  5,-10,
-  -20,-10,-10,-10,-10,-10,-10,-20
-];
-
-const PSTS: Record<string, number[]> = {
-  p: PAWN_PST,
-  n: KNIGHT_PST,
-  b: BISHOP_PST,
+// The table stores mate scores relative to the node, not the root, so they stay valid at any ply
+const toTableScore = (value: number, ply: number) =>
+  value >= MATE_SCORE - MAX_SEARCH_DEPTH ? value + ply : value <= -(MATE_SCORE - MAX_SEARCH_DEPTH) ? value - ply : value;
+
+const fromTableScore = (value: number, ply: number) =>
+  value >= MATE_SCORE - MAX_SEARCH_DEPTH ? value - ply : value <= -(MATE_SCORE - MAX_SEARCH_DEPTH) ? value + ply : value;
+
+// The search is negamax: every score is from the point of view of the side to move
+const evaluateForSideToMove = (position: Position): number =>
+  position.turn === WHITE ? evaluate(position) : -evaluate(position);
+
+// Checkmate or stalemate for the side to move
+const terminalValue = (position: Position, ply: number): number =>
+  position.inCheck() ? -(MATE_SCORE - ply) : 0;
+
+const PIECE_ORDER_VALUES = [0, 1, 3, 3, 5, 9, 10];
+
+// Transposition table move first, then captures by MVV-LVA (most valuable victim,
+// least valuable attacker), then promotions, then quiet moves in generation order
+const orderMoves = (position: Position, moves: number[], ttMove: number): number[] => {
+  const scoreMove = (move: number): number => {
+    if (move === ttMove) return 1000000;
+    let score = 0;
+    const flags = moveFlags(move);
+    if (flags & FLAG_CAPTURE) {
+      const victim = flags & FLAG_EN_PASSANT ? PAWN : position.board[moveTo(move)] & 7;
+      const attacker = position.board[moveFrom(move)] & 7;
+      score += 100000 + PIECE_ORDER_VALUES[victim] * 100 - PIECE_ORDER_VALUES[attacker];
+    }
+    const promotion = movePromotion(move);
+    if (promotion) score += 50000 + PIECE_ORDER_VALUES[promotion] * 100;
+    return score;
+  };
+
+  const scores = new Map(moves.map((move) => [move, scoreMove(move)]));
+  return moves.sort((a, b) => scores.get(b)! - scores.get(a)!);
 };
 
-const evaluateBoard = (game: Chess): number => {
-  let totalEvaluation = 0;
-  const board = game.board();
-
-  for (let i = 0; i < 8; i++) {
-    for (let j = 0; j < 8; j++) {
-      const piece = board[i][j];
-      if (piece) {
-        const value = PIECE_VALUES[piece.type];
-        
-        // Calculate PST index
-        // For white, index is straight forward (0-63)
-        // For black, we need to mirror the index
-        let pstValue = 0;
-        if (PSTS[piece.type]) {
-            const index = piece.color === 'w' ? (i * 8 + j) : ((7 - i) * 8 + j);
-            pstValue = PSTS[piece.type][index];
-        }
-
-        const absoluteValue = value + pstValue;
-        totalEvaluation += piece.color === 'w' ? absoluteValue : -absoluteValue;
-      }
+/**
+ * Resolves captures and promotions past the search horizon so the evaluation is only taken in
+ * quiet positions. The side to move may "stand pat" on the static score instead of capturing;
+ * in check there is no standing pat and every evasion is searched.
+ */
+const quiescence = (
+  position: Position,
+  state: SearchState,
+  depth: number,
+  ply: number,
+  alpha: number,
+  beta: number
+): number => {
+  state.nodes++;
+  checkLimits(state);
+  if (state.stopped) return 0;
+
+  const inCheck = position.inCheck();
+  const standPat = evaluateForSideToMove(position);
+  if (ply >= MAX_SEARCH_DEPTH || (depth <= 0 && !inCheck)) return standPat;
+
+  let bestValue = -Infinity;
+  if (!inCheck) {
+    if (standPat >= beta) return standPat;
+    bestValue = standPat;
+    alpha = Math.max(alpha, standPat);
+  }
+
+  const moves = orderMoves(position, position.generateMoves(!inCheck), 0);
+  let legalMoves = 0;
+
+  for (const move of moves) {
+    // Delta pruning: even winning the captured piece outright wouldn't reach alpha
+    if (!inCheck) {
+      const flags = moveFlags(move);
+      const victim = flags & FLAG_EN_PASSANT ? PAWN : position.board[moveTo(move)] & 7;
+      const promotion = movePromotion(move);
+      let gain = PIECE_VALUES[PIECE_SYMBOLS[victim]] ?? 0;
+      if (promotion) gain += PIECE_VALUES[PIECE_SYMBOLS[promotion]] - PIECE_VALUES.p;
+      if (standPat + gain + DELTA_MARGIN <= alpha) continue;
     }
+
+    if (!position.makeMove(move)) continue;
+    legalMoves++;
+    const value = -quiescence(position, state, depth - 1, ply + 1, -beta, -alpha);
+    position.unmakeMove();
+    if (state.stopped) return 0;
+
+    bestValue = Math.max(bestValue, value);
+    alpha = Math.max(alpha, value);
+    if (alpha >= beta) break;
   }
-  return totalEvaluation;
+
+  if (inCheck && legalMoves === 0) return terminalValue(position, ply);
+  return bestValue;
 };
 
-const minimax = (
-  game: Chess,
+const negamax = (
+  position: Position,
+  state: SearchState,
   depth: number,
+  ply: number,
   alpha: number,
   beta: number,
-  isMaximizingPlayer: boolean
+  pv: number[]
 ): number => {
-  if (depth === 0 || game.isGameOver()) {
-    return -evaluateBoard(game); // Negate because the evaluation function is usually white-centric
+  state.nodes++;
+  checkLimits(state);
+  if (state.stopped) return 0;
+  pv.length = 0;
+
+  if (position.isDraw()) return 0;
+
+  // Check extension: never stop the search while the side to move is in check
+  if (position.inCheck() && ply < MAX_SEARCH_DEPTH / 2) depth++;
+
+  if (depth === 0) {
+    return quiescence(position, state, state.quiescenceDepth, ply, alpha, beta);
   }
 
-  const moves = game.moves();
-
-  if (isMaximizingPlayer) {
-    let maxEval = -Infinity;
-    for (const move of moves) {
-      game.move(move);
-      const evalValue = minimax(game, depth - 1, alpha, beta, false);
-      game.undo();
-      maxEval = Math.max(maxEval, evalValue);
-      alpha = Math.max(alpha, evalValue);
-      if (beta <= alpha) break;
+  let ttMove = 0;
+  const entry = state.table?.probe(position.keyLo, position.keyHi);
+  if (entry) {
+    ttMove = entry.move;
+    if (entry.depth >= depth) {
+      const ttValue = fromTableScore(entry.score, ply);
+      if (entry.bound === Bound.EXACT) {
+        if (ttMove) pv.push(ttMove);
+        return ttValue;
+      }
+      if (entry.bound === Bound.LOWER) alpha = Math.max(alpha, ttValue);
+      if (entry.bound === Bound.UPPER) beta = Math.min(beta, ttValue);
+      if (alpha >= beta) return ttValue;
     }
-    return maxEval;
-  } else {
-    let minEval = Infinity;
-    for (const move of moves) {
-      game.move(move);
-      const evalValue = minimax(game, depth - 1, alpha, beta, true);
-      game.undo();
-      minEval = Math.min(minEval, evalValue);
-      beta = Math.min(beta, evalValue);
-      if (beta <= alpha) break;
+  }
+
+  const alphaOrig = alpha;
+  const moves = orderMoves(position, position.generateMoves(), ttMove);
+  const childPv: number[] = [];
+  let bestValue = -Infinity;
+  let bestMove = 0;
+  let legalMoves = 0;
+
+  for (const move of moves) {
+    if (!position.makeMove(move)) continue;
+    legalMoves++;
+    const value = -negamax(position, state, depth - 1, ply + 1, -beta, -alpha, childPv);
+    position.unmakeMove();
+    if (state.stopped) return 0;
+
+    if (value > bestValue) {
+      bestValue = value;
+      bestMove = move;
+      pv.splice(0, pv.length, move, ...childPv);
     }
-    return minEval;
+    alpha = Math.max(alpha, value);
+    if (alpha >= beta) break;
+  }
+
+  if (legalMoves === 0) return terminalValue(position, ply);
+
+  const bound = bestValue <= alphaOrig ? Bound.UPPER : bestValue >= beta ? Bound.LOWER : Bound.EXACT;
+  state.table?.store(position.keyLo, position.keyHi, depth, toTableScore(bestValue, ply), bound, bestMove);
+  return bestValue;
+};
+
+// Replays the game so the search can recognise repetitions of earlier positions
+const positionFromGame = (game: Chess): Position => {
+  const history = game.history({ verbose: true });
+  const position = Position.fromFen(history.length > 0 ? history[0].before : game.fen());
+  for (const move of history) {
+    const replayed = position.findMove(move.lan);
+    if (replayed === null || !position.makeMove(replayed)) return Position.fromFen(game.fen());
   }
+  return position;
 };
 
-export const getBestMove = (game: Chess, difficulty: Difficulty): string | null => {
-  const possibleMoves = game.moves();
-  if (possibleMoves.length === 0) return null;
+// Table cutoffs cut the collected line short; follow stored best moves to fill it back in
+const extendPv = (position: Position, table: TranspositionTable | null, pv: number[], length: number): number[] => {
+  if (!table) return pv;
+  const line = [...pv];
+  let played = 0;
+  for (const move of line) {
+    if (!position.makeMove(move)) break;
+    played++;
+  }
+  while (played === line.length && line.length < length && !position.isRepetition()) {
+    const move = table.probe(position.keyLo, position.keyHi)?.move;
+    if (!move || !position.legalMoves().includes(move)) break;
+    position.makeMove(move);
+    line.push(move);
+    played++;
+  }
+  for (let i = 0; i < played; i++) position.unmakeMove();
+  return line;
+};
 
-  // Random move for very easy or start
-  if (difficulty === Difficulty.EASY && Math.random() < 0.3) {
-      return possibleMoves[Math.floor(Math.random() * possibleMoves.length)];
+const pvToSan = (position: Position, pv: number[]): string[] => {
+  const san: string[] = [];
+  for (const move of pv) {
+    const legal = position.legalMoves();
+    if (!legal.includes(move)) break;
+    san.push(position.moveToSan(move, legal));
+    position.makeMove(move);
   }
+  san.forEach(() => position.unmakeMove());
+  return san;
+};
 
-  let bestMove = null;
-  let bestValue = -Infinity;
-  
-  // Scramble moves slightly for variety at lower levels
-  possibleMoves.sort(() => Math.random() - 0.5);
+/**
+ * Iterative deepening search. Each completed depth replaces the result, so stopping on the
+ * time or node limit always returns the answer of the deepest fully searched iteration.
+ */
+export const search = (game: Chess, limits: SearchLimits, options: SearchOptions = {}): SearchResult => {
+  const { onProgress, useTranspositionTable = true, shouldStop } = options;
+  const startTime = Date.now();
+  const position = positionFromGame(game);
 
-  const searchDepth = difficulty; 
-
-  for (const move of possibleMoves) {
-    game.move(move);
-    // AI plays Black usually, so it wants to minimize White's score (which is Max in eval). 
-    // But minimax implementation above is generic.
-    // Let's assume AI is 'Black' in this context (minimizing white score).
-    // The evaluator returns +ve for White advantage.
-    // So if AI is Black, it wants the LOWEST score from the evaluator.
-    // However, usually Minimax is implemented such that the current player tries to MAXIMIZE their own score.
-    // Let's simplify: Standard Minimax.
-    // If AI is moving, we want to pick the move that results in the best state for AI.
-    
-    // We use a simplified Negamax approach concept here:
-    // Calling minimax with isMaximizingPlayer = false (opponent's turn)
-    const boardValue = minimax(game, searchDepth - 1, -100000, 100000, false);
-    
-    game.undo();
-
-    if (boardValue > bestValue) {
-      bestValue = boardValue;
-      bestMove = move;
+  const legal = position.legalMoves();
+  const sanByMove = new Map(legal.map((move) => [move, position.moveToSan(move, legal)]));
+  const rootMoves = limits.searchMoves
+    ? limits.searchMoves.map((san) => legal.find((move) => sanByMove.get(move) === san)).filter((move): move is number => move !== undefined)
+    : orderMoves(position, legal, 0);
+
+  const state: SearchState = {
+    nodes: 0,
+    deadline: limits.timeMs !== undefined ? startTime + limits.timeMs : Infinity,
+    nodeLimit: limits.nodes ?? Infinity,
+    canStop: false,
+    stopped: false,
+    // Scores from a cut-short quiescence search would mislead later full-strength searches
+    table: useTranspositionTable && limits.quiescenceDepth === undefined ? transpositionTable : null,
+    quiescenceDepth: limits.quiescenceDepth ?? MAX_SEARCH_DEPTH,
+    shouldStop,
+  };
+  state.table?.newSearch();
+
+  let result: SearchResult = {
+    bestMove: null,
+    score: legal.length === 0 && position.inCheck() ? { type: 'mate', value: 0 } : { type: 'cp', value: 0 },
+    depth: 0,
+    nodes: 0,
+    pv: [],
+    timeMs: 0,
+    lines: [],
+  };
+  if (rootMoves.length === 0) return result;
+
+  const maxDepth = Math.min(limits.maxDepth ?? MAX_SEARCH_DEPTH, MAX_SEARCH_DEPTH);
+  const multiPv = Math.max(1, limits.multiPv ?? 1);
+  const childPv: number[] = [];
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    state.canStop = depth > 1;
+    // The best multiPv moves so far, best first, each with an exact score
+    const lines: { move: number; value: number; pv: number[] }[] = [];
+
+    for (const move of rootMoves) {
+      // A move only needs an exact score if it could still displace one of the kept lines
+      const alpha = lines.length >= multiPv ? lines[multiPv - 1].value : -INFINITY_SCORE;
+      position.makeMove(move);
+      const boardValue = -negamax(position, state, depth - 1, 1, -INFINITY_SCORE, -alpha, childPv);
+      position.unmakeMove();
+      if (state.stopped) break;
+
+      if (boardValue > alpha) {
+        const index = lines.findIndex((line) => boardValue > line.value);
+        lines.splice(index === -1 ? lines.length : index, 0, { move, value: boardValue, pv: [move, ...childPv] });
+        lines.length = Math.min(lines.length, multiPv);
+      }
+
+      const [best] = lines;
+      onProgress?.({
+        depth,
+        nodes: state.nodes,
+        bestMove: best ? sanByMove.get(best.move)! : result.bestMove,
+        score: best ? toScore(best.value) : result.score,
+        pv: best ? pvToSan(position, best.pv) : result.pv,
+      });
+    }
+
+    if (state.stopped || lines.length === 0) break;
+
+    const searchLines = lines.map((line) => ({
+      move: sanByMove.get(line.move)!,
+      score: toScore(line.value),
+      pv: pvToSan(position, extendPv(position, state.table, line.pv, depth)),
+    }));
+    result = {
+      bestMove: searchLines[0].move,
+      score: searchLines[0].score,
+      depth,
+      nodes: state.nodes,
+      pv: searchLines[0].pv,
+      timeMs: Date.now() - startTime,
+      lines: searchLines,
+    };
+
+    // Search the previous best moves first so the next iteration cuts off sooner
+    for (const { move } of [...lines].reverse()) {
+      rootMoves.splice(rootMoves.indexOf(move), 1);
+      rootMoves.unshift(move);
     }
+
+    // With a clock running, a forced move needs no further thought
+    if (rootMoves.length === 1 && limits.timeMs !== undefined) break;
+    // A forced mate found within the horizon won't improve with depth
+    if (result.score.type === 'mate' && result.score.value > 0) break;
+    // The next iteration takes several times longer than this one; don't start what can't finish
+    if (Date.now() - startTime > (state.deadline - startTime) / 2) break;
   }
 
-  return bestMove || possibleMoves[0];
-};
\ No newline at end of file
+  return { ...result, nodes: state.nodes, timeMs: Date.now() - startTime };
+};
+
+/**
+ * Thinking time for one move from the engine's own clock: an even share of the remaining time
+ * over the moves still to play, plus most of the increment, never more than a third of what's left.
+ */
+export const budgetTime = (remainingMs: number, incrementMs = 0, movesToGo = 30): number => {
+  const share = remainingMs / Math.max(movesToGo, 1) + incrementMs * 0.8;
+  return Math.max(10, Math.floor(Math.min(share, remainingMs / 3)));
+};
+
+/**
+ * The bot's move at a strength level: a book move while the game is still in the level's opening
+ * book, otherwise a search limited to what that level can see, followed by the level's own choice
+ * among the best candidates, mistakes included. On a clock the bot budgets its thinking time from
+ * what it has left; the level's depth still caps how far it sees.
+ */
+export const getBestMove = (
+  game: Chess,
+  level: number,
+  onProgress?: (progress: SearchProgress) => void,
+  clock?: EngineClock
+): SearchResult => {
+  const strength = getStrengthLevel(level);
+  const bookMove = chooseBookMove(game, strength);
+  if (bookMove) return bookResult(bookMove);
+
+  const limits = strengthLimits(strength);
+  if (clock) limits.timeMs = budgetTime(clock.remainingMs, clock.incrementMs);
+  const possibleMoves = game.moves();
+
+  // Scramble moves so equally good replies vary from game to game
+  possibleMoves.sort(() => Math.random() - 0.5);
+
+  const result = search(game, { ...limits, searchMoves: possibleMoves }, { onProgress });
+  const chosen = chooseMove(result, strength);
+  if (!chosen || chosen.move === result.bestMove) return result;
+  return { ...result, bestMove: chosen.move, score: chosen.score, pv: chosen.pv };
+};
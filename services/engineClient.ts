@@ -0,0 +1,130 @@
+import { EngineClock, EngineHistory, SearchLimits, SearchProgress, SearchResult } from '../types';
+import type { EngineSearchRequest, EngineWorkerMessage } from './engineWorker';
+
+interface PendingSearch {
+  request: EngineSearchRequest;
+  resolve: (result: SearchResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: SearchProgress) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+// Searches in the order they were asked for; only the one in `runningId` is on the worker
+const pending = new Map<number, PendingSearch>();
+let runningId: number | null = null;
+
+const abortError = () => new DOMException('Engine search aborted', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const handleMessage = (event: MessageEvent<EngineWorkerMessage>) => {
+  const message = event.data;
+  const search = pending.get(message.id);
+  if (!search) return; // Stale message from an aborted search
+
+  switch (message.type) {
+    case 'progress':
+      search.onProgress?.(message.progress);
+      break;
+    case 'result':
+      finishSearch(message.id);
+      search.resolve(message.result);
+      break;
+    case 'error':
+      finishSearch(message.id);
+      search.reject(new Error(message.message));
+      break;
+  }
+};
+
+// Hands the oldest waiting search to the worker once it is free
+const startNextSearch = () => {
+  if (runningId !== null) return;
+  const next = pending.values().next().value;
+  if (!next) return;
+  runningId = next.request.id;
+  getWorker().postMessage(next.request);
+};
+
+const finishSearch = (id: number) => {
+  pending.delete(id);
+  if (id === runningId) runningId = null;
+  startNextSearch();
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./engineWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleMessage;
+    worker.onerror = (event) => {
+      // A crashed worker takes every queued search down with it
+      const error = new Error(event.message || 'Engine worker crashed');
+      pending.forEach((search) => search.reject(error));
+      pending.clear();
+      runningId = null;
+      terminateWorker();
+    };
+  }
+  return worker;
+};
+
+const terminateWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+export interface EngineRequestOptions {
+  onProgress?: (progress: SearchProgress) => void;
+  signal?: AbortSignal;
+  history?: EngineHistory; // The game's moves up to the FEN, so the engine sees repetitions
+}
+
+export interface PlayRequestOptions extends EngineRequestOptions {
+  clock?: EngineClock; // In a timed game the bot thinks for as long as its clock allows
+}
+
+/**
+ * Searches off the main thread and resolves with the engine's verdict (best move in SAN,
+ * score, depth, nodes and principal variation).
+ * Searches take turns on one worker. The running search is synchronous inside it, so aborting
+ * that one terminates the worker and a fresh one takes the next request; aborting a search
+ * that is still waiting just drops it.
+ */
+const requestSearch = (
+  payload: Omit<EngineSearchRequest, 'id'>,
+  options: EngineRequestOptions
+): Promise<SearchResult> => {
+  const { onProgress, signal } = options;
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+
+    const request: EngineSearchRequest = { id, ...payload };
+
+    signal?.addEventListener('abort', () => {
+      const search = pending.get(id);
+      if (!search) return;
+      if (id === runningId) {
+        terminateWorker();
+        runningId = null;
+      }
+      pending.delete(id);
+      search.reject(abortError());
+      startNextSearch();
+    }, { once: true });
+
+    pending.set(id, { request, resolve, reject, onProgress });
+    startNextSearch();
+  });
+};
+
+/** The bot's move at a strength level, deliberate mistakes included. */
+export const requestBestMove = (fen: string, level: number, options: PlayRequestOptions = {}): Promise<SearchResult> =>
+  requestSearch({ fen, level, clock: options.clock, history: options.history }, options);
+
+/** A full-strength search within the given limits, for hints and analysis. */
+export const requestAnalysis = (fen: string, limits: SearchLimits, options: EngineRequestOptions = {}): Promise<SearchResult> =>
+  requestSearch({ fen, limits, history: options.history }, options);
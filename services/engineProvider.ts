@@ -0,0 +1,60 @@
+import { EngineProviderId, EngineSettings, SearchLimits, SearchResult } from '../types';
+import { EngineRequestOptions, PlayRequestOptions, isAbortError, requestAnalysis, requestBestMove } from './engineClient';
+import { createUciBridgeEngine } from './uciBridgeEngine';
+
+/** A chess engine the app can play against and ask for analysis. */
+export interface EngineProvider {
+  id: EngineProviderId;
+  name: string;
+  // The bot's move at one of the app's strength levels
+  playMove: (fen: string, level: number, options?: PlayRequestOptions) => Promise<SearchResult>;
+  // Full-strength search within the limits
+  analyze: (fen: string, limits: SearchLimits, options?: EngineRequestOptions) => Promise<SearchResult>;
+}
+
+// The bundled engine, searching in a Web Worker
+export const builtInEngine: EngineProvider = {
+  id: 'builtin',
+  name: 'Built-in engine',
+  playMove: requestBestMove,
+  analyze: requestAnalysis,
+};
+
+export const ENGINE_PROVIDERS: EngineProvider[] = [builtInEngine, createUciBridgeEngine()];
+
+// Practice games keep the lightweight bot until the user picks otherwise
+export const DEFAULT_ENGINE_SETTINGS: EngineSettings = {
+  play: 'builtin',
+  hint: 'builtin',
+  analysis: 'builtin',
+};
+
+// Search budget behind a hint
+export const HINT_LIMITS: SearchLimits = { timeMs: 1000 };
+
+// Search budget behind the eval bar and graph, spent on each position shown
+export const EVAL_LIMITS: SearchLimits = { timeMs: 300 };
+
+// Search budget for each position of a game under review
+export const REVIEW_LIMITS: SearchLimits = { timeMs: 400 };
+
+export const getEngineProvider = (id: EngineProviderId): EngineProvider =>
+  ENGINE_PROVIDERS.find((provider) => provider.id === id) ?? builtInEngine;
+
+/**
+ * Runs a request on the chosen provider. If an external engine fails (bridge not running,
+ * engine crashed), the request is retried on the built-in engine so the game can go on.
+ */
+export const runWithFallback = async <T>(
+  provider: EngineProvider,
+  run: (provider: EngineProvider) => Promise<T>,
+  onFallback?: (error: Error) => void
+): Promise<T> => {
+  try {
+    return await run(provider);
+  } catch (error) {
+    if (provider === builtInEngine || isAbortError(error)) throw error;
+    onFallback?.(error instanceof Error ? error : new Error(String(error)));
+    return run(builtInEngine);
+  }
+};
@@ -0,0 +1,49 @@
+import { Chess } from 'chess.js';
+import { getBestMove, search } from './engine';
+import { EngineClock, EngineHistory, SearchLimits, SearchProgress, SearchResult } from '../types';
+
+// Messages exchanged between engineClient and this worker
+export interface EngineSearchRequest {
+  id: number;
+  fen: string;
+  // A strength level (see STRENGTH_LEVELS) plays the bot's move; limits alone run a
+  // full-strength analysis
+  level?: number;
+  limits?: SearchLimits;
+  clock?: EngineClock; // The bot's clock in a timed game
+  history?: EngineHistory; // Replayed so the search sees repetitions; must end at `fen`
+}
+
+export type EngineWorkerMessage =
+  | { type: 'progress'; id: number; progress: SearchProgress }
+  | { type: 'result'; id: number; result: SearchResult }
+  | { type: 'error'; id: number; message: string };
+
+const post = (message: EngineWorkerMessage) => self.postMessage(message);
+
+// The game as played when its moves come along, otherwise just the position
+const gameFromRequest = (fen: string, history?: EngineHistory): Chess => {
+  if (history) {
+    try {
+      const game = new Chess(history.startFen);
+      history.moves.forEach((san) => game.move(san));
+      if (game.fen() === fen) return game;
+    } catch {
+      // A history that doesn't play out is ignored
+    }
+  }
+  return new Chess(fen);
+};
+
+self.onmessage = (event: MessageEvent<EngineSearchRequest>) => {
+  const { id, fen, level, limits, clock, history } = event.data;
+  const onProgress = (progress: SearchProgress) => post({ type: 'progress', id, progress });
+
+  try {
+    const game = gameFromRequest(fen, history);
+    const result = level !== undefined ? getBestMove(game, level, onProgress, clock) : search(game, limits ?? {}, { onProgress });
+    post({ type: 'result', id, result });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
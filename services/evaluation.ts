@@ -0,0 +1,418 @@
+import { EvaluationBreakdown, EvaluationTerm, EvaluationWeights } from '../types';
+import {
+  Position,
+  PAWN,
+  KNIGHT,
+  BISHOP,
+  ROOK,
+  QUEEN,
+  KING,
+  BLACK,
+  WHITE,
+} from './position';
+
+// Nominal piece values, used where the search needs a quick material estimate (delta pruning)
+export const PIECE_VALUES: Record<string, number> = {
+  p: 100,
+  n: 320,
+  b: 330,
+  r: 500,
+  q: 900,
+  k: 20000,
+};
+
+// Middlegame and endgame values are blended by game phase (tapered evaluation).
+// Material and piece-square tables follow the PeSTO tuning, indexed by piece type code.
+const MATERIAL_MG = [0, 82, 337, 365, 477, 1025, 0];
+const MATERIAL_EG = [0, 94, 281, 297, 512, 936, 0];
+
+// Phase contributed by each piece type; 24 means all minor and major pieces are on the board
+const PHASE_WEIGHTS = [0, 0, 1, 1, 2, 4, 0];
+const MAX_PHASE = 24;
+
+// Tables are written from White's point of view with a8 first; Black reads them mirrored
+const PAWN_MG = [
+    0,   0,   0,   0,   0,   0,   0,   0,
+   98, 134,  61,  95,  68, 126,  34, -11,
+   -6,   7,  26,  31,  65,  56,  25, -20,
+  -14,  13,   6,  21,  23,  12,  17, -23,
+  -27,  -2,  -5,  12,  17,   6,  10, -25,
+  -26,  -4,  -4, -10,   3,   3,  33, -12,
+  -35,  -1, -20, -23, -15,  24,  38, -22,
+    0,   0,   0,   0,   0,   0,   0,   0,
+];
+
+const PAWN_EG = [
+    0,   0,   0,   0,   0,   0,   0,   0,
+  178, 173, 158, 134, 147, 132, 165, 187,
+   94, 100,  85,  67,  56,  53,  82,  84,
+   32,  24,  13,   5,  -2,   4,  17,  17,
+   13,   9,  -3,  -7,  -7,  -8,   3,  -1,
+    4,   7,  -6,   1,   0,  -5,  -1,  -8,
+   13,   8,   8,  10,  13,   0,   2,  -7,
+    0,   0,   0,   0,   0,   0,   0,   0,
+];
+
+const KNIGHT_MG = [
+  -167, -89, -34, -49,  61, -97, -15, -107,
+   -73, -41,  72,  36,  23,  62,   7,  -17,
+   -47,  60,  37,  65,  84, 129,  73,   44,
+    -9,  17,  19,  53,  37,  69,  18,   22,
+   -13,   4,  16,  13,  28,  19,  21,   -8,
+   -23,  -9,  12,  10,  19,  17,  25,  -16,
+   -29, -53, -12,  -3,  -1,  18, -14,  -19,
+  -105, -21, -58, -33, -17, -28, -19,  -23,
+];
+
+const KNIGHT_EG = [
+  -58, -38, -13, -28, -31, -27, -63, -99,
+  -25,  -8, -25,  -2,  -9, -25, -24, -52,
+  -24, -20,  10,   9,  -1,  -9, -19, -41,
+  -17,   3,  22,  22,  22,  11,   8, -18,
+  -18,  -6,  16,  25,  16,  17,   4, -18,
+  -23,  -3,  -1,  15,  10,  -3, -20, -22,
+  -42, -20, -10,  -5,  -2, -20, -23, -44,
+  -29, -51, -23, -15, -22, -18, -50, -64,
+];
+
+const BISHOP_MG = [
+  -29,   4, -82, -37, -25, -42,   7,  -8,
+  -26,  16, -18, -13,  30,  59,  18, -47,
+  -16,  37,  43,  40,  35,  50,  37,  -2,
+   -4,   5,  19,  50,  37,  37,   7,  -2,
+   -6,  13,  13,  26,  34,  12,  10,   4,
+    0,  15,  15,  15,  14,  27,  18,  10,
+    4,  15,  16,   0,   7,  21,  33,   1,
+  -33,  -3, -14, -21, -13, -12, -39, -21,
+];
+
+const BISHOP_EG = [
+  -14, -21, -11,  -8,  -7,  -9, -17, -24,
+   -8,  -4,   7, -12,  -3, -13,  -4, -14,
+    2,  -8,   0,  -1,  -2,   6,   0,   4,
+   -3,   9,  12,   9,  14,  10,   3,   2,
+   -6,   3,  13,  19,   7,  10,  -3,  -9,
+  -12,  -3,   8,  10,  13,   3,  -7, -15,
+  -14, -18,  -7,  -1,   4,  -9, -15, -27,
+  -23,  -9, -23,  -5,  -9, -16,  -5, -17,
+];
+
+const ROOK_MG = [
+   32,  42,  32,  51,  63,   9,  31,  43,
+   27,  32,  58,  62,  80,  67,  26,  44,
+   -5,  19,  26,  36,  17,  45,  61,  16,
+  -24, -11,   7,  26,  24,  35,  -8, -20,
+  -36, -26, -12,  -1,   9,  -7,   6, -23,
+  -45, -25, -16, -17,   3,   0,  -5, -33,
+  -44, -16, -20,  -9,  -1,  11,  -6, -71,
+  -19, -13,   1,  17,  16,   7, -37, -26,
+];
+
+const ROOK_EG = [
+   13,  10,  18,  15,  12,  12,   8,   5,
+   11,  13,  13,  11,  -3,   3,   8,   3,
+    7,   7,   7,   5,   4,  -3,  -5,  -3,
+    4,   3,  13,   1,   2,   1,  -1,   2,
+    3,   5,   8,   4,  -5,  -6,  -8, -11,
+   -4,   0,  -5,  -1,  -7, -12,  -8, -16,
+   -6,  -6,   0,   2,  -9,  -9, -11,  -3,
+   -9,   2,   3,  -1,  -5, -13,   4, -20,
+];
+
+const QUEEN_MG = [
+  -28,   0,  29,  12,  59,  44,  43,  45,
+  -24, -39,  -5,   1, -16,  57,  28,  54,
+  -13, -17,   7,   8,  29,  56,  47,  57,
+  -27, -27, -16, -16,  -1,  17,  -2,   1,
+   -9, -26,  -9, -10,  -2,  -4,   3,  -3,
+  -14,   2, -11,  -2,  -5,   2,  14,   5,
+  -35,  -8,  11,   2,   8,  15,  -3,   1,
+   -1, -18,  -9,  10, -15, -25, -31, -50,
+];
+
+const QUEEN_EG = [
+   -9,  22,  22,  27,  27,  19,  10,  20,
+  -17,  20,  32,  41,  58,  25,  30,   0,
+  -20,   6,   9,  49,  47,  35,  19,   9,
+    3,  22,  24,  45,  57,  40,  57,  36,
+  -18,  28,  19,  47,  31,  34,  39,  23,
+  -16, -27,  15,   6,   9,  17,  10,   5,
+  -22, -23, -30, -16, -16, -23, -36, -32,
+  -33, -28, -22, -43,  -5, -32, -20, -41,
+];
+
+// The middlegame king wants to hide behind its pawns; the endgame king wants the centre
+const KING_MG = [
+  -65,  23,  16, -15, -56, -34,   2,  13,
+   29,  -1, -20,  -7,  -8,  -4, -38, -29,
+   -9,  24,   2, -16, -20,   6,  22, -22,
+  -17, -20, -12, -27, -30, -25, -14, -36,
+  -49,  -1, -27, -39, -46, -44, -33, -51,
+  -14, -14, -22, -46, -44, -30, -15, -27,
+    1,   7,  -8, -64, -43, -16,   9,   8,
+  -15,  36,  12, -54,   8, -28,  24,  14,
+];
+
+const KING_EG = [
+  -74, -35, -18, -18, -11,  15,   4, -17,
+  -12,  17,  14,  17,  17,  38,  23,  11,
+   10,  17,  23,  15,  20,  45,  44,  13,
+   -8,  22,  24,  27,  26,  33,  26,   3,
+  -18,  -4,  21,  24,  27,  23,   9, -11,
+  -19,  -3,  11,  21,  23,  16,   7,  -9,
+  -27, -11,   4,  13,  14,   4,  -5, -17,
+  -53, -34, -21, -11, -28, -14, -24, -43,
+];
+
+const PST_MG = [[], PAWN_MG, KNIGHT_MG, BISHOP_MG, ROOK_MG, QUEEN_MG, KING_MG];
+const PST_EG = [[], PAWN_EG, KNIGHT_EG, BISHOP_EG, ROOK_EG, QUEEN_EG, KING_EG];
+
+// Passed pawn bonus by how far the pawn has advanced (index 1 = still on its starting rank)
+const PASSED_PAWN_MG = [0, 5, 10, 15, 25, 40, 60, 0];
+const PASSED_PAWN_EG = [0, 10, 20, 35, 60, 100, 150, 0];
+
+const DOUBLED_PAWN_MG = -10;
+const DOUBLED_PAWN_EG = -20;
+const ISOLATED_PAWN_MG = -15;
+const ISOLATED_PAWN_EG = -10;
+
+const ROOK_OPEN_FILE_MG = 25;
+const ROOK_OPEN_FILE_EG = 10;
+const ROOK_SEMI_OPEN_FILE_MG = 12;
+const ROOK_SEMI_OPEN_FILE_EG = 6;
+
+// Mobility is scored relative to a typical move count, per piece type
+const MOBILITY_BASELINE = [0, 0, 4, 7, 7, 14, 0];
+const MOBILITY_MG = [0, 0, 4, 5, 2, 1, 0];
+const MOBILITY_EG = [0, 0, 4, 5, 4, 2, 0];
+
+// King shelter is a middlegame concern, so these only carry middlegame weight
+const SHELTER_MISSING_PAWN = -15;
+const SHELTER_ADVANCED_PAWN = -7;
+const SHELTER_OPEN_FILE = -10;
+
+const KNIGHT_OFFSETS = [-33, -31, -18, -14, 14, 18, 31, 33];
+const BISHOP_DIRECTIONS = [-17, -15, 15, 17];
+const ROOK_DIRECTIONS = [-16, -1, 1, 16];
+const QUEEN_DIRECTIONS = [-17, -16, -15, -1, 1, 15, 16, 17];
+
+export const EVALUATION_TERMS: EvaluationTerm[] = [
+  'material',
+  'pieceSquares',
+  'passedPawns',
+  'doubledPawns',
+  'isolatedPawns',
+  'rookFiles',
+  'mobility',
+  'kingShelter',
+];
+
+const MATERIAL = 0;
+const PIECE_SQUARES = 1;
+const PASSED_PAWNS = 2;
+const DOUBLED_PAWNS = 3;
+const ISOLATED_PAWNS = 4;
+const ROOK_FILES = 5;
+const MOBILITY = 6;
+const KING_SHELTER = 7;
+
+// Scratch accumulator reused by every call: [term][color][middlegame, endgame]
+const scores = new Int32Array(EVALUATION_TERMS.length * 4);
+
+// Scale on each term's contribution to evaluate(); all 1 unless a match is trying out a variant
+const termWeights = new Float64Array(EVALUATION_TERMS.length).fill(1);
+
+/** Reweights the evaluation's terms; any term left out goes back to full weight. */
+export const setEvaluationWeights = (weights: EvaluationWeights = {}) => {
+  EVALUATION_TERMS.forEach((term, index) => {
+    termWeights[index] = weights[term] ?? 1;
+  });
+};
+
+const add = (term: number, color: number, mg: number, eg: number) => {
+  const index = term * 4 + (color >> 3) * 2;
+  scores[index] += mg;
+  scores[index + 1] += eg;
+};
+
+// Number of ranks a pawn has advanced, 0 = its own back rank
+const relativeRank = (square: number, color: number) =>
+  color === WHITE ? 7 - (square >> 4) : square >> 4;
+
+const countMobility = (board: Int8Array, from: number, type: number, color: number): number => {
+  let count = 0;
+  if (type === KNIGHT) {
+    for (const offset of KNIGHT_OFFSETS) {
+      const to = from + offset;
+      if (!(to & 0x88) && (!board[to] || (board[to] & BLACK) !== color)) count++;
+    }
+    return count;
+  }
+  const directions = type === BISHOP ? BISHOP_DIRECTIONS : type === ROOK ? ROOK_DIRECTIONS : QUEEN_DIRECTIONS;
+  for (const direction of directions) {
+    for (let to = from + direction; !(to & 0x88); to += direction) {
+      if (!board[to]) {
+        count++;
+        continue;
+      }
+      if ((board[to] & BLACK) !== color) count++;
+      break;
+    }
+  }
+  return count;
+};
+
+/** Fills the scratch accumulator and returns the game phase (0 = bare endgame, 24 = opening). */
+const accumulate = (position: Position): number => {
+  scores.fill(0);
+  const board = position.board;
+
+  // Each side's pawns per file, for the isolated and doubled pawn, rook file and king shelter terms
+  const pawnFiles = [new Int8Array(8), new Int8Array(8)];
+  let phase = 0;
+
+  for (let square = 0; square < 128; square++) {
+    if (square & 0x88) {
+      square += 7;
+      continue;
+    }
+    const piece = board[square];
+    if (!piece) continue;
+    const type = piece & 7;
+    const color = piece & BLACK;
+    const index = color === WHITE ? (square >> 4) * 8 + (square & 7) : (7 - (square >> 4)) * 8 + (square & 7);
+
+    add(MATERIAL, color, MATERIAL_MG[type], MATERIAL_EG[type]);
+    add(PIECE_SQUARES, color, PST_MG[type][index], PST_EG[type][index]);
+    phase += PHASE_WEIGHTS[type];
+    if (type === PAWN) pawnFiles[color >> 3][square & 7]++;
+  }
+
+  for (let square = 0; square < 128; square++) {
+    if (square & 0x88) {
+      square += 7;
+      continue;
+    }
+    const piece = board[square];
+    if (!piece) continue;
+    const type = piece & 7;
+    const color = piece & BLACK;
+    const file = square & 7;
+    const ownPawns = pawnFiles[color >> 3];
+    const enemyPawns = pawnFiles[(color ^ BLACK) >> 3];
+
+    if (type === PAWN) {
+      if (!(file > 0 && ownPawns[file - 1]) && !(file < 7 && ownPawns[file + 1])) {
+        add(ISOLATED_PAWNS, color, ISOLATED_PAWN_MG, ISOLATED_PAWN_EG);
+      }
+
+      // Passed: no enemy pawn ahead of it on its own or an adjacent file
+      const forward = color === WHITE ? -16 : 16;
+      let passed = true;
+      for (let ahead = square + forward; !(ahead & 0x88) && passed; ahead += forward) {
+        for (const side of [-1, 0, 1]) {
+          const target = ahead + side;
+          if (!(target & 0x88) && board[target] === (PAWN | (color ^ BLACK))) passed = false;
+        }
+      }
+      if (passed) {
+        const rank = relativeRank(square, color);
+        add(PASSED_PAWNS, color, PASSED_PAWN_MG[rank], PASSED_PAWN_EG[rank]);
+      }
+    } else if (type === KING) {
+      // Pawn shield on the king's file and its neighbours, one or two ranks in front
+      const forward = color === WHITE ? -16 : 16;
+      let penalty = 0;
+      for (let shieldFile = Math.max(0, file - 1); shieldFile <= Math.min(7, file + 1); shieldFile++) {
+        const near = square + forward + (shieldFile - file);
+        const far = near + forward;
+        if (!(near & 0x88) && board[near] === (PAWN | color)) continue;
+        penalty += !(far & 0x88) && board[far] === (PAWN | color) ? SHELTER_ADVANCED_PAWN : SHELTER_MISSING_PAWN;
+        if (!ownPawns[shieldFile]) penalty += SHELTER_OPEN_FILE;
+      }
+      add(KING_SHELTER, color, penalty, 0);
+    } else {
+      const moves = countMobility(board, square, type, color);
+      add(
+        MOBILITY,
+        color,
+        (moves - MOBILITY_BASELINE[type]) * MOBILITY_MG[type],
+        (moves - MOBILITY_BASELINE[type]) * MOBILITY_EG[type]
+      );
+
+      if (type === ROOK && !ownPawns[file]) {
+        if (!enemyPawns[file]) add(ROOK_FILES, color, ROOK_OPEN_FILE_MG, ROOK_OPEN_FILE_EG);
+        else add(ROOK_FILES, color, ROOK_SEMI_OPEN_FILE_MG, ROOK_SEMI_OPEN_FILE_EG);
+      }
+    }
+  }
+
+  for (let file = 0; file < 8; file++) {
+    for (const color of [WHITE, BLACK]) {
+      const extra = pawnFiles[color >> 3][file] - 1;
+      if (extra > 0) add(DOUBLED_PAWNS, color, DOUBLED_PAWN_MG * extra, DOUBLED_PAWN_EG * extra);
+    }
+  }
+
+  return Math.min(phase, MAX_PHASE);
+};
+
+const taper = (mg: number, eg: number, phase: number) => (mg * phase + eg * (MAX_PHASE - phase)) / MAX_PHASE;
+
+/** Static evaluation in centipawns; positive favours White. */
+export const evaluate = (position: Position): number => {
+  const phase = accumulate(position);
+  let mg = 0;
+  let eg = 0;
+  for (let term = 0; term < EVALUATION_TERMS.length; term++) {
+    mg += (scores[term * 4] - scores[term * 4 + 2]) * termWeights[term];
+    eg += (scores[term * 4 + 1] - scores[term * 4 + 3]) * termWeights[term];
+  }
+  return Math.round(taper(mg, eg, phase));
+};
+
+/**
+ * The same evaluation split into its terms, each weighted and tapered as evaluate() does and given
+ * per side, so the sides' differences add up to the total (give or take rounding).
+ */
+export const explainEvaluation = (fen: string): EvaluationBreakdown => {
+  const position = Position.fromFen(fen);
+  const phase = accumulate(position);
+  const terms = {} as EvaluationBreakdown['terms'];
+
+  EVALUATION_TERMS.forEach((term, index) => {
+    const weight = termWeights[index];
+    terms[term] = {
+      white: Math.round(taper(scores[index * 4] * weight, scores[index * 4 + 1] * weight, phase)),
+      black: Math.round(taper(scores[index * 4 + 2] * weight, scores[index * 4 + 3] * weight, phase)),
+    };
+  });
+
+  return { phase: phase / MAX_PHASE, total: evaluate(position), terms };
+};
+
+// How each term is named to players
+export const TERM_LABELS: Record<EvaluationTerm, string> = {
+  material: 'material',
+  pieceSquares: 'piece placement',
+  passedPawns: 'passed pawns',
+  doubledPawns: 'doubled pawns',
+  isolatedPawns: 'isolated pawns',
+  rookFiles: 'rooks on open files',
+  mobility: 'mobility',
+  kingShelter: 'king shelter',
+};
+
+/** One-line summary of the terms that separate the two sides most, for coach prompts. */
+export const summarizeEvaluation = (breakdown: EvaluationBreakdown): string => {
+  const pawns = (cp: number) => `${cp >= 0 ? '+' : ''}${(cp / 100).toFixed(2)}`;
+  const leaders = EVALUATION_TERMS
+    .map((term) => ({ term, diff: breakdown.terms[term].white - breakdown.terms[term].black }))
+    .filter(({ diff }) => Math.abs(diff) >= 15)
+    .sort((a, b) => Math.abs(b.diff) - Math.abs(a.diff))
+    .slice(0, 3)
+    .map(({ term, diff }) => `${TERM_LABELS[term]} ${pawns(diff)}`);
+
+  const phase = breakdown.phase > 0.66 ? 'middlegame' : breakdown.phase > 0.25 ? 'late middlegame' : 'endgame';
+  return `${pawns(breakdown.total)} for White (${phase})${leaders.length ? `: ${leaders.join(', ')}` : ', balanced'}`;
+};
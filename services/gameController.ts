@@ -0,0 +1,399 @@
+import { Chess, Move } from 'chess.js';
+import {
+  BoardAnnotation,
+  ClockState,
+  CoachProviderId,
+  CoachSettings,
+  EngineProviderId,
+  EngineSettings,
+  GameOutcome,
+  GameTree,
+  PgnGame,
+  PieceColor,
+  PieceType,
+  SearchProgress,
+  TimeControl,
+} from '../types';
+import { DEFAULT_ENGINE_SETTINGS, EngineProvider, getEngineProvider, runWithFallback } from './engineProvider';
+import { CoachProvider, DEFAULT_COACH_SETTINGS, getCoachProvider } from './coachProvider';
+import { coachQueue } from './coachQueue';
+import { isAbortError } from './engineClient';
+import { addMove, boardAt, createGameTree, lineEnd, openingAt, setNodeAnnotations, setNodeComment, takeBackTarget, toPgn } from './gameTree';
+import { formatOpening } from './openings';
+import { playerHeaders } from './pgn';
+import { DEFAULT_LEVEL, getStrengthLevel } from './strength';
+import { checkFlag, createClock, describeFlag, engineClock, flagResult, pressClock, resumeClock, stopClock, switchClock, timeControlHeaders } from './clock';
+
+/** The pieces each side has lost since the position the game started from. */
+export const capturedPieces = (board: Chess, startFen: string): Record<PieceColor, PieceType[]> => {
+  const countPieces = (position: Chess) => {
+    const counts: Record<string, number> = {};
+    position.board().flat().forEach((piece) => {
+      if (piece) counts[`${piece.color}${piece.type}`] = (counts[`${piece.color}${piece.type}`] ?? 0) + 1;
+    });
+    return counts;
+  };
+  const current = countPieces(board);
+  const captured: Record<PieceColor, PieceType[]> = { [PieceColor.WHITE]: [], [PieceColor.BLACK]: [] };
+  Object.entries(countPieces(new Chess(startFen))).forEach(([key, initial]) => {
+    for (let count = current[key] ?? 0; count < initial; count++) captured[key[0] as PieceColor].push(key[1] as PieceType);
+  });
+  return captured;
+};
+
+/** How the game at `board` has ended, or null while it goes on. A side flagged on the clock loses there and then. */
+export const gameOutcome = (board: Chess, flagged: PieceColor | null = null): GameOutcome | null => {
+  if (flagged) return { result: flagResult(board, flagged), reason: describeFlag(board, flagged) };
+  if (board.isCheckmate()) {
+    return board.turn() === 'w' ? { result: '0-1', reason: 'Checkmate! Black wins.' } : { result: '1-0', reason: 'Checkmate! White wins.' };
+  }
+  if (board.isStalemate()) return { result: '1/2-1/2', reason: 'Stalemate! The game is drawn.' };
+  if (board.isInsufficientMaterial()) return { result: '1/2-1/2', reason: 'Draw: neither side can mate.' };
+  if (board.isThreefoldRepetition()) return { result: '1/2-1/2', reason: 'Draw by threefold repetition.' };
+  if (board.isDraw()) return { result: '1/2-1/2', reason: 'Draw by the fifty-move rule.' };
+  return null;
+};
+
+// What happens in a game, for the views to follow
+export type GameEvent =
+  | { type: 'move'; nodeId: number; san: string; byBot: boolean }
+  | { type: 'live'; nodeId: number | null } // The game continues from another node (null: only a loaded game to look at)
+  | { type: 'thinking'; thinking: boolean }
+  | { type: 'progress'; progress: SearchProgress }
+  | { type: 'commentary'; nodeId: number; text: string } // Kept as the move's PGN comment too
+  | { type: 'notice'; text: string } // Such as an external engine failing over to the built-in one
+  | { type: 'gameOver'; outcome: GameOutcome }
+  | { type: 'change' }; // Settings, clock or drawings
+
+// The game as it stands after the latest event. The board is the controller's own: read it, don't move on it.
+export interface GameState {
+  game: Chess;
+  fen: string;
+  tree: GameTree;
+  liveId: number | null;
+  clock: ClockState | null;
+  playerColor: PieceColor;
+  level: number;
+  engineSettings: EngineSettings;
+  coachSettings: CoachSettings;
+  timeControl: TimeControl | null; // For new games; the clock has the current game's
+  thinking: boolean;
+  progress: SearchProgress | null;
+  paused: boolean;
+  outcome: GameOutcome | null; // null while the live game goes on, or with no live game
+  playerToMove: boolean; // Whether the player may move on the live board now
+}
+
+export interface GameControllerOptions {
+  playerColor: PieceColor;
+  level: number;
+  engineSettings: EngineSettings;
+  coachSettings: CoachSettings;
+  timeControl: TimeControl | null;
+  botCommentaryChance: number; // Share of the bot's moves the coach talks about; the player's always get a word
+  getEngine: (id: EngineProviderId) => EngineProvider;
+  getCoach: (id: CoachProviderId) => CoachProvider;
+  queue: typeof coachQueue;
+  random: () => number;
+}
+
+const DEFAULT_OPTIONS: GameControllerOptions = {
+  playerColor: PieceColor.WHITE,
+  level: DEFAULT_LEVEL,
+  engineSettings: DEFAULT_ENGINE_SETTINGS,
+  coachSettings: DEFAULT_COACH_SETTINGS,
+  timeControl: null,
+  botCommentaryChance: 0.5,
+  getEngine: getEngineProvider,
+  getCoach: getCoachProvider,
+  queue: coachQueue,
+  random: Math.random,
+};
+
+/**
+ * A game against the bot with no UI attached: the board and the tree of moves, the bot's turns,
+ * the clock, the coach's commentary and the result. Views subscribe to its events and draw
+ * getState(); the state object is replaced on every event, so it can be compared by identity.
+ */
+export const createGameController = (overrides: Partial<GameControllerOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  let { playerColor, level, engineSettings, coachSettings, timeControl } = options;
+  let tree = createGameTree();
+  let liveId: number | null = tree.rootId;
+  let game = boardAt(tree, tree.rootId);
+  let clock = timeControl && createClock(timeControl);
+  let search: AbortController | null = null;
+  let progress: SearchProgress | null = null;
+  // Puzzles put the game on hold: no bot moves, and the clock stopped if it was running
+  let paused = false;
+  let clockWasRunning = false;
+  const listeners = new Set<(event: GameEvent) => void>();
+
+  const outcome = () => (liveId === null ? null : gameOutcome(game, clock?.flagged ?? null));
+
+  const snapshot = (): GameState => {
+    const ended = outcome();
+    return {
+      game,
+      fen: game.fen(),
+      tree,
+      liveId,
+      clock,
+      playerColor,
+      level,
+      engineSettings,
+      coachSettings,
+      timeControl,
+      thinking: search !== null,
+      progress,
+      paused,
+      outcome: ended,
+      playerToMove: liveId !== null && !ended && !paused && search === null && game.turn() === playerColor,
+    };
+  };
+  let state = snapshot();
+
+  const emit = (event: GameEvent) => {
+    state = snapshot();
+    listeners.forEach((listener) => listener(event));
+  };
+
+  const subscribe = (listener: (event: GameEvent) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  // The coach's take on a move, told which opening the game is in. The player's and the bot's
+  // moves have a channel each, so the bot's quick reply doesn't cancel the player's word; a
+  // newer move's request replaces the last one on its side.
+  const requestCommentary = (nodeId: number, san: string, byBot: boolean) => {
+    const reached = openingAt(tree, nodeId);
+    options.queue
+      .ask(byBot ? 'botCommentary' : 'playerCommentary', options.getCoach(coachSettings.provider), coachSettings, {
+        kind: 'commentary',
+        fen: game.fen(),
+        lastMove: san,
+        history: game.history(),
+        opening: reached ? formatOpening(reached) : undefined,
+      })
+      .then((text) => {
+        tree = setNodeComment(tree, nodeId, text);
+        emit({ type: 'commentary', nodeId, text });
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) console.error('Coach error:', error);
+      });
+  };
+
+  // Adds a move just made on the board at the live node (reusing it if it was played there
+  // before) and follows it. The clock stops when the move ends the game.
+  const recordMove = (move: Move, byBot: boolean) => {
+    let nodeId: number;
+    if (clock) clock = pressClock(clock, move.color as PieceColor);
+    ({ tree, nodeId } = addMove(tree, liveId!, move.san));
+    liveId = nodeId;
+    const ended = gameOutcome(game);
+    if (ended && clock) clock = stopClock(clock);
+    emit({ type: 'move', nodeId, san: move.san, byBot });
+    if (ended) emit({ type: 'gameOver', outcome: ended });
+    return nodeId;
+  };
+
+  const cancelBotMove = () => {
+    if (!search) return;
+    search.abort();
+    search = null;
+    progress = null;
+    emit({ type: 'thinking', thinking: false });
+  };
+
+  // The bot plays if it is its move in the live game
+  const botMove = async () => {
+    if (liveId === null || paused || search || outcome() || game.turn() === playerColor) return;
+    const controller = new AbortController();
+    search = controller;
+    emit({ type: 'thinking', thinking: true });
+
+    try {
+      const fen = game.fen();
+      const { bestMove } = await runWithFallback(
+        options.getEngine(engineSettings.play),
+        (engine) => engine.playMove(fen, level, {
+          signal: controller.signal,
+          clock: clock ? engineClock(clock, game.turn() as PieceColor) : undefined,
+          history: { startFen: tree.nodes[tree.rootId].fen, moves: game.history() },
+          onProgress: (update) => {
+            progress = update;
+            emit({ type: 'progress', progress: update });
+          },
+        }),
+        (error) => emit({ type: 'notice', text: `${error.message}. The built-in engine takes over.` })
+      );
+      if (search !== controller) return;
+      search = null;
+      progress = null;
+      if (bestMove) {
+        const move = game.move(bestMove);
+        const nodeId = recordMove(move, true);
+        if (options.random() < options.botCommentaryChance) requestCommentary(nodeId, move.san, true);
+      }
+    } catch (error) {
+      if (search !== controller) return; // Whoever cancelled has moved on
+      search = null;
+      progress = null;
+      if (!isAbortError(error)) console.error('Engine error:', error);
+    }
+    emit({ type: 'thinking', thinking: false });
+  };
+
+  /** Plays the player's move if it is theirs to make and legal; the new node's id, or null. */
+  const move = (from: string, to: string, promotion?: PieceType): number | null => {
+    if (!state.playerToMove) return null;
+    let played: Move;
+    try {
+      played = game.move({ from, to, promotion });
+    } catch {
+      return null;
+    }
+    const nodeId = recordMove(played, false);
+    requestCommentary(nodeId, played.san, false);
+    botMove();
+    return nodeId;
+  };
+
+  /**
+   * Makes the node the live game's position; the moves after it stay in the tree. A running clock
+   * carries on for whoever is to move there, and the bot replies if that is its side.
+   */
+  const playFrom = (nodeId: number) => {
+    cancelBotMove();
+    game = boardAt(tree, nodeId);
+    if (clock) clock = switchClock(clock, game.turn() as PieceColor);
+    liveId = nodeId;
+    emit({ type: 'live', nodeId });
+    botMove();
+  };
+
+  /** Undoes the player's last move and the bot's reply; false if there is nothing to take back. */
+  const takeBack = () => {
+    const target = liveId !== null ? takeBackTarget(tree, liveId, playerColor) : null;
+    if (target === null) return false;
+    playFrom(target);
+    return true;
+  };
+
+  /** Starts again from the standard position or a set-up one, on a fresh clock. The bot opens if it is to move. */
+  const newGame = ({ startFen, side = playerColor }: { startFen?: string; side?: PieceColor } = {}) => {
+    options.queue.cancelAll();
+    playerColor = side;
+    tree = createGameTree({}, startFen);
+    clock = timeControl && createClock(timeControl);
+    playFrom(tree.rootId);
+  };
+
+  /** Shows a game from elsewhere, such as an imported PGN, with no live game until playFrom picks a move. */
+  const loadGame = (loaded: GameTree) => {
+    cancelBotMove();
+    options.queue.cancelAll();
+    tree = loaded;
+    game = boardAt(loaded, lineEnd(loaded, loaded.rootId));
+    liveId = null;
+    clock = clock && stopClock(clock);
+    emit({ type: 'live', nodeId: null });
+  };
+
+  const pause = () => {
+    if (paused) return;
+    cancelBotMove();
+    paused = true;
+    clockWasRunning = !!clock?.running;
+    if (clock) clock = stopClock(clock);
+    emit({ type: 'change' });
+  };
+
+  const resume = () => {
+    if (!paused) return;
+    paused = false;
+    if (clock && clockWasRunning) clock = resumeClock(clock, game.turn() as PieceColor);
+    clockWasRunning = false;
+    emit({ type: 'change' });
+    botMove();
+  };
+
+  /** Checks the running clock; called a few times a second by the view. Running out of time ends the game. */
+  const tick = (now = Date.now()) => {
+    if (!clock?.running) return;
+    const checked = checkFlag(clock, now);
+    if (!checked.flagged) return;
+    clock = checked;
+    cancelBotMove();
+    emit({ type: 'gameOver', outcome: outcome()! });
+  };
+
+  const setLevel = (next: number) => {
+    level = next;
+    emit({ type: 'change' });
+  };
+
+  const setEngineSettings = (next: EngineSettings) => {
+    engineSettings = next;
+    emit({ type: 'change' });
+  };
+
+  const setCoachSettings = (next: CoachSettings) => {
+    coachSettings = next;
+    emit({ type: 'change' });
+  };
+
+  /** The time control for new games; it takes over at once if the game hasn't started. */
+  const setTimeControl = (next: TimeControl | null) => {
+    timeControl = next;
+    if (tree.nodes[tree.rootId].children.length === 0 && liveId === tree.rootId) clock = next && createClock(next);
+    emit({ type: 'change' });
+  };
+
+  const setAnnotations = (nodeId: number, annotations: BoardAnnotation[]) => {
+    tree = setNodeAnnotations(tree, nodeId, annotations);
+    emit({ type: 'change' });
+  };
+
+  /** The game as PGN. A loaded game is kept as it came; a game against the bot names the players and the result. */
+  const gameRecord = (): PgnGame => {
+    const record = toPgn(tree);
+    if (liveId === null) return record;
+    const ended = gameOutcome(boardAt(tree, liveId), clock?.flagged ?? null);
+    return {
+      ...record,
+      headers: {
+        ...record.headers,
+        ...playerHeaders(playerColor, getStrengthLevel(level)),
+        ...(clock ? timeControlHeaders(clock.control) : {}),
+        ...(clock?.flagged ? { Termination: 'time forfeit' } : {}),
+      },
+      result: ended?.result ?? '*',
+    };
+  };
+
+  return {
+    subscribe,
+    getState: () => state,
+    move,
+    takeBack,
+    playFrom,
+    newGame,
+    loadGame,
+    pause,
+    resume,
+    tick,
+    setLevel,
+    setEngineSettings,
+    setCoachSettings,
+    setTimeControl,
+    setAnnotations,
+    gameRecord,
+  };
+};
+
+export type GameController = ReturnType<typeof createGameController>;
@@ -0,0 +1,194 @@
+import { Chess } from 'chess.js';
+import { BoardAnnotation, GameTree, MoveNode, PgnGame, PgnMove } from '../types';
+import { createPgnGame, getStartFen } from './pgn';
+import { formatAnnotations, parseAnnotations } from './annotations';
+import { identifyOpening } from './openings';
+
+// Ids are unique across trees, so a node id from a game that has since been replaced finds nothing
+let nextNodeId = 1;
+
+export const createGameTree = (headers: Record<string, string> = {}, startFen?: string): GameTree =>
+  fromPgn(createPgnGame(headers, startFen));
+
+/**
+ * Plays `san` from the given node. A move already in the tree is reused; a new one is added
+ * after the existing children, so playing something else never overwrites a line.
+ */
+export const addMove = (tree: GameTree, parentId: number, san: string): { tree: GameTree; nodeId: number } => {
+  const parent = tree.nodes[parentId];
+  const move = new Chess(parent.fen).move(san);
+  const existing = parent.children.find((id) => tree.nodes[id].san === move.san);
+  if (existing !== undefined) return { tree, nodeId: existing };
+
+  const node: MoveNode = {
+    id: nextNodeId++,
+    parentId,
+    san: move.san,
+    from: move.from,
+    to: move.to,
+    fen: move.after,
+    children: [],
+  };
+  return {
+    tree: {
+      ...tree,
+      nodes: { ...tree.nodes, [node.id]: node, [parentId]: { ...parent, children: [...parent.children, node.id] } },
+    },
+    nodeId: node.id,
+  };
+};
+
+export const setNodeComment = (tree: GameTree, nodeId: number, comment: string): GameTree => {
+  const node = tree.nodes[nodeId];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [nodeId]: { ...node, comment } } };
+};
+
+export const setNodeAnnotations = (tree: GameTree, nodeId: number, annotations: BoardAnnotation[]): GameTree => {
+  const node = tree.nodes[nodeId];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [nodeId]: { ...node, annotations } } };
+};
+
+/** The moves from the start of the game to the node, in order; empty for the root. */
+export const getPath = (tree: GameTree, nodeId: number): MoveNode[] => {
+  const path: MoveNode[] = [];
+  for (let node = tree.nodes[nodeId]; node.parentId !== null; node = tree.nodes[node.parentId]) {
+    path.unshift(node);
+  }
+  return path;
+};
+
+/** The board at the node, with the moves that led there as its history. */
+export const boardAt = (tree: GameTree, nodeId: number): Chess => {
+  const board = new Chess(tree.nodes[tree.rootId].fen);
+  getPath(tree, nodeId).forEach((node) => board.move(node.san));
+  return board;
+};
+
+/** The named opening the line up to the node has reached, if any. */
+export const openingAt = (tree: GameTree, nodeId: number) =>
+  identifyOpening([tree.nodes[tree.rootId].fen, ...getPath(tree, nodeId).map((node) => node.fen)]);
+
+/** Follows the first child from the node to the end of its line. */
+export const lineEnd = (tree: GameTree, nodeId: number): number => {
+  let node = tree.nodes[nodeId];
+  while (node.children.length > 0) node = tree.nodes[node.children[0]];
+  return node.id;
+};
+
+// Side to move in the node's position
+export const turnAt = (tree: GameTree, nodeId: number) => (tree.nodes[nodeId].fen.split(' ')[1] === 'b' ? 'b' : 'w');
+
+/**
+ * Where a takeback from the node lands: before `side`'s last move, which also undoes the reply
+ * to it if one has been played. null when `side` has not moved yet.
+ */
+export const takeBackTarget = (tree: GameTree, nodeId: number, side: 'w' | 'b'): number | null => {
+  let id = nodeId;
+  do {
+    const parentId = tree.nodes[id].parentId;
+    if (parentId === null) return null;
+    id = parentId;
+  } while (turnAt(tree, id) !== side);
+  return id;
+};
+
+/** `12.` before a White move, `12...` before a Black one. */
+export const moveNumberLabel = (node: MoveNode) => {
+  const [, turn, , , , fullmove] = node.fen.split(' ');
+  return turn === 'b' ? `${fullmove}.` : `${Number(fullmove) - 1}...`;
+};
+
+// A PGN comment's text and drawings, kept apart on the node
+const commentFields = (comment: string | undefined): Pick<MoveNode, 'comment' | 'annotations'> => {
+  const { annotations, text } = parseAnnotations(comment);
+  return { comment: text || undefined, ...(annotations.length > 0 ? { annotations } : {}) };
+};
+
+export const fromPgn = (game: PgnGame): GameTree => {
+  const root: MoveNode = {
+    id: nextNodeId++,
+    parentId: null,
+    san: '',
+    from: '',
+    to: '',
+    fen: new Chess(getStartFen(game)).fen(),
+    ...commentFields(game.comment),
+    children: [],
+  };
+  let tree: GameTree = { headers: game.headers, rootId: root.id, nodes: { [root.id]: root }, result: game.result };
+
+  // Each move's variations branch from the same parent as the move itself
+  const addLine = (parentId: number, moves: PgnMove[]) => {
+    for (const move of moves) {
+      let nodeId: number;
+      ({ tree, nodeId } = addMove(tree, parentId, move.san));
+      tree.nodes[nodeId] = { ...tree.nodes[nodeId], ...commentFields(move.comment), nags: move.nags };
+      move.variations?.forEach((variation) => addLine(parentId, variation));
+      parentId = nodeId;
+    }
+  };
+  addLine(root.id, game.moves);
+  return tree;
+};
+
+export const toPgn = (tree: GameTree): PgnGame => {
+  const toMove = ({ san, comment, annotations, nags }: MoveNode): PgnMove => {
+    const text = formatAnnotations(annotations, comment);
+    return { san, ...(text ? { comment: text } : {}), ...(nags?.length ? { nags } : {}) };
+  };
+
+  // The main line from the node on, each move carrying its siblings as variations
+  const toLine = (firstId: number): PgnMove[] => {
+    const line: PgnMove[] = [];
+    for (let node = tree.nodes[firstId]; node; node = tree.nodes[node.children[0]]) {
+      const move = toMove(node);
+      const siblings = tree.nodes[node.parentId!].children;
+      if (siblings[0] === node.id && siblings.length > 1) move.variations = siblings.slice(1).map(toLine);
+      line.push(move);
+    }
+    return line;
+  };
+
+  const root = tree.nodes[tree.rootId];
+  const comment = formatAnnotations(root.annotations, root.comment);
+  return {
+    headers: tree.headers,
+    ...(comment ? { comment } : {}),
+    moves: root.children.length > 0 ? toLine(root.children[0]) : [],
+    result: tree.result,
+  };
+};
+
+// The move list as it reads in PGN: moves in order, each variation bracketed after the move it
+// replaces. Numbers appear on White's moves and wherever Black's move starts a new run of text.
+export type MoveListEntry =
+  | { type: 'move'; node: MoveNode; label?: string; depth: number }
+  | { type: 'variationStart' | 'variationEnd'; depth: number };
+
+export const listMoves = (tree: GameTree): MoveListEntry[] => {
+  const entries: MoveListEntry[] = [];
+
+  const addLine = (firstId: number, depth: number) => {
+    let needsNumber = true;
+    for (let node = tree.nodes[firstId]; node; node = tree.nodes[node.children[0]]) {
+      const label = moveNumberLabel(node);
+      entries.push({ type: 'move', node, label: needsNumber || !label.endsWith('...') ? label : undefined, depth });
+      needsNumber = false;
+
+      const siblings = tree.nodes[node.parentId!].children;
+      if (siblings[0] !== node.id) continue;
+      for (const variationId of siblings.slice(1)) {
+        entries.push({ type: 'variationStart', depth: depth + 1 });
+        addLine(variationId, depth + 1);
+        entries.push({ type: 'variationEnd', depth: depth + 1 });
+        needsNumber = true;
+      }
+    }
+  };
+
+  const root = tree.nodes[tree.rootId];
+  if (root.children.length > 0) addLine(root.children[0], 0);
+  return entries;
+};
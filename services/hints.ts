@@ -0,0 +1,91 @@
+import { Chess } from 'chess.js';
+import { BoardAnnotation, CoachRequest, CoachSettings, HintLevel, Puzzle, StructuredHint } from '../types';
+import type { CoachProvider } from './coachProvider';
+import { coachQueue } from './coachQueue';
+import { uciToMove } from './puzzles';
+
+// Each press of the hint button gives away one level more
+export const HINT_LEVELS: HintLevel[] = ['theme', 'piece', 'move'];
+
+/**
+ * Checks a hint answer against HINT_SCHEMA's fields, the position and the engine's move. Throws
+ * if a field is missing or empty, or if the move can't be played there or isn't the engine's.
+ */
+export const validateHint = (value: unknown, fen: string, engineMove: string): StructuredHint => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new Error('Hint is not a JSON object');
+  const fields = value as Record<string, unknown>;
+  const text = (field: string) => {
+    const entry = fields[field];
+    if (typeof entry !== 'string' || !entry.trim()) throw new Error(`Hint has no ${field}`);
+    return entry.trim();
+  };
+  const theme = text('theme');
+  const pieceHint = text('pieceHint');
+  const move = text('move');
+  const explanation = text('explanation');
+
+  let played;
+  try {
+    played = new Chess(fen).move(move);
+  } catch {
+    throw new Error(`Hint move ${move} is illegal in this position`);
+  }
+  // Both sides written the same way, so `Nf3` and `Ng1-f3` or `g1f3` agree
+  const expected = new Chess(fen).move(engineMove).san;
+  if (played.san !== expected) throw new Error(`Hint move ${played.san} is not the engine's ${expected}`);
+  return {
+    theme: theme.replace(/\.$/, ''),
+    pieceHint,
+    move: { san: played.san, from: played.from, to: played.to },
+    explanation,
+  };
+};
+
+/** Reads the coach's JSON answer, with or without a code fence around it, and validates it. */
+export const parseHint = (text: string, fen: string, engineMove: string): StructuredHint => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    throw new Error('Hint is not valid JSON');
+  }
+  return validateHint(value, fen, engineMove);
+};
+
+/**
+ * The engine's move explained by the coach, through the queue's 'hint' channel so a newer hint
+ * request replaces an older one. An answer that fails validation, a different move included,
+ * counts as a failed request.
+ */
+export const requestHint = (
+  provider: CoachProvider,
+  settings: CoachSettings,
+  request: Extract<CoachRequest, { kind: 'hint' }>,
+  queue = coachQueue
+) => queue.ask('hint', provider, settings, request, (text) => parseHint(text, request.fen, request.engineMove));
+
+/** What a hint shows at a level: its words, and the piece circled or the move drawn on the board. */
+export const revealHint = (hint: StructuredHint, level: HintLevel): { text: string; annotations: BoardAnnotation[] } => {
+  const { san, from, to } = hint.move;
+  if (level === 'theme') return { text: `Theme: ${hint.theme}.`, annotations: [] };
+  if (level === 'piece') return { text: hint.pieceHint, annotations: [{ from, to: from, color: 'B' }] };
+  return { text: `${san}: ${hint.explanation}`, annotations: [{ from, to, color: 'G' }] };
+};
+
+/**
+ * The coach's word on a puzzle's move at `ply`, for the solver's `stage`th hint: it explains the
+ * solution's move but gives away no more than the nudge at that stage, the theme and then the piece.
+ */
+export const requestPuzzleHint = async (
+  puzzle: Puzzle,
+  ply: number,
+  board: Chess,
+  stage: number,
+  provider: CoachProvider,
+  settings: CoachSettings,
+  queue = coachQueue
+): Promise<string> => {
+  const answer = new Chess(board.fen()).move(uciToMove(puzzle.solution[ply])).san;
+  const hint = await requestHint(provider, settings, { kind: 'hint', fen: board.fen(), engineMove: answer, line: [answer] }, queue);
+  return revealHint(hint, HINT_LEVELS[stage - 1]).text;
+};
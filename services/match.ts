@@ -0,0 +1,160 @@
+import MATCH_OPENING_LINES from '../data/matchOpenings.json';
+import { EngineProviderId, EvaluationTerm, EvaluationWeights, GameOutcome, Opening, Score } from '../types';
+import { EVALUATION_TERMS } from './evaluation';
+import { STRENGTH_LEVELS } from './strength';
+
+// Positions a few moves into main-line openings that the engine scores close to level, so
+// neither side of a pair starts with much of an edge
+export const MATCH_OPENINGS: (Opening & { fen: string })[] = MATCH_OPENING_LINES;
+
+// One side of a self-play match
+export interface MatchEngine {
+  name: string; // As written in the PGN and the report
+  provider: EngineProviderId;
+  level: number;
+  weights: EvaluationWeights; // Built-in engine only
+}
+
+const PROVIDER_IDS: EngineProviderId[] = ['builtin', 'uci-bridge'];
+
+/**
+ * Reads an engine from the command line: comma-separated `key=value` pairs such as
+ * `level=8,mobility=0.5` or `provider=uci-bridge,level=12`. Evaluation terms are named as in
+ * EVALUATION_TERMS and scale that term; `name` labels the engine.
+ */
+export const parseMatchEngine = (spec: string): MatchEngine => {
+  const engine: MatchEngine = { name: '', provider: 'builtin', level: STRENGTH_LEVELS.length, weights: {} };
+  for (const pair of spec.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [key, value = ''] = pair.split('=').map((part) => part.trim());
+    const number = Number(value);
+    if (key === 'name') {
+      engine.name = value;
+    } else if (key === 'provider') {
+      if (!PROVIDER_IDS.includes(value as EngineProviderId)) throw new Error(`Unknown provider "${value}" (expected ${PROVIDER_IDS.join(' or ')})`);
+      engine.provider = value as EngineProviderId;
+    } else if (key === 'level') {
+      if (!Number.isInteger(number) || number < 1 || number > STRENGTH_LEVELS.length) throw new Error(`Level must be 1 to ${STRENGTH_LEVELS.length}, not "${value}"`);
+      engine.level = number;
+    } else if (EVALUATION_TERMS.includes(key as EvaluationTerm)) {
+      if (value === '' || !Number.isFinite(number)) throw new Error(`Weight for ${key} must be a number, not "${value}"`);
+      engine.weights[key as EvaluationTerm] = number;
+    } else {
+      throw new Error(`Unknown engine setting "${key}" (expected name, provider, level or one of ${EVALUATION_TERMS.join(', ')})`);
+    }
+  }
+  if (engine.provider !== 'builtin' && Object.keys(engine.weights).length > 0) {
+    throw new Error('Evaluation weights only apply to the built-in engine');
+  }
+  if (!engine.name) {
+    const weights = Object.entries(engine.weights).map(([term, weight]) => `${term}=${weight}`);
+    engine.name = [engine.provider === 'builtin' ? 'Built-in' : 'UCI bridge', `Lv ${engine.level}`, ...weights].join(' ');
+  }
+  return engine;
+};
+
+// When a game is stopped early and scored on the engines' own evaluations
+export interface AdjudicationRules {
+  maxPlies: number; // A game still going after this many plies is drawn
+  resignScore: number; // Both engines see one side this far ahead (centipawns)...
+  resignPlies: number; // ...for this many plies running: that side wins
+  drawScore: number; // Both engines see the game within this of level...
+  drawPlies: number; // ...for this many plies running...
+  drawFromPly: number; // ...once the game is this long: a draw
+}
+
+export const DEFAULT_ADJUDICATION: AdjudicationRules = {
+  maxPlies: 300,
+  resignScore: 1000,
+  resignPlies: 6,
+  drawScore: 10,
+  drawPlies: 12,
+  drawFromPly: 80,
+};
+
+// Mates count for more than any material, so they always pass the resign threshold
+const MATE_VALUE = 100000;
+
+/** A search score turned to centipawns from White's side; `turn` is the side that searched. */
+export const whiteScore = (score: Score, turn: 'w' | 'b'): number => {
+  const value = score.type === 'mate' ? Math.sign(score.value || -1) * MATE_VALUE : score.value;
+  return turn === 'w' ? value : -value;
+};
+
+/**
+ * Whether to stop a game that hasn't ended on the board. `scores` has one entry per ply played,
+ * White's-side centipawns from the mover's own search, or null where it didn't search (a book move).
+ */
+export const adjudicate = (scores: (number | null)[], rules: AdjudicationRules = DEFAULT_ADJUDICATION): GameOutcome | null => {
+  const recent = (count: number) => {
+    const window = scores.slice(-count);
+    return window.length === count && window.every((score) => score !== null) ? (window as number[]) : null;
+  };
+  const resign = recent(rules.resignPlies);
+  if (resign?.every((score) => score >= rules.resignScore)) return { result: '1-0', reason: 'Adjudicated: White is winning.' };
+  if (resign?.every((score) => score <= -rules.resignScore)) return { result: '0-1', reason: 'Adjudicated: Black is winning.' };
+  const draw = scores.length >= rules.drawFromPly ? recent(rules.drawPlies) : null;
+  if (draw?.every((score) => Math.abs(score) <= rules.drawScore)) return { result: '1/2-1/2', reason: 'Adjudicated: the position is level.' };
+  if (scores.length >= rules.maxPlies) return { result: '1/2-1/2', reason: `Drawn at the ${rules.maxPlies}-ply limit.` };
+  return null;
+};
+
+// Games won, drawn and lost, from the first engine's side
+export interface MatchScore {
+  wins: number;
+  draws: number;
+  losses: number;
+}
+
+// Mean score per game and its variance over the games, counting a draw as half a point
+const scoreMoments = ({ wins, draws, losses }: MatchScore) => {
+  const games = wins + draws + losses;
+  const mean = (wins + draws / 2) / games;
+  const variance = (wins * (1 - mean) ** 2 + draws * (0.5 - mean) ** 2 + losses * mean ** 2) / games;
+  return { games, mean, variance };
+};
+
+// The Elo difference a score per game implies, and back
+const eloFromScore = (score: number) => -400 * Math.log10(1 / score - 1);
+const scoreFromElo = (elo: number) => 1 / (1 + 10 ** (-elo / 400));
+
+/**
+ * The Elo difference the match points to, with a 95% margin either side. A clean sweep has no
+ * finite estimate, so its elo is ±Infinity.
+ */
+export const eloDifference = (score: MatchScore): { elo: number; margin: number } => {
+  const { games, mean, variance } = scoreMoments(score);
+  if (games === 0) return { elo: 0, margin: Infinity };
+  if (mean === 0 || mean === 1) return { elo: eloFromScore(mean), margin: Infinity };
+  const spread = 1.96 * Math.sqrt(variance / games);
+  const bound = (value: number) => eloFromScore(Math.min(Math.max(value, 0), 1));
+  return { elo: eloFromScore(mean), margin: (bound(mean + spread) - bound(mean - spread)) / 2 };
+};
+
+// The hypotheses a sequential probability ratio test chooses between: the first engine is
+// elo0 stronger (H0) or elo1 stronger (H1), with alpha and beta the error rates allowed
+export interface SprtBounds {
+  elo0: number;
+  elo1: number;
+  alpha: number;
+  beta: number;
+}
+
+export const DEFAULT_SPRT: SprtBounds = { elo0: 0, elo1: 10, alpha: 0.05, beta: 0.05 };
+
+/**
+ * The log-likelihood ratio of H1 over H0 after the games so far (normal approximation to the
+ * game scores), and the verdict once it crosses either bound: null while more games are needed.
+ * While every game has scored the same the variance is zero and the ratio unbounded, so a win
+ * and a loss are counted in until the scores differ.
+ */
+export const sprt = (score: MatchScore, bounds: SprtBounds = DEFAULT_SPRT) => {
+  const lower = Math.log(bounds.beta / (1 - bounds.alpha));
+  const upper = Math.log((1 - bounds.beta) / bounds.alpha);
+  if (score.wins + score.draws + score.losses === 0) return { llr: 0, lower, upper, verdict: null };
+  const moments = scoreMoments(score);
+  const { games, mean, variance } = moments.variance > 0 ? moments : scoreMoments({ ...score, wins: score.wins + 1, losses: score.losses + 1 });
+  const [s0, s1] = [scoreFromElo(bounds.elo0), scoreFromElo(bounds.elo1)];
+  const llr = (games * (s1 - s0) * (2 * mean - s0 - s1)) / (2 * variance);
+  const verdict: 'H0' | 'H1' | null = llr >= upper ? 'H1' : llr <= lower ? 'H0' : null;
+  return { llr, lower, upper, verdict };
+};
@@ -0,0 +1,115 @@
+import { Chess } from 'chess.js';
+import { CoachHintResponse, CoachRequest, EvaluationBreakdown, EvaluationTerm, PieceType } from '../types';
+import type { CoachProvider } from './coachProvider';
+import { EVALUATION_TERMS, TERM_LABELS, explainEvaluation } from './evaluation';
+import { PIECE_NAMES } from '../constants';
+
+// Evaluation gaps (centipawns) at which one side counts as slightly better, clearly better, winning
+const SLIGHT_EDGE = 50;
+const CLEAR_EDGE = 150;
+const WINNING = 400;
+
+// A term has to separate the sides by this much to be worth a mention
+const NOTABLE_TERM = 15;
+
+// The opening is named in commentary until this many plies have been played
+const OPENING_PLIES = 16;
+
+// The theme of a quiet move, named after the term it improves most
+const TERM_THEMES: Record<EvaluationTerm, string> = {
+  material: 'Winning material',
+  pieceSquares: 'Piece placement',
+  passedPawns: 'Passed pawns',
+  doubledPawns: 'Pawn structure',
+  isolatedPawns: 'Pawn structure',
+  rookFiles: 'Open files',
+  mobility: 'Piece activity',
+  kingShelter: 'King safety',
+};
+
+// Moves of the expected line quoted after a hint's explanation
+const FOLLOW_UP_PLIES = 3;
+
+const sideName = (color: 'w' | 'b') => (color === 'w' ? 'White' : 'Black');
+
+// Each term's gap from one side's point of view, largest lead first
+const termGaps = (breakdown: EvaluationBreakdown, color: 'w' | 'b') =>
+  EVALUATION_TERMS
+    .map((term) => {
+      const { white, black } = breakdown.terms[term];
+      return { term, gap: color === 'w' ? white - black : black - white };
+    })
+    .sort((a, b) => b.gap - a.gap);
+
+const describeMove = (mover: string, san: string) => {
+  if (san.startsWith('O-O')) return `${mover} castles ${san.startsWith('O-O-O') ? 'queenside' : 'kingside'}.`;
+  if (san.includes('=')) return `${mover} promotes with ${san}!`;
+  if (san.includes('x') && san.includes('+')) return `${mover} captures with check: ${san}!`;
+  if (san.includes('x')) return `${mover} captures with ${san}.`;
+  if (san.includes('+')) return `${san}, and ${mover} gives check.`;
+  return `${mover} plays ${san}.`;
+};
+
+// Who stands better, by how much and why, from the static evaluation
+const assess = (breakdown: EvaluationBreakdown) => {
+  const leader = breakdown.total >= 0 ? 'w' : 'b';
+  const edge = Math.abs(breakdown.total);
+  if (edge < SLIGHT_EDGE) return 'The position is balanced.';
+  const standing = edge < CLEAR_EDGE ? 'slightly better' : edge < WINNING ? 'clearly better' : 'winning';
+  const [reason] = termGaps(breakdown, leader);
+  return reason.gap >= NOTABLE_TERM
+    ? `${sideName(leader)} is ${standing} thanks to ${TERM_LABELS[reason.term]}.`
+    : `${sideName(leader)} is ${standing}.`;
+};
+
+const commentary = ({ fen, lastMove, history, opening }: Extract<CoachRequest, { kind: 'commentary' }>) => {
+  const board = new Chess(fen);
+  const mover = sideName(board.turn() === 'w' ? 'b' : 'w');
+  if (board.isCheckmate()) return `${lastMove} is checkmate. ${mover} wins!`;
+  if (board.isDraw()) return `${mover} plays ${lastMove}, and the game is drawn.`;
+  const move = opening && history.length <= OPENING_PLIES ? `${mover} plays ${lastMove} in the ${opening}.` : describeMove(mover, lastMove);
+  return `${move} ${assess(explainEvaluation(fen))}`;
+};
+
+// The theme of the engine's move and what it does, from the kind of move it is or else from the
+// evaluation term it improves most
+const explainMove = (before: Chess, after: Chess, move: ReturnType<Chess['move']>): [string, string] => {
+  if (after.isCheckmate()) return ['Checkmate', 'mates at once'];
+  if (before.inCheck()) return ['Getting out of check', 'meets the check'];
+  if (move.san.startsWith('O-O')) return ['King safety', 'tucks the king away and brings a rook towards the centre'];
+  if (move.promotion) return ['Promotion', `makes a new ${PIECE_NAMES[move.promotion as PieceType]}`];
+  if (move.captured) return ['Winning material', `takes the ${PIECE_NAMES[move.captured as PieceType]} on ${move.to}`];
+  if (after.inCheck()) return ['Forcing moves', 'gives check and keeps the initiative'];
+  const gains = termGaps(explainEvaluation(after.fen()), move.color);
+  const previous = termGaps(explainEvaluation(before.fen()), move.color);
+  const [best] = gains
+    .map(({ term, gap }) => ({ term, gain: gap - previous.find((entry) => entry.term === term)!.gap }))
+    .sort((a, b) => b.gain - a.gain);
+  return [TERM_THEMES[best.term], `improves your ${TERM_LABELS[best.term]}`];
+};
+
+const hint = ({ fen, engineMove, line }: Extract<CoachRequest, { kind: 'hint' }>): CoachHintResponse => {
+  const before = new Chess(fen);
+  const after = new Chess(fen);
+  const move = after.move(engineMove);
+  const [theme, effect] = explainMove(before, after, move);
+  const followUp = line.length > 1 ? ` The engine expects ${line.slice(1, 1 + FOLLOW_UP_PLIES).join(' ')} next.` : '';
+  return {
+    theme,
+    pieceHint: `Look at your ${PIECE_NAMES[move.piece as PieceType]} on ${move.from}.`,
+    move: move.san,
+    explanation: `${move.san} ${effect}.${followUp}`,
+  };
+};
+
+/**
+ * A coach that needs no network: fixed phrases filled in from the move and the engine's static
+ * evaluation, with hints as JSON like the other coaches'. The same request always gets the same
+ * answer.
+ */
+export const offlineCoach: CoachProvider = {
+  id: 'offline',
+  name: 'Offline coach',
+  defaultModel: '',
+  ask: async (request) => (request.kind === 'commentary' ? commentary(request) : JSON.stringify(hint(request))),
+};
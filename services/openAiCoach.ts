@@ -0,0 +1,47 @@
+import type { CoachProvider } from './coachProvider';
+import { HINT_SCHEMA, coachPrompt } from './coachPrompts';
+import { isAbortError } from './engineClient';
+
+// A locally hosted model (Ollama's OpenAI-compatible API) unless COACH_API_URL says otherwise
+export const DEFAULT_COACH_API_URL = process.env.COACH_API_URL || 'http://127.0.0.1:11434/v1';
+
+// The part of a /chat/completions answer the coach reads
+interface ChatCompletion {
+  choices?: { message?: { content?: string } }[];
+}
+
+/**
+ * Any server speaking OpenAI's chat completions API: OpenAI itself, or a local one such as
+ * Ollama, llama.cpp or LM Studio. The key from COACH_API_KEY is sent only if one is set.
+ */
+export const createOpenAiCompatibleCoach = (baseUrl = DEFAULT_COACH_API_URL, apiKey = process.env.COACH_API_KEY): CoachProvider => ({
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible endpoint',
+  defaultModel: process.env.COACH_MODEL || 'llama3.2',
+  ask: async (request, { model, temperature, signal }) => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+        body: JSON.stringify({
+          model,
+          temperature,
+          messages: [{ role: 'user', content: coachPrompt(request) }],
+          // Hints come back as JSON held to the schema
+          ...(request.kind === 'hint' && { response_format: { type: 'json_schema', json_schema: { name: 'hint', schema: HINT_SCHEMA } } }),
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new Error(`Coach endpoint not reachable at ${baseUrl}`);
+    }
+    if (!response.ok) throw new Error(`Coach endpoint answered ${response.status}`);
+
+    const completion = (await response.json()) as ChatCompletion;
+    const text = completion.choices?.[0]?.message?.content?.trim();
+    if (!text) throw new Error('Coach endpoint gave no answer');
+    return text;
+  },
+});
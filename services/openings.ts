@@ -0,0 +1,69 @@
+import { Chess } from 'chess.js';
+import { Opening, SearchResult, StrengthLevel } from '../types';
+import OPENING_LINES from '../data/openings.json';
+
+interface BookMove {
+  san: string;
+  weight: number; // How many named lines continue with this move
+}
+
+// A position without its move counters, so lines reaching it by different move orders meet
+const positionKey = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+
+// Every named line played out once: the moves the book knows from each position, and the name of
+// the position each line ends in
+const book = new Map<string, BookMove[]>();
+const names = new Map<string, Opening>();
+
+for (const { eco, name, moves } of OPENING_LINES) {
+  const board = new Chess();
+  for (const san of moves.split(' ')) {
+    const key = positionKey(board.fen());
+    const played = board.move(san).san;
+    const known = book.get(key) ?? [];
+    const entry = known.find((move) => move.san === played);
+    if (entry) entry.weight++;
+    else book.set(key, [...known, { san: played, weight: 1 }]);
+  }
+  names.set(positionKey(board.fen()), { eco, name });
+}
+
+export const formatOpening = ({ eco, name }: Opening) => `${eco} ${name}`;
+
+/**
+ * The opening a game is in, given the positions it has passed through in order: the name of the
+ * latest one that ends a named line. Transpositions are recognised, and the name stays once the
+ * game has left the book.
+ */
+export const identifyOpening = (fens: string[]): Opening | null => {
+  for (let i = fens.length - 1; i >= 0; i--) {
+    const opening = names.get(positionKey(fens[i]));
+    if (opening) return opening;
+  }
+  return null;
+};
+
+/**
+ * A book move for the bot at this level, or null once the position is out of book or deeper than
+ * the level knows. Moves more lines follow are likelier; raising the weights to the level's
+ * bookWeighting flattens the choice for weak levels and sharpens it for strong ones.
+ */
+export const chooseBookMove = (board: Chess, strength: StrengthLevel, random: () => number = Math.random): string | null => {
+  const ply = (board.moveNumber() - 1) * 2 + (board.turn() === 'b' ? 1 : 0);
+  const moves = ply < strength.bookPlies ? book.get(positionKey(board.fen())) : undefined;
+  if (!moves) return null;
+
+  const weights = moves.map((move) => move.weight ** strength.bookWeighting);
+  let pick = random() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (let i = 0; i < moves.length; i++) {
+    pick -= weights[i];
+    if (pick < 0) return moves[i].san;
+  }
+  return moves[moves.length - 1].san;
+};
+
+// Book moves aren't searched, so they come back as a level position at depth 0
+export const bookResult = (san: string): SearchResult => {
+  const score = { type: 'cp' as const, value: 0 };
+  return { depth: 0, nodes: 0, bestMove: san, score, pv: [san], timeMs: 0, lines: [{ move: san, score, pv: [san] }] };
+};
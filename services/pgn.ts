@@ -0,0 +1,264 @@
+import { Chess } from 'chess.js';
+import { GameResult, PgnGame, PgnMove, PieceColor, StrengthLevel } from '../types';
+import { INITIAL_FEN } from '../constants';
+
+// Tags every PGN game carries, in this order, ahead of any others
+const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+
+const RESULTS: GameResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+// Move suffixes and the NAGs they stand for
+const SUFFIX_NAGS: Record<string, number> = { '!': 1, '?': 2, '!!': 3, '??': 4, '!?': 5, '?!': 6 };
+
+type Token =
+  | { type: 'move'; san: string }
+  | { type: 'nag'; nag: number }
+  | { type: 'comment'; text: string }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'result'; result: GameResult };
+
+export const formatPgnDate = (date: Date) =>
+  `${date.getFullYear()}.${String(date.getMonth() + 1).padStart(2, '0')}.${String(date.getDate()).padStart(2, '0')}`;
+
+/** An empty record with the Seven Tag Roster filled in; a non-standard start adds SetUp and FEN. */
+export const createPgnGame = (headers: Record<string, string> = {}, startFen = INITIAL_FEN): PgnGame => ({
+  headers: {
+    Event: 'Chess Practice',
+    Site: '?',
+    Date: formatPgnDate(new Date()),
+    Round: '-',
+    White: '?',
+    Black: '?',
+    Result: '*',
+    ...(startFen !== INITIAL_FEN ? { SetUp: '1', FEN: startFen } : {}),
+    ...headers,
+  },
+  moves: [],
+  result: '*',
+});
+
+export const getStartFen = (game: PgnGame) => game.headers.FEN ?? INITIAL_FEN;
+
+export const getGameResult = (board: Chess): GameResult => {
+  if (board.isCheckmate()) return board.turn() === 'w' ? '0-1' : '1-0';
+  if (board.isDraw() || board.isStalemate()) return '1/2-1/2';
+  return '*';
+};
+
+export const pgnFileName = (game: PgnGame) =>
+  `${game.headers.White ?? '?'} vs ${game.headers.Black ?? '?'} ${game.headers.Date ?? ''}`
+    .trim()
+    .replace(/[^\w.\- ]+/g, '')
+    .replace(/\s+/g, '_') + '.pgn';
+
+const tokenize = (movetext: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < movetext.length) {
+    const char = movetext[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '{') {
+      const end = movetext.indexOf('}', i);
+      if (end === -1) throw new Error('Unclosed comment');
+      tokens.push({ type: 'comment', text: movetext.slice(i + 1, end).replace(/\s+/g, ' ').trim() });
+      i = end + 1;
+    } else if (char === ';' || (char === '%' && (i === 0 || movetext[i - 1] === '\n'))) {
+      // Rest-of-line comment, or an escaped line that PGN readers ignore
+      const end = movetext.indexOf('\n', i);
+      if (char === ';') tokens.push({ type: 'comment', text: movetext.slice(i + 1, end === -1 ? undefined : end).trim() });
+      i = end === -1 ? movetext.length : end + 1;
+    } else if (char === '(') {
+      tokens.push({ type: 'open' });
+      i++;
+    } else if (char === ')') {
+      tokens.push({ type: 'close' });
+      i++;
+    } else if (char === '[') {
+      break; // The next game's tags
+    } else {
+      const symbol = /^[^\s{}();[\]]+/.exec(movetext.slice(i))![0];
+      i += symbol.length;
+
+      if (symbol.startsWith('$')) {
+        tokens.push({ type: 'nag', nag: Number(symbol.slice(1)) });
+        continue;
+      }
+      if ((RESULTS as string[]).includes(symbol)) {
+        tokens.push({ type: 'result', result: symbol as GameResult });
+        continue;
+      }
+      // `12.` and `12...` on their own, or glued to the move as in `1.e4`
+      const [, san, suffix] = /^(?:\d+\.+)?(.*?)([!?]{1,2})?$/.exec(symbol)!;
+      if (san) tokens.push({ type: 'move', san: san.replace(/^0-0-0/, 'O-O-O').replace(/^0-0/, 'O-O') });
+      if (suffix && SUFFIX_NAGS[suffix]) tokens.push({ type: 'nag', nag: SUFFIX_NAGS[suffix] });
+    }
+  }
+  return tokens;
+};
+
+const joinComments = (first: string | undefined, second: string | undefined) =>
+  [first, second].filter(Boolean).join(' ');
+
+/**
+ * Reads the first game of a PGN file: tag pairs, comments, NAGs (and the `!`/`?` suffixes they
+ * abbreviate) and variations nested to any depth. Every move is checked against the position
+ * it is played in, so an illegal move anywhere, variations included, rejects the whole file.
+ */
+export const parsePgn = (text: string): PgnGame => {
+  const headers: Record<string, string> = {};
+  const tagPattern = /\s*\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]/y;
+  let match: RegExpExecArray | null;
+  let offset = 0;
+  while ((match = tagPattern.exec(text))) {
+    headers[match[1]] = match[2].replace(/\\(["\\])/g, '$1');
+    offset = tagPattern.lastIndex;
+  }
+
+  const tokens = tokenize(text.slice(offset));
+  let cursor = 0;
+  let result: GameResult | null = null;
+
+  // Reads moves until the line's closing parenthesis (or the end of the game at the top level)
+  const readLine = (board: Chess, nested: boolean): { moves: PgnMove[]; comment?: string } => {
+    const moves: PgnMove[] = [];
+    let leadingComment: string | undefined;
+    let fenBefore = board.fen();
+
+    while (cursor < tokens.length) {
+      const token = tokens[cursor++];
+      const last = moves[moves.length - 1];
+
+      if (token.type === 'move') {
+        fenBefore = board.fen();
+        const label = `${board.moveNumber()}${board.turn() === 'w' ? '.' : '...'}`;
+        try {
+          moves.push({ san: board.move(token.san).san });
+        } catch {
+          throw new Error(`Illegal move ${label} ${token.san}`);
+        }
+      } else if (token.type === 'nag') {
+        if (!last) throw new Error(`$${token.nag} does not follow a move`);
+        last.nags = [...(last.nags ?? []), token.nag];
+      } else if (token.type === 'comment') {
+        if (!token.text) continue;
+        if (last) last.comment = joinComments(last.comment, token.text);
+        else leadingComment = joinComments(leadingComment, token.text);
+      } else if (token.type === 'open') {
+        if (!last) throw new Error('Variation does not follow a move');
+        const variation = readLine(new Chess(fenBefore), true);
+        if (variation.moves.length === 0) continue;
+        // A comment ahead of a variation's first move is kept with that move
+        if (variation.comment) variation.moves[0].comment = joinComments(variation.comment, variation.moves[0].comment);
+        last.variations = [...(last.variations ?? []), variation.moves];
+      } else if (token.type === 'close') {
+        if (!nested) throw new Error('Unmatched ")"');
+        return { moves, comment: leadingComment };
+      } else {
+        if (nested) throw new Error(`Result ${token.result} inside a variation`);
+        result = token.result;
+        cursor = tokens.length;
+      }
+    }
+    if (nested) throw new Error('Unclosed variation');
+    return { moves, comment: leadingComment };
+  };
+
+  let board: Chess;
+  try {
+    board = new Chess(headers.FEN ?? INITIAL_FEN);
+  } catch {
+    throw new Error(`Invalid FEN tag "${headers.FEN}"`);
+  }
+  const { moves, comment } = readLine(board, false);
+  if (moves.length === 0 && Object.keys(headers).length === 0) throw new Error('No PGN game found');
+
+  const finalResult = result ?? (RESULTS.includes(headers.Result as GameResult) ? (headers.Result as GameResult) : '*');
+  return { headers: { ...headers, Result: finalResult }, comment, moves, result: finalResult };
+};
+
+// Movetext as whitespace-separated tokens, so lines can wrap between any two of them
+const writeLine = (moves: PgnMove[], moveNumber: number, turn: 'w' | 'b', tokens: string[]) => {
+  let needsNumber = true;
+  for (const move of moves) {
+    if (turn === 'w') tokens.push(`${moveNumber}.`);
+    else if (needsNumber) tokens.push(`${moveNumber}...`);
+    tokens.push(move.san);
+    move.nags?.forEach((nag) => tokens.push(`$${nag}`));
+    needsNumber = false;
+
+    if (move.comment) {
+      tokens.push(...writeComment(move.comment));
+      needsNumber = true;
+    }
+    for (const variation of move.variations ?? []) {
+      if (variation.length === 0) continue;
+      const start = tokens.length;
+      writeLine(variation, moveNumber, turn, tokens);
+      tokens[start] = `(${tokens[start]}`;
+      tokens[tokens.length - 1] += ')';
+      needsNumber = true;
+    }
+
+    if (turn === 'b') moveNumber++;
+    turn = turn === 'w' ? 'b' : 'w';
+  }
+};
+
+const writeComment = (comment: string) => {
+  const words = comment.replace(/[{}]/g, '').split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  words[0] = `{${words[0]}`;
+  words[words.length - 1] += '}';
+  return words;
+};
+
+const escapeTag = (value: string) => value.replace(/[\\"]/g, '\\$&');
+
+/** Writes a game as PGN export format: roster tags first, movetext wrapped at `maxWidth`. */
+export const writePgn = (game: PgnGame, maxWidth = 80): string => {
+  const headers: Record<string, string> = { ...game.headers, Result: game.result };
+  if (headers.FEN) headers.SetUp = '1';
+  const tagNames = [
+    ...SEVEN_TAG_ROSTER,
+    ...Object.keys(headers).filter((name) => !SEVEN_TAG_ROSTER.includes(name)),
+  ];
+  const tags = tagNames.map((name) => `[${name} "${escapeTag(headers[name] ?? '?')}"]`);
+
+  const [, turn, , , , fullmove] = getStartFen(game).split(' ');
+  const tokens: string[] = game.comment ? writeComment(game.comment) : [];
+  writeLine(game.moves, Number(fullmove) || 1, turn === 'b' ? 'b' : 'w', tokens);
+  tokens.push(game.result);
+
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > maxWidth) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  lines.push(line);
+
+  return `${tags.join('\n')}\n\n${lines.join('\n')}\n`;
+};
+
+/** Tag values naming the two sides of a game against the bot. */
+export const playerHeaders = (playerColor: PieceColor, strength: StrengthLevel) => {
+  const bot = `Coach Bot (Lv ${strength.level} ${strength.name})`;
+  return playerColor === PieceColor.WHITE ? { White: 'You', Black: bot } : { White: bot, Black: 'You' };
+};
+
+/** Saves the game as a .pgn file through the browser. */
+export const downloadPgn = (game: PgnGame) => {
+  const url = URL.createObjectURL(new Blob([writePgn(game)], { type: 'application/x-chess-pgn' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = pgnFileName(game);
+  link.click();
+  URL.revokeObjectURL(url);
+};
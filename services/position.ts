@@ -0,0 +1,615 @@
+import {
+  PIECE_KEYS_LO,
+  PIECE_KEYS_HI,
+  CASTLING_KEYS_LO,
+  CASTLING_KEYS_HI,
+  EN_PASSANT_KEYS_LO,
+  EN_PASSANT_KEYS_HI,
+  SIDE_KEY_LO,
+  SIDE_KEY_HI,
+} from './zobrist';
+
+// Compact 0x88 board used by the search. chess.js stays the source of truth for the UI;
+// this class trades its convenience for cheap make/unmake and incremental Zobrist keys.
+// Squares follow chess.js ordering: a8 = 0, h8 = 7, a1 = 112, h1 = 119.
+
+// Piece codes: the low three bits hold the type, bit 3 is set for Black
+export const PAWN = 1;
+export const KNIGHT = 2;
+export const BISHOP = 3;
+export const ROOK = 4;
+export const QUEEN = 5;
+export const KING = 6;
+
+export const WHITE = 0;
+export const BLACK = 8;
+
+export const PIECE_SYMBOLS = ' pnbrqk';
+
+// Move flags
+export const FLAG_CAPTURE = 1;
+export const FLAG_EN_PASSANT = 2;
+export const FLAG_CASTLE = 4;
+export const FLAG_DOUBLE_PUSH = 8;
+
+// Castling rights bits
+const WHITE_KINGSIDE = 1;
+const WHITE_QUEENSIDE = 2;
+const BLACK_KINGSIDE = 4;
+const BLACK_QUEENSIDE = 8;
+
+const KNIGHT_OFFSETS = [-33, -31, -18, -14, 14, 18, 31, 33];
+const KING_OFFSETS = [-17, -16, -15, -1, 1, 15, 16, 17];
+const BISHOP_DIRECTIONS = [-17, -15, 15, 17];
+const ROOK_DIRECTIONS = [-16, -1, 1, 16];
+
+// Rights that survive a move touching each square (king and rook home squares clear theirs)
+const CASTLING_MASK = new Uint8Array(128).fill(15);
+CASTLING_MASK[0] = 15 & ~BLACK_QUEENSIDE;
+CASTLING_MASK[4] = 15 & ~(BLACK_KINGSIDE | BLACK_QUEENSIDE);
+CASTLING_MASK[7] = 15 & ~BLACK_KINGSIDE;
+CASTLING_MASK[112] = 15 & ~WHITE_QUEENSIDE;
+CASTLING_MASK[116] = 15 & ~(WHITE_KINGSIDE | WHITE_QUEENSIDE);
+CASTLING_MASK[119] = 15 & ~WHITE_KINGSIDE;
+
+// Moves are packed into a single integer: from | to << 7 | promotion << 14 | flags << 17
+export const moveFrom = (move: number) => move & 0x7f;
+export const moveTo = (move: number) => (move >> 7) & 0x7f;
+export const movePromotion = (move: number) => (move >> 14) & 7;
+export const moveFlags = (move: number) => move >> 17;
+
+const encodeMove = (from: number, to: number, promotion: number, flags: number) =>
+  from | (to << 7) | (promotion << 14) | (flags << 17);
+
+export const squareName = (square: number) =>
+  String.fromCharCode(97 + (square & 7)) + (8 - (square >> 4));
+
+export const parseSquare = (name: string): number => {
+  const file = name.charCodeAt(0) - 97;
+  const rank = name.charCodeAt(1) - 49;
+  if (name.length !== 2 || file < 0 || file > 7 || rank < 0 || rank > 7) return -1;
+  return (7 - rank) * 16 + file;
+};
+
+interface UndoState {
+  move: number;
+  captured: number;
+  castling: number;
+  ep: number;
+  halfmove: number;
+  keyLo: number;
+  keyHi: number;
+}
+
+export class Position {
+  board = new Int8Array(128);
+  turn = WHITE;
+  castling = 0;
+  // Only set when an enemy pawn could actually capture en passant, so the hash stays canonical
+  ep = -1;
+  halfmove = 0;
+  fullmove = 1;
+  kings = [-1, -1]; // Indexed by color >> 3
+  keyLo = 0;
+  keyHi = 0;
+  private history: UndoState[] = [];
+
+  static fromFen(fen: string): Position {
+    const position = new Position();
+    const [placement, turn, castling = '-', ep = '-', halfmove = '0', fullmove = '1'] = fen.trim().split(/\s+/);
+    const rows = placement?.split('/') ?? [];
+    if (rows.length !== 8) throw new Error(`Invalid FEN: expected 8 ranks in "${fen}"`);
+
+    rows.forEach((row, rank) => {
+      let file = 0;
+      for (const char of row) {
+        if (char >= '1' && char <= '8') {
+          file += Number(char);
+          continue;
+        }
+        const type = PIECE_SYMBOLS.indexOf(char.toLowerCase());
+        if (type <= 0 || file > 7) throw new Error(`Invalid FEN: bad rank "${row}"`);
+        const color = char === char.toLowerCase() ? BLACK : WHITE;
+        const square = rank * 16 + file;
+        position.board[square] = type | color;
+        if (type === KING) position.kings[color >> 3] = square;
+        file++;
+      }
+      if (file !== 8) throw new Error(`Invalid FEN: rank "${row}" does not have 8 files`);
+    });
+
+    if (position.kings[0] === -1 || position.kings[1] === -1) {
+      throw new Error('Invalid FEN: both sides need a king');
+    }
+
+    position.turn = turn === 'b' ? BLACK : WHITE;
+
+    // Drop rights whose king or rook has left its home square, as chess.js does
+    const has = (square: number, piece: number) => position.board[square] === piece;
+    if (castling.includes('K') && has(116, KING) && has(119, ROOK)) position.castling |= WHITE_KINGSIDE;
+    if (castling.includes('Q') && has(116, KING) && has(112, ROOK)) position.castling |= WHITE_QUEENSIDE;
+    if (castling.includes('k') && has(4, BLACK | KING) && has(7, BLACK | ROOK)) position.castling |= BLACK_KINGSIDE;
+    if (castling.includes('q') && has(4, BLACK | KING) && has(0, BLACK | ROOK)) position.castling |= BLACK_QUEENSIDE;
+
+    if (ep !== '-') {
+      const square = parseSquare(ep);
+      // The double-pushed pawn sits one square past the en-passant square
+      const pawnSquare = square + (position.turn === WHITE ? 16 : -16);
+      if (square !== -1 && position.canCaptureEnPassant(pawnSquare)) position.ep = square;
+    }
+
+    position.halfmove = Number(halfmove) || 0;
+    position.fullmove = Number(fullmove) || 1;
+    [position.keyLo, position.keyHi] = position.computeKey();
+    return position;
+  }
+
+  fen(): string {
+    const rows: string[] = [];
+    for (let rank = 0; rank < 8; rank++) {
+      let row = '';
+      let empty = 0;
+      for (let file = 0; file < 8; file++) {
+        const piece = this.board[rank * 16 + file];
+        if (!piece) {
+          empty++;
+          continue;
+        }
+        if (empty) row += empty;
+        empty = 0;
+        const symbol = PIECE_SYMBOLS[piece & 7];
+        row += piece & BLACK ? symbol : symbol.toUpperCase();
+      }
+      rows.push(empty ? row + empty : row);
+    }
+
+    let castling = '';
+    if (this.castling & WHITE_KINGSIDE) castling += 'K';
+    if (this.castling & WHITE_QUEENSIDE) castling += 'Q';
+    if (this.castling & BLACK_KINGSIDE) castling += 'k';
+    if (this.castling & BLACK_QUEENSIDE) castling += 'q';
+
+    return [
+      rows.join('/'),
+      this.turn === WHITE ? 'w' : 'b',
+      castling || '-',
+      this.ep === -1 ? '-' : squareName(this.ep),
+      this.halfmove,
+      this.fullmove,
+    ].join(' ');
+  }
+
+  /** Recomputes the Zobrist key from scratch; makeMove maintains it incrementally. */
+  computeKey(): [number, number] {
+    let lo = 0;
+    let hi = 0;
+    for (let square = 0; square < 128; square++) {
+      if (square & 0x88) {
+        square += 7;
+        continue;
+      }
+      const piece = this.board[square];
+      if (piece) {
+        lo ^= PIECE_KEYS_LO[piece * 128 + square];
+        hi ^= PIECE_KEYS_HI[piece * 128 + square];
+      }
+    }
+    lo ^= CASTLING_KEYS_LO[this.castling];
+    hi ^= CASTLING_KEYS_HI[this.castling];
+    if (this.ep !== -1) {
+      lo ^= EN_PASSANT_KEYS_LO[this.ep & 7];
+      hi ^= EN_PASSANT_KEYS_HI[this.ep & 7];
+    }
+    if (this.turn === BLACK) {
+      lo ^= SIDE_KEY_LO;
+      hi ^= SIDE_KEY_HI;
+    }
+    return [lo >>> 0, hi >>> 0];
+  }
+
+  get ply(): number {
+    return this.history.length;
+  }
+
+  private togglePiece(piece: number, square: number) {
+    this.keyLo = (this.keyLo ^ PIECE_KEYS_LO[piece * 128 + square]) >>> 0;
+    this.keyHi = (this.keyHi ^ PIECE_KEYS_HI[piece * 128 + square]) >>> 0;
+  }
+
+  private toggleCastling() {
+    this.keyLo = (this.keyLo ^ CASTLING_KEYS_LO[this.castling]) >>> 0;
+    this.keyHi = (this.keyHi ^ CASTLING_KEYS_HI[this.castling]) >>> 0;
+  }
+
+  private toggleEnPassant() {
+    if (this.ep === -1) return;
+    this.keyLo = (this.keyLo ^ EN_PASSANT_KEYS_LO[this.ep & 7]) >>> 0;
+    this.keyHi = (this.keyHi ^ EN_PASSANT_KEYS_HI[this.ep & 7]) >>> 0;
+  }
+
+  // True if a pawn of the side to move stands next to the pawn that just double-pushed
+  private canCaptureEnPassant(pawnSquare: number): boolean {
+    const ownPawn = PAWN | this.turn;
+    const left = pawnSquare - 1;
+    const right = pawnSquare + 1;
+    return (!(left & 0x88) && this.board[left] === ownPawn) || (!(right & 0x88) && this.board[right] === ownPawn);
+  }
+
+  isAttacked(square: number, by: number): boolean {
+    const board = this.board;
+
+    // Pawns attack diagonally forward, so look one rank behind the target from their side
+    const pawn = PAWN | by;
+    const pawnRow = by === WHITE ? 16 : -16;
+    if (!((square + pawnRow - 1) & 0x88) && board[square + pawnRow - 1] === pawn) return true;
+    if (!((square + pawnRow + 1) & 0x88) && board[square + pawnRow + 1] === pawn) return true;
+
+    for (const offset of KNIGHT_OFFSETS) {
+      const target = square + offset;
+      if (!(target & 0x88) && board[target] === (KNIGHT | by)) return true;
+    }
+    for (const offset of KING_OFFSETS) {
+      const target = square + offset;
+      if (!(target & 0x88) && board[target] === (KING | by)) return true;
+    }
+
+    for (const direction of BISHOP_DIRECTIONS) {
+      for (let target = square + direction; !(target & 0x88); target += direction) {
+        const piece = board[target];
+        if (!piece) continue;
+        if (piece === (BISHOP | by) || piece === (QUEEN | by)) return true;
+        break;
+      }
+    }
+    for (const direction of ROOK_DIRECTIONS) {
+      for (let target = square + direction; !(target & 0x88); target += direction) {
+        const piece = board[target];
+        if (!piece) continue;
+        if (piece === (ROOK | by) || piece === (QUEEN | by)) return true;
+        break;
+      }
+    }
+    return false;
+  }
+
+  inCheck(): boolean {
+    return this.isAttacked(this.kings[this.turn >> 3], this.turn ^ BLACK);
+  }
+
+  /**
+   * Pseudo-legal moves; makeMove rejects the ones that leave the king in check.
+   * With capturesOnly, quiet moves are skipped except promotions.
+   */
+  generateMoves(capturesOnly = false): number[] {
+    const moves: number[] = [];
+    const board = this.board;
+    const us = this.turn;
+    const them = us ^ BLACK;
+
+    const addPawnMove = (from: number, to: number, flags: number) => {
+      const row = to >> 4;
+      if (row === 0 || row === 7) {
+        for (const promotion of [QUEEN, KNIGHT, ROOK, BISHOP]) moves.push(encodeMove(from, to, promotion, flags));
+      } else {
+        moves.push(encodeMove(from, to, 0, flags));
+      }
+    };
+
+    for (let from = 0; from < 128; from++) {
+      if (from & 0x88) {
+        from += 7;
+        continue;
+      }
+      const piece = board[from];
+      if (!piece || (piece & BLACK) !== us) continue;
+      const type = piece & 7;
+
+      if (type === PAWN) {
+        const forward = us === WHITE ? -16 : 16;
+        const one = from + forward;
+        const promotes = (one >> 4) === 0 || (one >> 4) === 7;
+        if (!board[one] && (!capturesOnly || promotes)) {
+          addPawnMove(from, one, 0);
+          const startRow = us === WHITE ? 6 : 1;
+          if (!capturesOnly && from >> 4 === startRow && !board[one + forward]) {
+            moves.push(encodeMove(from, one + forward, 0, FLAG_DOUBLE_PUSH));
+          }
+        }
+        for (const side of [-1, 1]) {
+          const to = one + side;
+          if (to & 0x88) continue;
+          const target = board[to];
+          if (target && (target & BLACK) === them) addPawnMove(from, to, FLAG_CAPTURE);
+          else if (to === this.ep) moves.push(encodeMove(from, to, 0, FLAG_CAPTURE | FLAG_EN_PASSANT));
+        }
+        continue;
+      }
+
+      if (type === KNIGHT || type === KING) {
+        for (const offset of type === KNIGHT ? KNIGHT_OFFSETS : KING_OFFSETS) {
+          const to = from + offset;
+          if (to & 0x88) continue;
+          const target = board[to];
+          if (!target) {
+            if (!capturesOnly) moves.push(encodeMove(from, to, 0, 0));
+          } else if ((target & BLACK) === them) {
+            moves.push(encodeMove(from, to, 0, FLAG_CAPTURE));
+          }
+        }
+      } else {
+        const directions =
+          type === BISHOP ? BISHOP_DIRECTIONS : type === ROOK ? ROOK_DIRECTIONS : KING_OFFSETS;
+        for (const direction of directions) {
+          for (let to = from + direction; !(to & 0x88); to += direction) {
+            const target = board[to];
+            if (!target) {
+              if (!capturesOnly) moves.push(encodeMove(from, to, 0, 0));
+              continue;
+            }
+            if ((target & BLACK) === them) moves.push(encodeMove(from, to, 0, FLAG_CAPTURE));
+            break;
+          }
+        }
+      }
+
+      // The king may not castle out of or through check; landing in check is caught by makeMove
+      if (type === KING && !capturesOnly && this.castling) {
+        if (us === WHITE && from === 116) {
+          if (this.castling & WHITE_KINGSIDE && !board[117] && !board[118] &&
+              !this.isAttacked(116, them) && !this.isAttacked(117, them)) {
+            moves.push(encodeMove(116, 118, 0, FLAG_CASTLE));
+          }
+          if (this.castling & WHITE_QUEENSIDE && !board[115] && !board[114] && !board[113] &&
+              !this.isAttacked(116, them) && !this.isAttacked(115, them)) {
+            moves.push(encodeMove(116, 114, 0, FLAG_CASTLE));
+          }
+        } else if (us === BLACK && from === 4) {
+          if (this.castling & BLACK_KINGSIDE && !board[5] && !board[6] &&
+              !this.isAttacked(4, them) && !this.isAttacked(5, them)) {
+            moves.push(encodeMove(4, 6, 0, FLAG_CASTLE));
+          }
+          if (this.castling & BLACK_QUEENSIDE && !board[3] && !board[2] && !board[1] &&
+              !this.isAttacked(4, them) && !this.isAttacked(3, them)) {
+            moves.push(encodeMove(4, 2, 0, FLAG_CASTLE));
+          }
+        }
+      }
+    }
+    return moves;
+  }
+
+  legalMoves(): number[] {
+    return this.generateMoves().filter((move) => {
+      if (!this.makeMove(move)) return false;
+      this.unmakeMove();
+      return true;
+    });
+  }
+
+  hasLegalMove(): boolean {
+    for (const move of this.generateMoves()) {
+      if (this.makeMove(move)) {
+        this.unmakeMove();
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Plays a pseudo-legal move. Returns false (leaving the position untouched) if it is illegal. */
+  makeMove(move: number): boolean {
+    const board = this.board;
+    const from = moveFrom(move);
+    const to = moveTo(move);
+    const flags = moveFlags(move);
+    const promotion = movePromotion(move);
+    const us = this.turn;
+    const piece = board[from];
+
+    const state: UndoState = {
+      move,
+      captured: board[to],
+      castling: this.castling,
+      ep: this.ep,
+      halfmove: this.halfmove,
+      keyLo: this.keyLo,
+      keyHi: this.keyHi,
+    };
+    this.history.push(state);
+
+    this.toggleEnPassant();
+    this.togglePiece(piece, from);
+    board[from] = 0;
+
+    if (flags & FLAG_EN_PASSANT) {
+      const captureSquare = to + (us === WHITE ? 16 : -16);
+      state.captured = board[captureSquare];
+      this.togglePiece(state.captured, captureSquare);
+      board[captureSquare] = 0;
+    } else if (state.captured) {
+      this.togglePiece(state.captured, to);
+    }
+
+    const placed = promotion ? promotion | us : piece;
+    board[to] = placed;
+    this.togglePiece(placed, to);
+
+    if (flags & FLAG_CASTLE) {
+      const [rookFrom, rookTo] = to > from ? [to + 1, to - 1] : [to - 2, to + 1];
+      const rook = board[rookFrom];
+      this.togglePiece(rook, rookFrom);
+      this.togglePiece(rook, rookTo);
+      board[rookTo] = rook;
+      board[rookFrom] = 0;
+    }
+
+    if ((piece & 7) === KING) this.kings[us >> 3] = to;
+
+    this.toggleCastling();
+    this.castling &= CASTLING_MASK[from] & CASTLING_MASK[to];
+    this.toggleCastling();
+
+    this.turn = us ^ BLACK;
+    this.keyLo = (this.keyLo ^ SIDE_KEY_LO) >>> 0;
+    this.keyHi = (this.keyHi ^ SIDE_KEY_HI) >>> 0;
+
+    this.ep = -1;
+    if (flags & FLAG_DOUBLE_PUSH && this.canCaptureEnPassant(to)) {
+      this.ep = (from + to) >> 1;
+      this.toggleEnPassant();
+    }
+
+    this.halfmove = (piece & 7) === PAWN || state.captured ? 0 : this.halfmove + 1;
+    if (us === BLACK) this.fullmove++;
+
+    if (this.isAttacked(this.kings[us >> 3], this.turn)) {
+      this.unmakeMove();
+      return false;
+    }
+    return true;
+  }
+
+  unmakeMove() {
+    const state = this.history.pop();
+    if (!state) return;
+
+    const board = this.board;
+    const { move } = state;
+    const from = moveFrom(move);
+    const to = moveTo(move);
+    const flags = moveFlags(move);
+    const us = this.turn ^ BLACK;
+
+    const piece = movePromotion(move) ? PAWN | us : board[to];
+    board[from] = piece;
+    if (flags & FLAG_EN_PASSANT) {
+      board[to] = 0;
+      board[to + (us === WHITE ? 16 : -16)] = state.captured;
+    } else {
+      board[to] = state.captured;
+    }
+
+    if (flags & FLAG_CASTLE) {
+      const [rookFrom, rookTo] = to > from ? [to + 1, to - 1] : [to - 2, to + 1];
+      board[rookFrom] = board[rookTo];
+      board[rookTo] = 0;
+    }
+
+    if ((piece & 7) === KING) this.kings[us >> 3] = from;
+    if (us === BLACK) this.fullmove--;
+
+    this.turn = us;
+    this.castling = state.castling;
+    this.ep = state.ep;
+    this.halfmove = state.halfmove;
+    this.keyLo = state.keyLo;
+    this.keyHi = state.keyHi;
+  }
+
+  /** True if the current position already occurred since the last capture or pawn move. */
+  isRepetition(): boolean {
+    const oldest = Math.max(0, this.history.length - this.halfmove);
+    for (let i = this.history.length - 2; i >= oldest; i -= 2) {
+      const state = this.history[i];
+      if (state.keyLo === this.keyLo && state.keyHi === this.keyHi) return true;
+    }
+    return false;
+  }
+
+  isInsufficientMaterial(): boolean {
+    let minors = 0;
+    for (let square = 0; square < 128; square++) {
+      if (square & 0x88) {
+        square += 7;
+        continue;
+      }
+      const type = this.board[square] & 7;
+      if (type === PAWN || type === ROOK || type === QUEEN) return false;
+      if (type === KNIGHT || type === BISHOP) minors++;
+    }
+    return minors <= 1;
+  }
+
+  isDraw(): boolean {
+    return this.halfmove >= 100 || this.isRepetition() || this.isInsufficientMaterial();
+  }
+
+  moveToUci(move: number): string {
+    const promotion = movePromotion(move);
+    return squareName(moveFrom(move)) + squareName(moveTo(move)) + (promotion ? PIECE_SYMBOLS[promotion] : '');
+  }
+
+  /** SAN in the same form chess.js produces, including the check/mate suffix. */
+  moveToSan(move: number, legal: number[] = this.legalMoves()): string {
+    const from = moveFrom(move);
+    const to = moveTo(move);
+    const flags = moveFlags(move);
+    const type = this.board[from] & 7;
+    let san: string;
+
+    if (flags & FLAG_CASTLE) {
+      san = to > from ? 'O-O' : 'O-O-O';
+    } else if (type === PAWN) {
+      san = flags & FLAG_CAPTURE ? `${squareName(from)[0]}x${squareName(to)}` : squareName(to);
+      const promotion = movePromotion(move);
+      if (promotion) san += `=${PIECE_SYMBOLS[promotion].toUpperCase()}`;
+    } else {
+      let ambiguities = 0;
+      let sameRank = 0;
+      let sameFile = 0;
+      for (const other of legal) {
+        const otherFrom = moveFrom(other);
+        if (otherFrom === from || moveTo(other) !== to || (this.board[otherFrom] & 7) !== type) continue;
+        ambiguities++;
+        if (otherFrom >> 4 === from >> 4) sameRank++;
+        if ((otherFrom & 7) === (from & 7)) sameFile++;
+      }
+      let disambiguator = '';
+      if (ambiguities > 0) {
+        if (sameRank > 0 && sameFile > 0) disambiguator = squareName(from);
+        else if (sameFile > 0) disambiguator = squareName(from)[1];
+        else disambiguator = squareName(from)[0];
+      }
+      san = PIECE_SYMBOLS[type].toUpperCase() + disambiguator + (flags & FLAG_CAPTURE ? 'x' : '') + squareName(to);
+    }
+
+    if (this.makeMove(move)) {
+      if (this.inCheck()) san += this.hasLegalMove() ? '+' : '#';
+      this.unmakeMove();
+    }
+    return san;
+  }
+
+  /** Finds the legal move matching a SAN or UCI string, ignoring check and annotation suffixes. */
+  findMove(notation: string): number | null {
+    const clean = (text: string) => text.replace(/[+#?!]/g, '');
+    const wanted = clean(notation);
+    const legal = this.legalMoves();
+    for (const move of legal) {
+      if (this.moveToUci(move) === wanted || clean(this.moveToSan(move, legal)) === wanted) return move;
+    }
+    return null;
+  }
+}
+
+/**
+ * Counts leaf nodes of the legal move tree. Passing a table caches subtree counts by
+ * Zobrist key, which only gives the same totals if the incremental keys are correct.
+ */
+export const perft = (position: Position, depth: number, table?: Map<string, number>): number => {
+  if (depth === 0) return 1;
+
+  const cacheKey = table ? `${position.keyHi}:${position.keyLo}:${depth}` : '';
+  const cached = table?.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  let nodes = 0;
+  for (const move of position.generateMoves()) {
+    if (!position.makeMove(move)) continue;
+    nodes += depth === 1 ? 1 : perft(position, depth - 1, table);
+    position.unmakeMove();
+  }
+
+  table?.set(cacheKey, nodes);
+  return nodes;
+};
@@ -0,0 +1,194 @@
+import { Chess, validateFen } from 'chess.js';
+import { EditorPosition, PieceColor, PieceType } from '../types';
+import { INITIAL_FEN } from '../constants';
+
+const FILES = 'abcdefgh';
+
+// Castling rights in FEN order, with the squares the king and rook must stand on to keep them
+const CASTLING_RIGHTS: { right: string; king: string; rook: string; color: PieceColor; description: string }[] = [
+  { right: 'K', king: 'e1', rook: 'h1', color: PieceColor.WHITE, description: 'White kingside' },
+  { right: 'Q', king: 'e1', rook: 'a1', color: PieceColor.WHITE, description: 'White queenside' },
+  { right: 'k', king: 'e8', rook: 'h8', color: PieceColor.BLACK, description: 'Black kingside' },
+  { right: 'q', king: 'e8', rook: 'a8', color: PieceColor.BLACK, description: 'Black queenside' },
+];
+
+export const CASTLING_OPTIONS = CASTLING_RIGHTS.map(({ right, description }) => ({ right, description }));
+
+const sideName = (color: PieceColor) => (color === PieceColor.WHITE ? 'White' : 'Black');
+
+/**
+ * Reads a FEN into an editable position. Only the layout of the text is checked here: whether the
+ * position itself makes sense is for validatePosition.
+ */
+export const parseFen = (fen: string): EditorPosition => {
+  const [placement, turn = 'w', castling = '-', enPassant = '-', halfmoves = '0', fullmoves = '1'] = fen.trim().split(/\s+/);
+  const ranks = (placement ?? '').split('/');
+  if (ranks.length !== 8) throw new Error(`A FEN needs 8 ranks separated by "/", this one has ${ranks.length}`);
+
+  const pieces: Record<string, string> = {};
+  ranks.forEach((rankText, index) => {
+    const rank = 8 - index;
+    let file = 0;
+    for (const char of rankText) {
+      if (/[1-8]/.test(char)) {
+        file += Number(char);
+      } else if (/[pnbrqk]/i.test(char)) {
+        if (file < 8) pieces[`${FILES[file]}${rank}`] = `${char === char.toUpperCase() ? 'w' : 'b'}${char.toLowerCase()}`;
+        file++;
+      } else {
+        throw new Error(`Unknown piece "${char}" on rank ${rank}`);
+      }
+    }
+    if (file !== 8) throw new Error(`Rank ${rank} has ${file} squares instead of 8`);
+  });
+
+  if (turn !== 'w' && turn !== 'b') throw new Error(`Side to move must be "w" or "b", not "${turn}"`);
+  if (!/^(-|K?Q?k?q?)$/.test(castling) || castling === '') {
+    throw new Error(`Castling rights must be "-" or letters from "KQkq" in that order, not "${castling}"`);
+  }
+  if (enPassant !== '-' && !/^[a-h][36]$/.test(enPassant)) {
+    throw new Error(`En passant must be "-" or a square on the 3rd or 6th rank, not "${enPassant}"`);
+  }
+  if (!/^\d+$/.test(halfmoves)) throw new Error(`The halfmove clock must be a whole number, not "${halfmoves}"`);
+  if (!/^\d+$/.test(fullmoves) || Number(fullmoves) < 1) throw new Error(`The move number must be 1 or more, not "${fullmoves}"`);
+
+  return {
+    pieces,
+    turn: turn as PieceColor,
+    castling: castling === '-' ? '' : castling,
+    enPassant: enPassant === '-' ? null : enPassant,
+    halfmoveClock: Number(halfmoves),
+    fullmoveNumber: Number(fullmoves),
+  };
+};
+
+export const toFen = (position: EditorPosition): string => {
+  const ranks: string[] = [];
+  for (let rank = 8; rank >= 1; rank--) {
+    let text = '';
+    let empty = 0;
+    for (const file of FILES) {
+      const piece = position.pieces[`${file}${rank}`];
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty) text += empty;
+      empty = 0;
+      text += piece[0] === 'w' ? piece[1].toUpperCase() : piece[1];
+    }
+    ranks.push(empty ? text + empty : text);
+  }
+  return `${ranks.join('/')} ${position.turn} ${position.castling || '-'} ${position.enPassant ?? '-'} ${position.halfmoveClock} ${position.fullmoveNumber}`;
+};
+
+export const startPosition = (): EditorPosition => parseFen(INITIAL_FEN);
+
+export const emptyPosition = (): EditorPosition => ({ pieces: {}, turn: PieceColor.WHITE, castling: '', enPassant: null, halfmoveClock: 0, fullmoveNumber: 1 });
+
+// Rights whose king and rook are no longer at home are dropped, as is an en passant square
+// the pieces no longer allow
+const tidy = (position: EditorPosition): EditorPosition => ({
+  ...position,
+  castling: position.castling
+    .split('')
+    .filter((right) => canCastle(position, right))
+    .join(''),
+  enPassant: position.enPassant && enPassantSquares(position).includes(position.enPassant) ? position.enPassant : null,
+});
+
+/** Puts a piece (e.g. 'wn') on the square, or empties it when `piece` is null. */
+export const placePiece = (position: EditorPosition, square: string, piece: string | null): EditorPosition => {
+  const pieces = { ...position.pieces };
+  if (piece) pieces[square] = piece;
+  else delete pieces[square];
+  return tidy({ ...position, pieces });
+};
+
+export const movePiece = (position: EditorPosition, from: string, to: string): EditorPosition => {
+  const piece = position.pieces[from];
+  if (!piece || from === to) return position;
+  return placePiece(placePiece(position, from, null), to, piece);
+};
+
+export const setTurn = (position: EditorPosition, turn: PieceColor): EditorPosition => tidy({ ...position, turn });
+
+export const toggleCastling = (position: EditorPosition, right: string): EditorPosition => {
+  const rights = position.castling.includes(right)
+    ? position.castling.replace(right, '')
+    : CASTLING_RIGHTS.map((r) => r.right).filter((r) => r === right || position.castling.includes(r)).join('');
+  return { ...position, castling: rights };
+};
+
+export const setEnPassant = (position: EditorPosition, square: string | null): EditorPosition => ({ ...position, enPassant: square });
+
+/** Whether the king and rook a castling right needs are on their home squares. */
+export const canCastle = (position: EditorPosition, right: string) => {
+  const rule = CASTLING_RIGHTS.find((r) => r.right === right);
+  return !!rule && position.pieces[rule.king] === `${rule.color}k` && position.pieces[rule.rook] === `${rule.color}r`;
+};
+
+/**
+ * Squares the side to move could capture en passant on: behind an enemy pawn that could just have
+ * made a double step, with both squares it passed through empty.
+ */
+export const enPassantSquares = (position: EditorPosition): string[] => {
+  const white = position.turn === PieceColor.WHITE;
+  const [pawnRank, targetRank, startRank] = white ? [5, 6, 7] : [4, 3, 2];
+  const enemyPawn = white ? 'bp' : 'wp';
+  return FILES.split('')
+    .filter(
+      (file) =>
+        position.pieces[`${file}${pawnRank}`] === enemyPawn &&
+        !position.pieces[`${file}${targetRank}`] &&
+        !position.pieces[`${file}${startRank}`]
+    )
+    .map((file) => `${file}${targetRank}`);
+};
+
+/**
+ * Everything that keeps the position from being played, in words fit to show the user; empty
+ * when it is a legal position.
+ */
+export const validatePosition = (position: EditorPosition): string[] => {
+  const errors: string[] = [];
+  const entries = Object.entries(position.pieces);
+
+  for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+    const own = entries.filter(([, piece]) => piece[0] === color);
+    const kings = own.filter(([, piece]) => piece[1] === PieceType.KING).length;
+    const pawns = own.filter(([, piece]) => piece[1] === PieceType.PAWN).length;
+    if (kings !== 1) errors.push(`${sideName(color)} needs exactly one king (has ${kings})`);
+    if (pawns > 8) errors.push(`${sideName(color)} has ${pawns} pawns, more than 8`);
+    if (own.length > 16) errors.push(`${sideName(color)} has ${own.length} pieces, more than 16`);
+  }
+
+  const backRankPawns = entries
+    .filter(([square, piece]) => piece[1] === PieceType.PAWN && (square[1] === '1' || square[1] === '8'))
+    .map(([square]) => square)
+    .sort();
+  if (backRankPawns.length > 0) errors.push(`Pawns can't stand on the first or eighth rank (${backRankPawns.join(', ')})`);
+
+  for (const right of position.castling) {
+    if (!canCastle(position, right)) {
+      const rule = CASTLING_RIGHTS.find((r) => r.right === right)!;
+      errors.push(`${rule.description} castling needs the king on ${rule.king} and the rook on ${rule.rook}`);
+    }
+  }
+  if (position.enPassant && !enPassantSquares(position).includes(position.enPassant)) {
+    errors.push(`${position.enPassant} can't be the en passant square: no pawn can have just passed it`);
+  }
+
+  // The rest needs a position chess.js will load
+  if (errors.length > 0) return errors;
+
+  const opponent = position.turn === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+  const flipped = toFen({ ...position, turn: opponent, enPassant: null });
+  if (validateFen(flipped).ok && new Chess(flipped).inCheck()) {
+    errors.push(`${sideName(opponent)} is in check but it is ${sideName(position.turn)} to move`);
+  }
+
+  const check = validateFen(toFen(position));
+  if (errors.length === 0 && !check.ok) errors.push(check.error ?? 'Invalid position');
+  return errors;
+};
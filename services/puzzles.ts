@@ -0,0 +1,220 @@
+import { Chess, Square } from 'chess.js';
+import { PieceType, Puzzle, PuzzleStats } from '../types';
+import { PIECE_NAMES } from '../constants';
+
+// Where the solver's record is kept between visits
+const STATS_KEY = 'chess-practice.puzzleStats';
+
+// How far one result moves the solver's rating
+const RATING_K = 32;
+
+// Each nudge taken before solving costs this much of the result
+const HINT_PENALTY = 0.3;
+
+// Puzzles nearest the solver's rating that the next one is drawn from
+const PICK_POOL = 12;
+
+export const INITIAL_PUZZLE_STATS: PuzzleStats = { rating: 1200, streak: 0, bestStreak: 0, solved: 0, failed: 0 };
+
+export type PuzzleMoveResult = 'correct' | 'solved' | 'wrong';
+
+export const moveToUci = (move: { from: string; to: string; promotion?: string }) =>
+  `${move.from}${move.to}${move.promotion ?? ''}`;
+
+export const uciToMove = (uci: string) => ({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] || undefined });
+
+// Splits CSV into rows of fields; quoted fields may hold commas, newlines and doubled quotes
+const readCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((value) => value.trim())) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some((value) => value.trim())) rows.push(row);
+  return rows;
+};
+
+const readCsv = (text: string): Record<string, unknown>[] => {
+  const [header, ...rows] = readCsvRows(text);
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  if (!columns.includes('fen') || !columns.includes('solution')) {
+    throw new Error('A CSV puzzle set needs a header row with at least "fen" and "solution" columns');
+  }
+  return rows.map((row) => Object.fromEntries(columns.map((column, index) => [column, row[index]?.trim()])));
+};
+
+const readJson = (text: string): Record<string, unknown>[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const list = Array.isArray(data) ? data : (data as { puzzles?: unknown })?.puzzles;
+  if (!Array.isArray(list)) throw new Error('A JSON puzzle set must be an array of puzzles, or have one under "puzzles"');
+  return list;
+};
+
+// Lists may be arrays or space-separated strings, as CSV has them
+const toList = (value: unknown) =>
+  Array.isArray(value) ? value.map(String) : String(value ?? '').split(/\s+/).filter(Boolean);
+
+const toPuzzle = (record: Record<string, unknown>, index: number): Puzzle => ({
+  id: String(record.id || index + 1),
+  fen: String(record.fen ?? '').trim(),
+  solution: toList(record.solution),
+  themes: toList(record.themes),
+  rating: record.rating === undefined || record.rating === '' ? 1500 : Number(record.rating),
+});
+
+// The FEN must load and every solution move be legal in turn
+const checkPuzzle = (puzzle: Puzzle) => {
+  let board: Chess;
+  try {
+    board = new Chess(puzzle.fen);
+  } catch {
+    throw new Error(`Puzzle ${puzzle.id}: invalid FEN "${puzzle.fen}"`);
+  }
+  if (puzzle.solution.length % 2 === 0) throw new Error(`Puzzle ${puzzle.id}: the solution must end with the solver's move`);
+  if (!Number.isFinite(puzzle.rating)) throw new Error(`Puzzle ${puzzle.id}: the rating must be a number`);
+  puzzle.solution.forEach((uci, index) => {
+    try {
+      board.move(uciToMove(uci));
+    } catch {
+      throw new Error(`Puzzle ${puzzle.id}: solution move ${index + 1} (${uci}) is illegal`);
+    }
+  });
+};
+
+/**
+ * Reads a puzzle set: a JSON array of puzzles, or CSV with a header row naming the columns (id,
+ * fen, solution, themes, rating; moves and themes separated by spaces). A puzzle that doesn't
+ * play out rejects the whole set.
+ */
+export const parsePuzzleSet = (text: string): Puzzle[] => {
+  const trimmed = text.trim();
+  const records = trimmed.startsWith('[') || trimmed.startsWith('{') ? readJson(trimmed) : readCsv(trimmed);
+  if (records.length === 0) throw new Error('No puzzles found');
+  const puzzles = records.map(toPuzzle);
+  puzzles.forEach(checkPuzzle);
+  return puzzles;
+};
+
+/** The puzzles that ship with the app, loaded on first use. */
+export const loadBundledPuzzles = async (): Promise<Puzzle[]> => (await import('../data/puzzles.json')).default as Puzzle[];
+
+/**
+ * Judges the solver's move at `ply` of the solution. The solution's own move is right, and so is
+ * any other move that mates at once: a puzzle may end in more than one mate.
+ */
+export const checkPuzzleMove = (puzzle: Puzzle, ply: number, board: Chess, uci: string): PuzzleMoveResult => {
+  if (uci === puzzle.solution[ply]) return ply + 1 >= puzzle.solution.length ? 'solved' : 'correct';
+  const after = new Chess(board.fen());
+  try {
+    after.move(uciToMove(uci));
+  } catch {
+    return 'wrong';
+  }
+  return after.isCheckmate() ? 'solved' : 'wrong';
+};
+
+/** A puzzle near the solver's rating, skipping the ones played recently while others are left. */
+export const pickPuzzle = (puzzles: Puzzle[], rating: number, recent: string[], random: () => number = Math.random): Puzzle => {
+  const fresh = puzzles.filter((puzzle) => !recent.includes(puzzle.id));
+  const nearest = [...(fresh.length > 0 ? fresh : puzzles)]
+    .sort((a, b) => Math.abs(a.rating - rating) - Math.abs(b.rating - rating))
+    .slice(0, PICK_POOL);
+  return nearest[Math.floor(random() * nearest.length)];
+};
+
+/**
+ * The record a solver starts a set with. One with no results yet is rated at the set's median,
+ * so the first puzzles come from the bulk of the set rather than its few outliers.
+ */
+export const startingPuzzleStats = (stats: PuzzleStats, puzzles: Puzzle[]): PuzzleStats => {
+  if (stats.solved + stats.failed > 0 || puzzles.length === 0) return stats;
+  const ratings = puzzles.map((puzzle) => puzzle.rating).sort((a, b) => a - b);
+  return { ...stats, rating: ratings[Math.floor(ratings.length / 2)] };
+};
+
+/** What a puzzle counts for: 1 solved unaided, less for each nudge taken, 0 if missed. */
+export const puzzleScore = (solved: boolean, hintsUsed: number) => (solved ? Math.max(0, 1 - hintsUsed * HINT_PENALTY) : 0);
+
+/**
+ * The solver's record after a puzzle. The rating moves the Elo way, further for beating a harder
+ * puzzle; only an unaided solve keeps the streak going.
+ */
+export const recordPuzzleResult = (stats: PuzzleStats, puzzleRating: number, score: number): PuzzleStats => {
+  const expected = 1 / (1 + 10 ** ((puzzleRating - stats.rating) / 400));
+  const streak = score === 1 ? stats.streak + 1 : 0;
+  return {
+    rating: Math.round(stats.rating + RATING_K * (score - expected)),
+    streak,
+    bestStreak: Math.max(stats.bestStreak, streak),
+    solved: stats.solved + (score > 0 ? 1 : 0),
+    failed: stats.failed + (score > 0 ? 0 : 1),
+  };
+};
+
+export const loadPuzzleStats = (): PuzzleStats => {
+  try {
+    const saved = localStorage.getItem(STATS_KEY);
+    return saved ? { ...INITIAL_PUZZLE_STATS, ...JSON.parse(saved) } : INITIAL_PUZZLE_STATS;
+  } catch {
+    return INITIAL_PUZZLE_STATS;
+  }
+};
+
+export const savePuzzleStats = (stats: PuzzleStats) => {
+  try {
+    localStorage.setItem(STATS_KEY, JSON.stringify(stats));
+  } catch {
+    // Storage may be off (private browsing); the record then lasts for this visit only
+  }
+};
+
+/**
+ * The nudge for the solver's `stage`th hint at `ply`: first what to look for, then which piece
+ * to move, with that piece's square to point at. The move itself is left to the solver.
+ */
+export const puzzleNudge = (puzzle: Puzzle, ply: number, board: Chess, stage: number): { text: string; square?: string } => {
+  if (stage >= 2) {
+    const { from } = uciToMove(puzzle.solution[ply]);
+    const piece = board.get(from as Square);
+    return { text: `Move your ${piece ? PIECE_NAMES[piece.type as PieceType] : 'piece'} on ${from}.`, square: from };
+  }
+  const movesLeft = Math.ceil((puzzle.solution.length - ply) / 2);
+  const { themes } = puzzle;
+  if (themes.includes('mate')) return { text: movesLeft === 1 ? 'There is a mate in one.' : `There is a forced mate in ${movesLeft}.` };
+  if (themes.includes('fork')) return { text: 'Look for a move that attacks two things at once.' };
+  if (themes.includes('promotion')) return { text: 'A pawn is close to promoting.' };
+  if (themes.includes('hangingPiece')) return { text: 'Something has been left undefended.' };
+  return { text: 'There is a way to win material. Start with checks and captures.' };
+};
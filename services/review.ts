@@ -0,0 +1,165 @@
+import { Chess } from 'chess.js';
+import { GameReview, GameTree, MoveClassification, PieceColor, ReviewedMove, Score, SearchResult } from '../types';
+import { getPath } from './gameTree';
+
+// A mate counts as this many centipawns, less the moves it takes
+const MATE_CP = 10000;
+
+// Evaluations are capped here before losses are measured: a won position stays won whichever way
+// it is won, and a slower mate isn't a blunder
+const LOSS_CAP = 1000;
+
+// The most centipawns a move may give away and keep each label; anything more is a blunder
+const CLASSIFICATIONS: { classification: MoveClassification; maxLoss: number }[] = [
+  { classification: 'best', maxLoss: 10 },
+  { classification: 'good', maxLoss: 50 },
+  { classification: 'inaccuracy', maxLoss: 100 },
+  { classification: 'mistake', maxLoss: 300 },
+];
+
+// How many of the costliest mistakes a review points out
+const KEY_MOMENTS = 5;
+
+export const CLASSIFICATION_LABELS: Record<MoveClassification, string> = {
+  best: 'Best',
+  good: 'Good',
+  inaccuracy: 'Inaccuracy',
+  mistake: 'Mistake',
+  blunder: 'Blunder',
+};
+
+// PGN's move assessment glyphs, shown after the move in the list
+export const CLASSIFICATION_GLYPHS: Record<MoveClassification, string> = {
+  best: '',
+  good: '',
+  inaccuracy: '?!',
+  mistake: '?',
+  blunder: '??',
+};
+
+export const scoreToCp = (score: Score) =>
+  score.type === 'mate' ? Math.sign(score.value) * (MATE_CP - Math.abs(score.value)) : score.value;
+
+/** Moves until mate for an evaluation that is a mate (0 once it is delivered), otherwise null. */
+export const mateDistance = (cp: number) => (MATE_CP - Math.abs(cp) < 1000 ? MATE_CP - Math.abs(cp) : null);
+
+/** An evaluation from White's point of view as players write it: +1.3, -0.4, #3, -#2. */
+export const formatEval = (cp: number) => {
+  const mateIn = mateDistance(cp);
+  if (mateIn !== null) {
+    if (mateIn === 0) return cp > 0 ? '1-0' : '0-1';
+    return `${cp < 0 ? '-' : ''}#${mateIn}`;
+  }
+  const pawns = Math.round(cp / 10) / 10;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(1)}`;
+};
+
+const capped = (cp: number) => Math.max(-LOSS_CAP, Math.min(LOSS_CAP, cp));
+
+/** Chances of winning (percent) from an evaluation, on lichess's curve. */
+export const winPercent = (cp: number) => 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * capped(cp))) - 1);
+
+// 100 for a move that keeps the mover's chances, falling off quickly as they drop (lichess's formula)
+const moveAccuracy = (before: number, after: number) =>
+  Math.max(0, Math.min(100, 103.1668 * Math.exp(-0.04354 * (winPercent(before) - winPercent(after))) - 3.1669));
+
+const classify = (loss: number): MoveClassification =>
+  CLASSIFICATIONS.find(({ maxLoss }) => loss <= maxLoss)?.classification ?? 'blunder';
+
+// A position's value for the side to move and the engine's move and line there; a finished game
+// needs no search
+const evaluatePosition = async (fen: string, analyze: (fen: string) => Promise<SearchResult>) => {
+  const board = new Chess(fen);
+  if (board.isCheckmate()) return { cp: -MATE_CP, bestMove: null, pv: [] };
+  if (board.isGameOver()) return { cp: 0, bestMove: null, pv: [] };
+  const result = await analyze(fen);
+  return { cp: scoreToCp(result.score), bestMove: result.bestMove, pv: result.pv };
+};
+
+/**
+ * The engine's evaluation of a position from White's point of view, as the eval bar shows it,
+ * and the line it expects from there.
+ */
+export const whiteEvaluation = async (fen: string, analyze: (fen: string) => Promise<SearchResult>) => {
+  const { cp, pv } = await evaluatePosition(fen, analyze);
+  return { cp: new Chess(fen).turn() === 'w' ? cp : -cp, line: pv };
+};
+
+/** The evaluations a review found, by node id, starting with the position before the first move. */
+export const reviewEvaluations = (review: GameReview, rootId: number): Record<number, number> =>
+  review.moves.length === 0
+    ? {}
+    : Object.fromEntries([[rootId, review.moves[0].before], ...review.moves.map((move) => [move.nodeId, move.after])]);
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+
+/**
+ * Reviews the moves leading to the node: every position is searched once with `analyze`, and
+ * each move is judged by how much of the mover's evaluation it gave away compared with the
+ * engine's choice. Accuracy per side follows the drop in winning chances, as lichess measures it.
+ */
+export const reviewGame = async (
+  tree: GameTree,
+  nodeId: number,
+  analyze: (fen: string) => Promise<SearchResult>,
+  onProgress?: (done: number, total: number) => void
+): Promise<GameReview> => {
+  const path = getPath(tree, nodeId);
+  const fens = [tree.nodes[tree.rootId].fen, ...path.map((node) => node.fen)];
+  const evaluations: { cp: number; bestMove: string | null }[] = [];
+  for (const fen of fens) {
+    onProgress?.(evaluations.length, fens.length);
+    evaluations.push(await evaluatePosition(fen, analyze));
+  }
+
+  const accuracies: Record<PieceColor, number[]> = { [PieceColor.WHITE]: [], [PieceColor.BLACK]: [] };
+  const moves = path.map((node, index): ReviewedMove => {
+    const color = new Chess(fens[index]).turn() as PieceColor;
+    // Both from the mover's side
+    const before = evaluations[index].cp;
+    const after = -evaluations[index + 1].cp;
+    const { bestMove } = evaluations[index];
+    const isBest = bestMove === node.san;
+    const loss = isBest ? 0 : Math.max(0, capped(before) - capped(after));
+    const classification = isBest ? 'best' : classify(loss);
+    accuracies[color].push(isBest ? 100 : moveAccuracy(before, after));
+
+    // A move as good as the engine's needs no better one pointed out
+    let betterMove: ReviewedMove['betterMove'] = null;
+    if (classification !== 'best' && bestMove) {
+      try {
+        const { san, from, to } = new Chess(fens[index]).move(bestMove);
+        betterMove = { san, from, to };
+      } catch {
+        // An external engine's move that doesn't play here is left out
+      }
+    }
+
+    const sign = color === PieceColor.WHITE ? 1 : -1;
+    return {
+      nodeId: node.id,
+      san: node.san,
+      color,
+      before: before * sign,
+      after: after * sign,
+      loss,
+      classification,
+      betterMove,
+    };
+  });
+
+  const keyMoments = moves
+    .map((move, index) => ({ move, index }))
+    .filter(({ move }) => move.classification === 'mistake' || move.classification === 'blunder')
+    .sort((a, b) => b.move.loss - a.move.loss)
+    .slice(0, KEY_MOMENTS)
+    .map(({ index }) => index)
+    .sort((a, b) => a - b);
+
+  const round = (value: number | null) => (value === null ? null : Math.round(value));
+  return {
+    moves,
+    accuracy: { white: round(average(accuracies[PieceColor.WHITE])), black: round(average(accuracies[PieceColor.BLACK])) },
+    keyMoments,
+  };
+};
@@ -0,0 +1,62 @@
+import { Score, SearchLimits, SearchLine, SearchResult, StrengthLevel } from '../types';
+
+// Ratings are nominal: they set how often and how badly each level errs, tuned by feel and
+// self-play rather than measured against rated humans
+export const STRENGTH_LEVELS: StrengthLevel[] = [
+  { level: 1, name: 'Beginner', rating: 400, maxDepth: 1, timeMs: 150, quiescenceDepth: 0, candidates: 4, evalNoise: 150, mistakeChance: 0.35, maxMistakeLoss: 450, bookPlies: 4, bookWeighting: 0.25 },
+  { level: 2, name: 'Novice', rating: 600, maxDepth: 1, timeMs: 200, quiescenceDepth: 1, candidates: 4, evalNoise: 120, mistakeChance: 0.3, maxMistakeLoss: 350, bookPlies: 4, bookWeighting: 0.35 },
+  { level: 3, name: 'Casual', rating: 800, maxDepth: 2, timeMs: 250, quiescenceDepth: 1, candidates: 4, evalNoise: 100, mistakeChance: 0.25, maxMistakeLoss: 300, bookPlies: 6, bookWeighting: 0.5 },
+  { level: 4, name: 'Improver', rating: 1000, maxDepth: 2, timeMs: 300, quiescenceDepth: 2, candidates: 4, evalNoise: 80, mistakeChance: 0.2, maxMistakeLoss: 250, bookPlies: 6, bookWeighting: 0.6 },
+  { level: 5, name: 'Club', rating: 1150, maxDepth: 3, timeMs: 400, quiescenceDepth: 2, candidates: 3, evalNoise: 60, mistakeChance: 0.16, maxMistakeLoss: 200, bookPlies: 8, bookWeighting: 0.75 },
+  { level: 6, name: 'Club+', rating: 1300, maxDepth: 3, timeMs: 500, quiescenceDepth: 3, candidates: 3, evalNoise: 45, mistakeChance: 0.12, maxMistakeLoss: 150, bookPlies: 8, bookWeighting: 0.9 },
+  { level: 7, name: 'Intermediate', rating: 1450, maxDepth: 4, timeMs: 600, quiescenceDepth: 4, candidates: 3, evalNoise: 35, mistakeChance: 0.09, maxMistakeLoss: 120, bookPlies: 10, bookWeighting: 1 },
+  { level: 8, name: 'Advanced', rating: 1600, maxDepth: 4, timeMs: 800, quiescenceDepth: 6, candidates: 3, evalNoise: 25, mistakeChance: 0.07, maxMistakeLoss: 90, bookPlies: 10, bookWeighting: 1.1 },
+  { level: 9, name: 'Strong', rating: 1750, maxDepth: 5, timeMs: 1000, candidates: 2, evalNoise: 18, mistakeChance: 0.05, maxMistakeLoss: 70, bookPlies: 12, bookWeighting: 1.25 },
+  { level: 10, name: 'Expert', rating: 1900, maxDepth: 6, timeMs: 1200, candidates: 2, evalNoise: 12, mistakeChance: 0.03, maxMistakeLoss: 50, bookPlies: 14, bookWeighting: 1.5 },
+  { level: 11, name: 'Candidate Master', rating: 2050, maxDepth: 8, timeMs: 1800, candidates: 2, evalNoise: 6, mistakeChance: 0.01, maxMistakeLoss: 30, bookPlies: 16, bookWeighting: 1.75 },
+  { level: 12, name: 'Master', rating: 2200, timeMs: 2500, candidates: 1, evalNoise: 0, mistakeChance: 0, maxMistakeLoss: 0, bookPlies: 20, bookWeighting: 2 },
+];
+
+export const DEFAULT_LEVEL = 5;
+
+export const getStrengthLevel = (level: number): StrengthLevel =>
+  STRENGTH_LEVELS[Math.min(Math.max(Math.round(level), 1), STRENGTH_LEVELS.length) - 1];
+
+export const formatStrengthLevel = ({ level, name, rating }: StrengthLevel) => `Lv ${level} ${name} (${rating})`;
+
+// What the engine searches for a level, before any deliberate mistakes are applied
+export const strengthLimits = (strength: StrengthLevel): SearchLimits => ({
+  maxDepth: strength.maxDepth,
+  timeMs: strength.timeMs,
+  multiPv: strength.candidates,
+  quiescenceDepth: strength.quiescenceDepth,
+});
+
+// Mates rank above any material score, shorter mates first
+const scoreValue = (score: Score) =>
+  score.type === 'mate' ? (score.value > 0 ? 100000 - score.value : -100000 - score.value) : score.value;
+
+// Standard normal sample (Box-Muller)
+const gaussian = (random: () => number) =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+/**
+ * Picks the move a player of this level would make from the searched candidates. Noise blurs
+ * close scores the way a human misjudges similar moves, and an occasional deliberate mistake
+ * plays a lesser candidate, but never one that throws away more than maxMistakeLoss.
+ */
+export const chooseMove = (result: SearchResult, strength: StrengthLevel, random: () => number = Math.random): SearchLine | null => {
+  const [best] = result.lines;
+  if (!best || result.lines.length === 1) return best ?? null;
+
+  const bestValue = scoreValue(best.score);
+  const candidates = result.lines
+    .filter((line) => bestValue - scoreValue(line.score) <= strength.maxMistakeLoss)
+    .map((line) => ({ line, value: scoreValue(line.score) + gaussian(random) * strength.evalNoise }))
+    .sort((a, b) => b.value - a.value);
+
+  if (candidates.length > 1 && random() < strength.mistakeChance) {
+    return candidates[1 + Math.floor(random() * (candidates.length - 1))].line;
+  }
+  return candidates[0].line;
+};
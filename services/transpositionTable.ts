@@ -0,0 +1,79 @@
+export enum Bound {
+  EXACT = 1,
+  LOWER = 2, // Score is at least this (beta cutoff)
+  UPPER = 3, // Score is at most this (failed low)
+}
+
+export interface TTEntry {
+  depth: number;
+  score: number;
+  bound: Bound;
+  move: number;
+}
+
+/**
+ * Fixed-size hash table keyed by the two 32-bit halves of a Zobrist key. The low half picks
+ * the slot and both halves are stored to reject collisions. A slot holding another position from
+ * the current search is only taken over by a result of equal or greater depth; entries left over
+ * from older searches always give way.
+ */
+export class TranspositionTable {
+  private readonly mask: number;
+  private readonly keysLo: Uint32Array;
+  private readonly keysHi: Uint32Array;
+  private readonly depths: Int8Array;
+  private readonly scores: Int32Array;
+  private readonly bounds: Uint8Array;
+  private readonly moves: Int32Array;
+  private readonly generations: Uint8Array;
+  private generation = 0;
+
+  constructor(sizeBits = 18) {
+    const size = 1 << sizeBits;
+    this.mask = size - 1;
+    this.keysLo = new Uint32Array(size);
+    this.keysHi = new Uint32Array(size);
+    this.depths = new Int8Array(size);
+    this.scores = new Int32Array(size);
+    this.bounds = new Uint8Array(size);
+    this.moves = new Int32Array(size);
+    this.generations = new Uint8Array(size);
+  }
+
+  /** Marks the start of a new search so entries from previous ones become replaceable. */
+  newSearch() {
+    this.generation = (this.generation + 1) & 0xff;
+  }
+
+  clear() {
+    this.bounds.fill(0);
+    this.generation = 0;
+  }
+
+  probe(keyLo: number, keyHi: number): TTEntry | null {
+    const index = keyLo & this.mask;
+    if (!this.bounds[index] || this.keysLo[index] !== keyLo || this.keysHi[index] !== keyHi) return null;
+    return {
+      depth: this.depths[index],
+      score: this.scores[index],
+      bound: this.bounds[index],
+      move: this.moves[index],
+    };
+  }
+
+  store(keyLo: number, keyHi: number, depth: number, score: number, bound: Bound, move: number) {
+    const index = keyLo & this.mask;
+    const occupied = this.bounds[index] !== 0 && this.generations[index] === this.generation;
+    const samePosition = this.keysLo[index] === keyLo && this.keysHi[index] === keyHi;
+    if (occupied && !samePosition && depth < this.depths[index]) return;
+
+    // Keep the old best move when re-storing the same position without one
+    if (!samePosition || move) this.moves[index] = move;
+    this.keysLo[index] = keyLo;
+    this.keysHi[index] = keyHi;
+    this.depths[index] = depth;
+    this.scores[index] = score;
+    this.bounds[index] = bound;
+    this.generations[index] = this.generation;
+  }
+}
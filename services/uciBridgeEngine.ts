@@ -0,0 +1,72 @@
+import { EngineClock, EngineHistory, SearchLimits, SearchProgress, SearchResult } from '../types';
+import type { EngineProvider } from './engineProvider';
+import { EngineRequestOptions, isAbortError } from './engineClient';
+
+// Where scripts/uciBridge.ts listens unless UCI_BRIDGE_URL says otherwise
+export const DEFAULT_BRIDGE_URL = process.env.UCI_BRIDGE_URL || 'http://127.0.0.1:8765';
+
+// Body of POST /search; a level plays a move at that strength, limits alone analyse at full strength
+export interface BridgeSearchRequest {
+  fen: string;
+  level?: number;
+  limits?: SearchLimits;
+  clock?: EngineClock; // With a level: the engine manages its own time, as it would in a timed game
+  history?: EngineHistory; // Played to the engine move by move; must end at `fen`
+}
+
+// The bridge answers with one of these per line (newline-delimited JSON)
+export type BridgeMessage =
+  | { type: 'progress'; progress: SearchProgress }
+  | { type: 'result'; result: SearchResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Drives an external UCI engine (Stockfish or similar) through the local HTTP relay in
+ * scripts/uciBridge.ts. Progress streams back while the engine thinks; aborting the request
+ * closes the connection, which makes the bridge send `stop`.
+ */
+export const createUciBridgeEngine = (bridgeUrl = DEFAULT_BRIDGE_URL): EngineProvider => {
+  const requestSearch = async (body: BridgeSearchRequest, { onProgress, signal }: EngineRequestOptions): Promise<SearchResult> => {
+    let response: Response;
+    try {
+      response = await fetch(`${bridgeUrl}/search`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new Error(`UCI bridge not reachable at ${bridgeUrl}`);
+    }
+    if (!response.ok || !response.body) throw new Error(`UCI bridge answered ${response.status}`);
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line) continue;
+
+        const message = JSON.parse(line) as BridgeMessage;
+        if (message.type === 'progress') onProgress?.(message.progress);
+        else if (message.type === 'result') return message.result;
+        else throw new Error(message.message);
+      }
+    }
+    throw new Error('UCI bridge closed the connection without a result');
+  };
+
+  return {
+    id: 'uci-bridge',
+    name: 'External UCI engine',
+    playMove: (fen, level, options = {}) => requestSearch({ fen, level, clock: options.clock, history: options.history }, options),
+    analyze: (fen, limits, options = {}) => requestSearch({ fen, limits, history: options.history }, options),
+  };
+};
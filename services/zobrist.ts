@@ -0,0 +1,33 @@
+// Zobrist keys for Position. Each key is split into two 32-bit halves so hashing stays
+// in plain integer arithmetic instead of BigInt.
+
+// Deterministic PRNG (mulberry32) so every worker and Node process derives identical keys
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return (t ^ (t >>> 14)) >>> 0;
+};
+
+const random = createRandom(0x5eed1e55);
+
+const fill = (length: number) => {
+  const keys = new Uint32Array(length);
+  for (let i = 0; i < length; i++) keys[i] = random();
+  return keys;
+};
+
+// Pieces are indexed by their Position code (0-15) times 128 plus the 0x88 square
+export const PIECE_KEYS_LO = fill(16 * 128);
+export const PIECE_KEYS_HI = fill(16 * 128);
+
+// Indexed by the 4-bit castling rights mask
+export const CASTLING_KEYS_LO = fill(16);
+export const CASTLING_KEYS_HI = fill(16);
+
+// Indexed by the file of the en-passant square
+export const EN_PASSANT_KEYS_LO = fill(8);
+export const EN_PASSANT_KEYS_HI = fill(8);
+
+export const SIDE_KEY_LO = random();
+export const SIDE_KEY_HI = random();
@@ -23,10 +23,20 @@ export interface BoardSquare {
   color: PieceColor;
 }
 
-export enum Difficulty {
-  EASY = 1,
-  MEDIUM = 2,
-  HARD = 3,
+// Bot strength. Weaker levels search less and make deliberate, human-looking mistakes
+export interface StrengthLevel {
+  level: number; // 1 = weakest
+  name: string;
+  rating: number; // Nominal Elo the level is tuned to resemble
+  maxDepth?: number;
+  timeMs: number;
+  quiescenceDepth?: number; // Captures followed past the horizon; short means long tactics go unseen
+  candidates: number; // How many of the best root moves get an exact score to choose from
+  evalNoise: number; // Standard deviation (cp) of noise added to each candidate's score
+  mistakeChance: number; // Chance of playing the 2nd-to-Nth candidate instead of the best
+  maxMistakeLoss: number; // Largest score drop (cp) a deliberate mistake may cost
+  bookPlies: number; // How many plies into the game the level still plays from the opening book
+  bookWeighting: number; // Power on book move weights: low plays sidelines freely, high keeps to main lines
 }
 
 export interface GameState {
@@ -37,9 +47,243 @@ export interface GameState {
   captured: { w: PieceType[]; b: PieceType[] };
   inCheck: boolean;
   winner: PieceColor | 'draw' | null;
+  clock: ClockState | null; // null in untimed games
+}
+
+// Time per side plus a bonus for each move: an increment added after it, or a delay before the
+// clock starts running down
+export interface TimeControl {
+  id: string;
+  name: string; // e.g. 'Blitz 3+2'
+  category: 'bullet' | 'blitz' | 'rapid' | 'custom';
+  baseMs: number;
+  incrementMs: number;
+  delayMs: number;
+}
+
+export interface ClockState {
+  control: TimeControl;
+  remainingMs: Record<PieceColor, number>; // As of `startedAt` for the running side
+  running: PieceColor | null; // Whose clock is ticking; null before the first move and after the game
+  startedAt: number | null; // Date.now() when the running clock last started
+  flagged: PieceColor | null; // The side that ran out of time
+}
+
+// The bot's own clock in a timed game, which it budgets its thinking time from
+export interface EngineClock {
+  remainingMs: number;
+  incrementMs: number; // Delay counts the same: time the move gets for free
+}
+
+// The game that led to the position searched, for engines that track repetitions and the fifty-move rule
+export interface EngineHistory {
+  startFen: string;
+  moves: string[]; // SAN, from startFen on
 }
 
 export interface AnalysisResult {
   text: string;
   isLoading: boolean;
-}
\ No newline at end of file
+}
+
+// Engine scores are from the side to move's point of view
+export type Score =
+  | { type: 'cp'; value: number }
+  | { type: 'mate'; value: number }; // Moves until mate; negative when being mated
+
+export interface SearchLimits {
+  maxDepth?: number;
+  timeMs?: number;
+  nodes?: number;
+  searchMoves?: string[]; // Restrict the root to these SAN moves, searched in this order
+  multiPv?: number; // Score this many of the best root moves exactly instead of only the best
+  quiescenceDepth?: number; // Cap on capture plies searched past the horizon
+}
+
+export interface SearchLine {
+  move: string;
+  score: Score;
+  pv: string[];
+}
+
+export interface SearchProgress {
+  depth: number;
+  nodes: number;
+  bestMove: string | null;
+  score: Score;
+  pv: string[];
+}
+
+export interface SearchResult extends SearchProgress {
+  timeMs: number;
+  lines: SearchLine[]; // Best first, as many as multiPv asked for
+}
+
+export type EvaluationTerm =
+  | 'material'
+  | 'pieceSquares'
+  | 'passedPawns'
+  | 'doubledPawns'
+  | 'isolatedPawns'
+  | 'rookFiles'
+  | 'mobility'
+  | 'kingShelter';
+
+// Scale on each evaluation term (1 = as tuned, 0 = left out), for trying variants in self-play
+export type EvaluationWeights = Partial<Record<EvaluationTerm, number>>;
+
+// Static evaluation split into terms so the coach can explain where an advantage comes from
+export interface EvaluationBreakdown {
+  phase: number; // 1 = full middlegame material, 0 = bare kings and pawns
+  total: number; // Centipawns, positive favours White
+  terms: Record<EvaluationTerm, { white: number; black: number }>;
+}
+
+// A position being set up in the editor: pieces by square ('e1' → 'wk', as in PIECE_IMAGES) and
+// the rest of what a FEN records
+export interface EditorPosition {
+  pieces: Record<string, string>;
+  turn: PieceColor;
+  castling: string; // FEN letters still allowed, e.g. 'KQk'; empty for none
+  enPassant: string | null;
+  halfmoveClock: number; // Plies since the last capture or pawn move, for the fifty-move rule
+  fullmoveNumber: number;
+}
+
+// A tactics puzzle. The solver is to move in `fen`; `solution` alternates their moves with the
+// opponent's replies, in UCI (e2e4, e7e8q), and ends with a move of the solver's.
+export interface Puzzle {
+  id: string;
+  fen: string;
+  solution: string[];
+  themes: string[];
+  rating: number;
+}
+
+// A named opening, as identified from the moves played
+export interface Opening {
+  eco: string; // Encyclopaedia of Chess Openings code, e.g. 'C50'
+  name: string;
+}
+
+// The solver's record across puzzles, kept between visits
+export interface PuzzleStats {
+  rating: number;
+  streak: number;
+  bestStreak: number;
+  solved: number;
+  failed: number;
+}
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+// One move of a reviewed game. Evaluations are centipawns from White's point of view, a mate
+// counting as 10000 less the moves it takes
+export interface ReviewedMove {
+  nodeId: number;
+  san: string;
+  color: PieceColor;
+  before: number;
+  after: number;
+  loss: number; // Centipawns the move gave away, from the mover's side
+  classification: MoveClassification;
+  betterMove: { san: string; from: string; to: string } | null; // The engine's choice, when it differs
+}
+
+export interface GameReview {
+  moves: ReviewedMove[];
+  accuracy: { white: number | null; black: number | null }; // Percent; null for a side without moves
+  keyMoments: number[]; // Indices into moves of the costliest mistakes, in game order
+}
+
+// Engine backends and what each is used for
+export type EngineProviderId = 'builtin' | 'uci-bridge';
+export type EngineRole = 'play' | 'hint' | 'analysis';
+export type EngineSettings = Record<EngineRole, EngineProviderId>;
+
+// Coach backends, and the model and temperature the app asks them with
+export type CoachProviderId = 'gemini' | 'openai-compatible' | 'offline';
+export interface CoachSettings {
+  provider: CoachProviderId;
+  model: string; // Empty for the provider's default
+  temperature: number;
+}
+
+// What the coach is asked about: a move just played, or the engine's choice for the side to move
+// (with the line it expects to follow) to be explained as a hint
+export type CoachRequest =
+  | { kind: 'commentary'; fen: string; lastMove: string; history: string[]; opening?: string }
+  | { kind: 'hint'; fen: string; engineMove: string; line: string[] };
+
+// How much a hint gives away: the idea, then the piece to move, then the move itself
+export type HintLevel = 'theme' | 'piece' | 'move';
+
+// A hint as the coach's JSON answer gives it
+export interface CoachHintResponse {
+  theme: string;
+  pieceHint: string; // Points at the piece without giving the move away
+  move: string; // SAN
+  explanation: string;
+}
+
+// A hint whose move has been checked to be legal in the position
+export interface StructuredHint {
+  theme: string;
+  pieceHint: string;
+  move: { san: string; from: string; to: string };
+  explanation: string;
+}
+
+// Game records as PGN describes them
+export type GameResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+// How a game ended: its result, and a sentence saying why
+export interface GameOutcome {
+  result: GameResult;
+  reason: string;
+}
+
+export interface PgnMove {
+  san: string;
+  comment?: string; // Text after the move, e.g. the coach's commentary
+  nags?: number[]; // Numeric annotation glyphs: 1 = !, 2 = ?, 3 = !!, 4 = ??, 5 = !?, 6 = ?!
+  variations?: PgnMove[][]; // Lines that could have been played instead of this move
+}
+
+export interface PgnGame {
+  headers: Record<string, string>; // Tag pairs, Seven Tag Roster first
+  comment?: string; // Text before the first move
+  moves: PgnMove[]; // Main line
+  result: GameResult;
+}
+
+// Colours of arrows and circled squares, by the letters PGN's [%cal] and [%csl] commands use
+export type AnnotationColor = 'G' | 'R' | 'Y' | 'B';
+
+// An arrow on the board, or a circled square when `from` and `to` are the same
+export interface BoardAnnotation {
+  from: string;
+  to: string;
+  color: AnnotationColor;
+}
+
+// A game with its variations as a tree of positions, for the move list and navigation
+export interface MoveNode {
+  id: number;
+  parentId: number | null; // null at the root, the starting position
+  san: string; // Empty at the root
+  from: string;
+  to: string;
+  fen: string; // Position after the move
+  comment?: string;
+  nags?: number[];
+  annotations?: BoardAnnotation[]; // Arrows and circles drawn on the position
+  children: number[]; // The first continues the main line, the rest are variations
+}
+
+export interface GameTree {
+  headers: Record<string, string>;
+  rootId: number;
+  nodes: Record<number, MoveNode>;
+  result: GameResult;
+}
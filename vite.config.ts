@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.UCI_BRIDGE_URL': JSON.stringify(env.UCI_BRIDGE_URL),
+        'process.env.COACH_API_URL': JSON.stringify(env.COACH_API_URL),
+        'process.env.COACH_API_KEY': JSON.stringify(env.COACH_API_KEY),
+        'process.env.COACH_MODEL': JSON.stringify(env.COACH_MODEL)
       },
       resolve: {
         alias: {